@@ -27,6 +27,10 @@ const args = process.argv.slice(2);
         );
 
         console.log('Transaction hash:', txReceipt.transactionHash);
+        console.log(
+            'Canceled orders:',
+            txReceipt.canceledOrderIds.map((orderId) => orderId.toString()),
+        );
     } catch (err: any) {
         console.error('Error:', err);
     }
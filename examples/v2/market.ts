@@ -0,0 +1,39 @@
+import { ethers } from 'ethers';
+
+import * as KuruSdk from '../../src';
+import * as KuruConfig from './../config.json';
+
+const { rpcUrl, contractAddress, marginAccountAddress } = KuruConfig;
+
+const privateKey = process.env.PRIVATE_KEY as string;
+
+const args = process.argv.slice(2);
+const price = args[0];
+const size = args[1];
+
+(async () => {
+    const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+    const signer = new ethers.Wallet(privateKey, provider);
+
+    try {
+        const market = await KuruSdk.Market.create(signer, contractAddress, { marginAccountAddress });
+
+        const book = await market.book();
+        console.log('Best bid:', book.bids[0], 'Best ask:', book.asks[book.asks.length - 1]);
+        console.log('Margin balance:', await market.balance());
+
+        const quote = await market.quote(false, size);
+        console.log(`Selling ${size} at market would return ${quote.amountOut}`);
+
+        const receipt = await market.limit({ price, size, isBuy: true }, { postOnly: true });
+        console.log(
+            'Placed orders:',
+            receipt.orderIds.map((orderId) => orderId.toString()),
+        );
+
+        await market.cancel(receipt.orderIds);
+        console.log('Cancelled orders');
+    } catch (error) {
+        console.error('Error trading market:', error);
+    }
+})();
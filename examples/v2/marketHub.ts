@@ -0,0 +1,41 @@
+import { ethers } from 'ethers';
+
+import * as KuruSdk from '../../src';
+import * as KuruConfig from '../config.json';
+
+const { rpcUrl, contractAddress } = KuruConfig;
+const WS_URL = `wss://ws.staging.kuru.io`;
+
+// Pass extra market addresses on the command line
+const marketAddresses = [contractAddress, ...process.argv.slice(2)];
+
+(async () => {
+    const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+    const hub = new KuruSdk.MarketHub(provider);
+
+    try {
+        await hub.addMarkets(marketAddresses);
+        await hub.connect(WS_URL);
+
+        hub.onUpdate(() => {
+            console.clear();
+            console.table(
+                hub.getTopOfBook().map(({ marketAddress, bestBid, bestAsk, spread, blockNumber }) => ({
+                    market: marketAddress,
+                    bid: bestBid?.[0],
+                    ask: bestAsk?.[0],
+                    spread,
+                    block: blockNumber,
+                })),
+            );
+        });
+    } catch (error) {
+        console.error('Error starting market hub:', error);
+        hub.stop();
+    }
+
+    process.on('SIGINT', () => {
+        hub.stop();
+        process.exit();
+    });
+})();
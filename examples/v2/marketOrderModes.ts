@@ -0,0 +1,34 @@
+import { ethers } from 'ethers';
+
+import * as KuruSdk from '../../src';
+import * as KuruConfig from './../config.json';
+
+const { rpcUrl, contractAddress } = KuruConfig;
+
+const privateKey = process.env.PRIVATE_KEY as string;
+
+const args = process.argv.slice(2);
+const mode = args[0] as KuruSdk.MarketOrderMode;
+const amount = args[1];
+const slippageTolerance = parseFloat(args[2] ?? '0.5');
+
+(async () => {
+    const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+    provider._pollingInterval = 10;
+    const signer = new ethers.Wallet(privateKey, provider);
+    try {
+        const marketParams = await KuruSdk.ParamFetcher.getMarketParams(provider, contractAddress);
+        const receipt = await KuruSdk.IOC.placeMarketByMode(signer, contractAddress, marketParams, {
+            approveTokens: true,
+            mode,
+            amount,
+            slippageTolerance,
+            isMargin: false,
+            fillOrKill: false,
+        });
+        console.log('Transaction hash:', receipt.transactionHash);
+        console.log('Filled size:', receipt.filledSize, 'at', receipt.averagePrice);
+    } catch (error) {
+        console.error('Error placing market order:', error);
+    }
+})();
@@ -0,0 +1,38 @@
+import { ethers } from 'ethers';
+
+import * as KuruSdk from '../../src';
+import * as KuruConfig from './../config.json';
+
+const { rpcUrl, contractAddress } = KuruConfig;
+
+const privateKey = process.env.PRIVATE_KEY as string;
+
+const args = process.argv.slice(2);
+const price = args[0];
+const flippedPrice = args[1];
+const size = args[2];
+const isBuy = args[3] !== 'sell';
+
+(async () => {
+    const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+    const signer = new ethers.Wallet(privateKey, provider);
+
+    const marketParams = await KuruSdk.ParamFetcher.getMarketParams(provider, contractAddress);
+
+    try {
+        const receipt = await KuruSdk.FlipOrders.placeFlip(signer, contractAddress, marketParams, {
+            price,
+            flippedPrice,
+            size,
+            isBuy,
+            provisionOrRevert: true,
+        });
+        console.log('Transaction hash:', receipt.transactionHash);
+        console.log(
+            'Flip order IDs:',
+            KuruSdk.FlipOrders.getFlipOrderIds(receipt).map((id) => id.toString()),
+        );
+    } catch (error) {
+        console.error('Error placing flip order:', error);
+    }
+})();
@@ -0,0 +1,50 @@
+import { ethers } from 'ethers';
+import fetch from 'cross-fetch';
+
+import * as KuruSdk from '../../src';
+import * as KuruConfig from './../config.json';
+
+const { rpcUrl, contractAddress } = KuruConfig;
+
+const privateKey = process.env.PRIVATE_KEY as string;
+
+const BINANCE_API_URL = 'https://api.binance.com/api/v3/ticker/price?symbol=SOLUSDT';
+const UPDATE_INTERVAL_MS = 5000;
+
+const binanceFeed: KuruSdk.PriceFeed = {
+    getPrice: async () => {
+        const response = await fetch(BINANCE_API_URL);
+        const data = await response.json();
+        return parseFloat(data.price);
+    },
+};
+
+(async () => {
+    const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+    const signer = new ethers.Wallet(privateKey, provider);
+
+    const marketParams = await KuruSdk.ParamFetcher.getMarketParams(provider, contractAddress);
+    const engine = new KuruSdk.QuoteEngine(signer, contractAddress, marketParams, binanceFeed, {
+        levels: 2,
+        spacingTicks: 10,
+        sizePerLevel: '1',
+        toleranceTicks: 2,
+    });
+
+    const interval = setInterval(async () => {
+        try {
+            const receipt = await engine.update();
+            if (receipt) {
+                console.log('Requoted in', receipt.transactionHash, 'new orders:', receipt.orderIds.length);
+            }
+        } catch (error) {
+            console.error('Error updating quotes:', error);
+        }
+    }, UPDATE_INTERVAL_MS);
+
+    process.on('SIGINT', async () => {
+        clearInterval(interval);
+        await engine.cancelAll();
+        process.exit(0);
+    });
+})();
@@ -19,7 +19,7 @@ const privateKey = process.env.PRIVATE_KEY as string;
 const BINANCE_API_URL = 'https://api.binance.com/api/v3/ticker/price?symbol=SOLUSDT';
 
 // Global state management
-let activeOrderIds: BigNumber[] = []; // Tracks currently active order IDs
+let openOrders: KuruSdk.OpenOrderTracker; // Tracks the signer's open orders
 let currentNonce: number = 0; // Manages transaction nonce
 let currentGasPrice: BigNumber | undefined = undefined;
 
@@ -60,59 +60,6 @@ function getAndIncrementNonce(): number {
     return currentNonce++;
 }
 
-interface TradeInfo {
-    orderId: BigNumber;
-    filledSize: BigNumber;
-    price: BigNumber;
-    isBuy: boolean;
-}
-
-// Event parsing functions
-async function parseEvents(receipt: ethers.ContractReceipt): Promise<{
-    newOrderIds: BigNumber[];
-    trades: TradeInfo[];
-}> {
-    const newOrderIds: BigNumber[] = [];
-    const trades: TradeInfo[] = [];
-
-    receipt.logs.forEach((log) => {
-        // Check for OrderCreated events
-        if (log.topics[0] === ethers.utils.id('OrderCreated(uint40,address,uint96,uint32,bool)')) {
-            try {
-                const decodedLog = ethers.utils.defaultAbiCoder.decode(
-                    ['uint40', 'address', 'uint96', 'uint32', 'bool'],
-                    log.data,
-                );
-                const orderId = BigNumber.from(decodedLog[0]);
-                newOrderIds.push(orderId);
-            } catch (error) {
-                console.error('Error decoding OrderCreated event:', error);
-            }
-        }
-        // Check for Trade events
-        else if (
-            log.topics[0] === ethers.utils.id('Trade(uint40,address,bool,uint256,uint96,address,address,uint96)')
-        ) {
-            try {
-                const decodedLog = ethers.utils.defaultAbiCoder.decode(
-                    ['uint40', 'address', 'bool', 'uint256', 'uint96', 'address', 'address', 'uint96'],
-                    log.data,
-                );
-                trades.push({
-                    orderId: BigNumber.from(decodedLog[0]),
-                    price: BigNumber.from(decodedLog[3]),
-                    filledSize: BigNumber.from(decodedLog[7]),
-                    isBuy: decodedLog[2],
-                });
-            } catch (error) {
-                console.error('Error decoding trade event:', error);
-            }
-        }
-    });
-
-    return { newOrderIds, trades };
-}
-
 // Price fetching function
 async function getSolPrice() {
     try {
@@ -144,10 +91,8 @@ interface TradeEvent {
 // WebSocket order tracking class
 class OrderTracker {
     // Maintains WebSocket connection to track order status
-    // Handles real-time trade events and order updates
-    // Manages active order tracking and cleanup
+    // Forwards real-time trade events to the open order tracker
     private socket: Socket;
-    private activeOrders: Set<string> = new Set();
     private readonly signerAddress: string;
     private marketParams: MarketParams | null = null;
 
@@ -173,13 +118,22 @@ class OrderTracker {
                 return;
             }
 
-            if (trade.updatedSize === '0') {
-                const orderIdStr = BigNumber.from(trade.orderId).toString();
-                if (this.activeOrders.has(orderIdStr)) {
-                    this.activeOrders.delete(orderIdStr);
-                    activeOrderIds = activeOrderIds.filter((id) => id.toString() !== orderIdStr);
-                }
-            }
+            openOrders?.handleTrade(
+                {
+                    orderId: BigNumber.from(trade.orderId),
+                    isBuy: trade.isBuy,
+                    price: BigNumber.from(trade.price),
+                    updatedSize: BigNumber.from(trade.updatedSize),
+                    takerAddress: trade.takerAddress,
+                    filledSize: BigNumber.from(trade.filledSize),
+                },
+                {
+                    // Trade block numbers are base-10 strings
+                    blockNumber: Number(trade.blockNumber),
+                    transactionHash: trade.transactionHash,
+                    logIndex: trade.logIndex,
+                },
+            );
         });
 
         this.socket.on('disconnect', () => {
@@ -227,12 +181,6 @@ class OrderTracker {
         );
     }
 
-    public trackOrders(orderIds: BigNumber[]) {
-        orderIds.forEach((id) => {
-            this.activeOrders.add(id.toString());
-        });
-    }
-
     public disconnect() {
         this.socket.disconnect();
     }
@@ -266,12 +214,12 @@ async function updateLimitOrders(
     signer: ethers.Wallet,
     basePrice: number,
     size: number,
-    orderTracker: OrderTracker,
 ) {
     const marketParams = await getMarketParams(provider);
     const BPS_INCREMENT = 0.001;
 
     try {
+        const activeOrderIds = openOrders.getActiveOrders().orderIds;
         const numCancels = activeOrderIds.length;
         const numNewOrders = 10;
 
@@ -333,10 +281,10 @@ async function updateLimitOrders(
 
         const receipt = await KuruSdk.OrderBatcher.batchUpdate(signer, contractAddress, marketParams, batchUpdate);
 
-        // Parse events and update active orders
-        const { newOrderIds, trades } = await parseEvents(receipt);
-        activeOrderIds = newOrderIds;
-        orderTracker.trackOrders(newOrderIds);
+        // Update open orders from the receipt's cancellations, new orders and fills
+        openOrders.handleLogs(receipt.logs);
+        const newOrderIds = receipt.orderIds;
+        const trades = receipt.decoded.trades;
 
         // Consolidated logging
         console.log('\n=== Market Making Update ===');
@@ -366,9 +314,7 @@ async function updateLimitOrders(
         if (trades.length > 0) {
             console.log('\nExecuted Trades:');
             trades.forEach((trade) => {
-                console.log(
-                    `- ${trade.isBuy ? 'Buy' : 'Sell'}: ${trade.filledSize.toString()} SOL @ $${trade.price.toString()}`,
-                );
+                console.log(`- ${trade.isBuy ? 'Buy' : 'Sell'}: ${trade.filledSize} SOL @ $${trade.price}`);
             });
         }
         console.log('===========================\n');
@@ -424,6 +370,7 @@ async function updateInventoryBalances(
 }
 
 async function cancelAllOrders(signer: ethers.Wallet, marketParams: MarketParams) {
+    const activeOrderIds = openOrders.getActiveOrders().orderIds;
     if (activeOrderIds.length === 0) {
         log('INFO', 'No active orders to cancel');
         return;
@@ -444,8 +391,8 @@ async function cancelAllOrders(signer: ethers.Wallet, marketParams: MarketParams
 
         const receipt = await KuruSdk.OrderBatcher.batchUpdate(signer, contractAddress, marketParams, batchUpdate);
 
+        openOrders.handleLogs(receipt.logs);
         log('INFO', `Successfully cancelled ${activeOrderIds.length} orders. TX: ${receipt.transactionHash}`);
-        activeOrderIds = [];
     } catch (error) {
         log('ERROR', `Failed to cancel orders: ${error}`);
     }
@@ -463,6 +410,11 @@ async function startMarketMaking() {
     const marketParams = await getMarketParams(provider);
     orderTracker.setMarketParams(marketParams);
 
+    // Pick up orders left open by a previous run
+    openOrders = new KuruSdk.OpenOrderTracker(provider, contractAddress, marketParams, signer.address);
+    const latestBlock = await provider.getBlockNumber();
+    await openOrders.sync(Math.max(0, latestBlock - 10_000), latestBlock);
+
     // Initial syncs including balance
     await Promise.all([
         syncNonce(signer),
@@ -485,11 +437,11 @@ async function startMarketMaking() {
         console.log('Initial SOL price:', solPrice);
         console.log(
             'Current active orders:',
-            activeOrderIds.map((id) => id.toString()),
+            openOrders.getActiveOrders().orderIds.map((id) => id.toString()),
         );
 
         const size = 1;
-        await updateLimitOrders(provider, signer, solPrice, size, orderTracker);
+        await updateLimitOrders(provider, signer, solPrice, size);
     } catch (error) {
         console.error('Error in initial market making:', error);
     }
@@ -501,11 +453,11 @@ async function startMarketMaking() {
             console.log('Current SOL price:', solPrice);
             console.log(
                 'Current active orders:',
-                activeOrderIds.map((id) => id.toString()),
+                openOrders.getActiveOrders().orderIds.map((id) => id.toString()),
             );
 
             const size = 1;
-            await updateLimitOrders(provider, signer, solPrice, size, orderTracker);
+            await updateLimitOrders(provider, signer, solPrice, size);
         } catch (error) {
             console.error('Error in market making loop:', error);
         }
@@ -2,7 +2,7 @@ import { ethers, ContractReceipt, BigNumber } from 'ethers';
 import { BatchLPDetails } from './positionViewer';
 import { TransactionOptions } from '../types';
 import orderbookAbi from '../../abi/OrderBook.json';
-import buildTransactionRequest from '../utils/txConfig';
+import buildTransactionRequest, { applyGasLimitBuffer } from '../utils/txConfig';
 import { computeBalanceSlotForMarginAccount } from '../utils/storageSlots';
 
 const PADDED_AMOUNT = ethers.constants.MaxUint256.toHexString();
@@ -181,8 +181,7 @@ export abstract class PositionProvider {
             'latest',
             stateOverrides,
         ]);
-        const estimatedGas = BigNumber.from(estimatedGasHex);
-        const bufferedGas = estimatedGas.mul(120).div(100);
+        const bufferedGas = applyGasLimitBuffer(estimatedGasHex);
         // console.log('estimated gas limit', bufferedGas);
 
         return { gasLimit: bufferedGas, data };
@@ -7,7 +7,7 @@ import { extractErrorMessage } from '../utils';
 
 // ============ Config Imports ============
 import routerAbi from '../../abi/Router.json';
-import buildTransactionRequest from '../utils/txConfig';
+import buildTransactionRequest, { sendTransactionRequest } from '../utils/txConfig';
 
 export class ParamCreator {
     static DEFAULT_PRICE_PRECISION_DECIMALS = 4;
@@ -90,7 +90,7 @@ export class ParamCreator {
                 txOptions,
             );
 
-            const transaction = await signer.sendTransaction(tx);
+            const transaction = await sendTransactionRequest(signer, tx, txOptions);
             const receipt = await transaction.wait(1);
 
             const marketRegisteredLog = receipt.logs.find((log) => {
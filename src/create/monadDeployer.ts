@@ -7,7 +7,7 @@ import { extractErrorMessage } from '../utils';
 
 // ============ Config Imports ============
 import monadDeployerAbi from '../../abi/MonadDeployer.json';
-import buildTransactionRequest from '../utils/txConfig';
+import buildTransactionRequest, { sendTransactionRequest } from '../utils/txConfig';
 
 export interface TokenParams {
     name: string;
@@ -85,7 +85,7 @@ export class MonadDeployer {
                 txOptions,
             );
 
-            const transaction = await signer.sendTransaction(tx);
+            const transaction = await sendTransactionRequest(signer, tx, txOptions);
             const receipt = await transaction.wait(1);
 
             const pumpingTimeLog = receipt.logs.find((log) => {
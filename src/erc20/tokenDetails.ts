@@ -9,6 +9,7 @@ export abstract class TokenDetailsReader {
      * @param kuruUtilsAddress - The address of the KuruUtils contract
      * @param tokens - Array of token addresses to query
      * @param holder - Address of the token holder
+     * @param blockTag - Optional block to read at. Defaults to the latest block
      * @returns Promise resolving to an array of TokenInfo objects
      */
     static async getTokensInfo(
@@ -16,10 +17,11 @@ export abstract class TokenDetailsReader {
         kuruUtilsAddress: string,
         tokens: string[],
         holder: string,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<TokenInfo[]> {
         const kuruUtils = new ethers.Contract(kuruUtilsAddress, KuruUtilsABI.abi, providerOrSigner);
 
-        const result = await kuruUtils.getTokensInfo(tokens, holder);
+        const result = await kuruUtils.getTokensInfo(tokens, holder, { blockTag });
 
         return result.map((info: any) => ({
             name: info.name,
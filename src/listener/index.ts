@@ -1 +1,2 @@
 export * from './orderbookListener';
+export * from './wsClient';
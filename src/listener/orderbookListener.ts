@@ -1,38 +1,307 @@
 import { ethers, BigNumber } from 'ethers';
 
-import { TradeEvent, OrderEvent } from '../types/types';
+import { TradeEvent, OrderEvent, FlipOrderEvent } from '../types/types';
 import orderbookAbi from '../../abi/OrderBook.json';
 
+const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
+export interface MarketListenerOptions {
+    /** Last block already processed. Events after it are backfilled on start; defaults to the current block. */
+    fromBlock?: number;
+    /** Maximum number of blocks per getLogs request. Defaults to 2000. */
+    maxBlockRange?: number;
+    /** Delay in milliseconds before reconnecting a closed WebSocket. Defaults to 3000. */
+    reconnectDelayMs?: number;
+    /** Creates a new provider after a WebSocket disconnect. Defaults to reconnecting to the URL given to the constructor. */
+    createProvider?: () => ethers.providers.Provider;
+}
+
+export interface MarketEvent {
+    name: string;
+    args: ethers.utils.Result;
+    log: ethers.providers.Log;
+}
+
+/**
+ * @dev Listens to every OrderBook event. Logs are fetched with getLogs on each new block from the last
+ *      processed block, so blocks missed while the provider was disconnected are backfilled.
+ *      Vault activity has no dedicated event: AMM fills are emitted as Trade events with orderId 0.
+ */
 export class MarketListener {
-    private contract: ethers.Contract;
+    private provider: ethers.providers.Provider;
+    private listeners: Map<string, Set<(event: MarketEvent) => void>> = new Map();
+    private seenLogs: Map<string, number> = new Map();
+    private checkpoint: number | undefined;
+    private processing: Promise<void> = Promise.resolve();
+    private started: boolean = false;
+    private stopped: boolean = false;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private readonly createProvider?: () => ethers.providers.Provider;
+    private readonly maxBlockRange: number;
+    private readonly reconnectDelayMs: number;
 
-    constructor(rpcUrl: string, contractAddress: string) {
-        const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
-        this.contract = new ethers.Contract(contractAddress, orderbookAbi.abi, provider);
+    constructor(
+        providerOrRpcUrl: ethers.providers.Provider | string,
+        private readonly contractAddress: string,
+        options: MarketListenerOptions = {},
+    ) {
+        this.createProvider =
+            options.createProvider ??
+            (typeof providerOrRpcUrl === 'string' ? () => providerFromUrl(providerOrRpcUrl) : undefined);
+        this.provider = typeof providerOrRpcUrl === 'string' ? providerFromUrl(providerOrRpcUrl) : providerOrRpcUrl;
+        this.checkpoint = options.fromBlock;
+        this.maxBlockRange = options.maxBlockRange ?? 2000;
+        this.reconnectDelayMs = options.reconnectDelayMs ?? 3000;
     }
 
-    async listenForOrders(callback: (order: OrderEvent) => void) {
-        this.contract.on(
-            'OrderCreated',
-            async (orderId: BigNumber, ownerAddress: string, size: BigNumber, price: BigNumber, isBuy: boolean) => {
-                callback({ orderId, ownerAddress, size, price, isBuy });
-            },
-        );
+    /**
+     * @dev Subscribes to an OrderBook event by name, or to every event with '*'. Starts the listener if needed.
+     * @param eventName - The ABI event name, e.g. 'OrdersCanceled'.
+     * @param callback - Called once per log, in block and log index order.
+     * @returns A function that removes the subscription.
+     */
+    on(eventName: string, callback: (event: MarketEvent) => void): () => void {
+        if (eventName !== '*') {
+            // Throws for names that are not in the OrderBook ABI
+            orderbookInterface.getEvent(eventName);
+        }
+
+        const callbacks = this.listeners.get(eventName) ?? new Set();
+        callbacks.add(callback);
+        this.listeners.set(eventName, callbacks);
+
+        this.start().catch((error) => console.error('Error starting market listener:', error));
+
+        return () => {
+            callbacks.delete(callback);
+        };
+    }
+
+    async listenForOrders(callback: (order: OrderEvent, log: ethers.providers.Log) => void) {
+        return this.on('OrderCreated', ({ args, log }) => {
+            callback(
+                {
+                    orderId: BigNumber.from(args.orderId),
+                    ownerAddress: args.owner,
+                    size: args.size,
+                    price: BigNumber.from(args.price),
+                    isBuy: args.isBuy,
+                },
+                log,
+            );
+        });
     }
 
-    async listenForTrades(callback: (trade: TradeEvent) => void) {
-        this.contract.on(
-            'Trade',
-            async (
-                orderId: BigNumber,
-                isBuy: boolean,
-                price: BigNumber,
-                updatedSize: BigNumber,
-                takerAddress: string,
-                filledSize: BigNumber,
-            ) => {
-                callback({ orderId, isBuy, price, updatedSize, takerAddress, filledSize });
-            },
+    async listenForTrades(callback: (trade: TradeEvent, log: ethers.providers.Log) => void) {
+        return this.on('Trade', ({ args, log }) => {
+            callback(
+                {
+                    orderId: BigNumber.from(args.orderId),
+                    isBuy: args.isBuy,
+                    price: args.price,
+                    updatedSize: args.updatedSize,
+                    takerAddress: args.takerAddress,
+                    filledSize: args.filledSize,
+                },
+                log,
+            );
+        });
+    }
+
+    async listenForCancels(callback: (orderIds: BigNumber[], ownerAddress: string) => void) {
+        const toOrderIds = (orderIds: any[]) => orderIds.map((orderId) => BigNumber.from(orderId));
+
+        const unsubscribeOrders = this.on('OrdersCanceled', ({ args }) =>
+            callback(toOrderIds(args.orderId), args.owner),
         );
+        const unsubscribeFlips = this.on('FlipOrdersCanceled', ({ args }) =>
+            callback(toOrderIds(args.orderIds), args.owner),
+        );
+
+        return () => {
+            unsubscribeOrders();
+            unsubscribeFlips();
+        };
+    }
+
+    async listenForFlipOrders(callback: (order: FlipOrderEvent) => void) {
+        const handler = ({ args }: MarketEvent) => {
+            callback({
+                orderId: BigNumber.from(args.orderId),
+                flippedId: BigNumber.from(args.flippedId),
+                ownerAddress: args.owner,
+                size: args.size,
+                price: BigNumber.from(args.price),
+                flippedPrice: BigNumber.from(args.flippedPrice),
+                isBuy: args.isBuy,
+            });
+        };
+
+        const unsubscribeCreated = this.on('FlipOrderCreated', handler);
+        const unsubscribeFlipped = this.on('FlippedOrderCreated', handler);
+
+        return () => {
+            unsubscribeCreated();
+            unsubscribeFlipped();
+        };
+    }
+
+    /**
+     * @dev Returns the last block whose logs have been delivered, e.g. to resume from it later with options.fromBlock.
+     */
+    getCheckpoint(): number | undefined {
+        return this.checkpoint;
+    }
+
+    /**
+     * @dev Stops listening and drops all subscriptions.
+     */
+    stop() {
+        this.stopped = true;
+        this.listeners.clear();
+        this.provider.off('block', this.handleBlock);
+
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+
+        if (this.createProvider && this.provider instanceof ethers.providers.WebSocketProvider) {
+            this.provider.destroy().catch(() => undefined);
+        }
+    }
+
+    // ======================== INTERNAL HELPER FUNCTIONS ========================
+
+    private async start() {
+        if (this.started || this.stopped) {
+            return;
+        }
+        this.started = true;
+
+        let latestBlock: number;
+        try {
+            latestBlock = await this.provider.getBlockNumber();
+        } catch (error) {
+            // Allow the next subscription to retry
+            this.started = false;
+            throw error;
+        }
+
+        if (this.checkpoint === undefined) {
+            this.checkpoint = latestBlock;
+        }
+
+        this.subscribe();
+        this.handleBlock(latestBlock);
+    }
+
+    private subscribe() {
+        this.provider.on('block', this.handleBlock);
+
+        // ethers does not handle WebSocket closes, so hook the underlying socket directly
+        const websocket: any = (this.provider as ethers.providers.WebSocketProvider).websocket;
+        if (websocket) {
+            websocket.onclose = () => this.reconnect();
+        }
+    }
+
+    private reconnect() {
+        if (this.stopped || this.reconnectTimer) {
+            return;
+        }
+
+        this.provider.off('block', this.handleBlock);
+
+        if (!this.createProvider) {
+            console.error('Market listener disconnected and cannot reconnect an injected provider');
+            return;
+        }
+
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = null;
+            if (this.stopped) {
+                return;
+            }
+
+            try {
+                this.provider = this.createProvider!();
+                this.subscribe();
+                // Backfill the blocks missed while disconnected
+                this.handleBlock(await this.provider.getBlockNumber());
+            } catch (error) {
+                console.error('Error reconnecting market listener:', error);
+                this.reconnect();
+            }
+        }, this.reconnectDelayMs);
+    }
+
+    private handleBlock = (blockNumber: number) => {
+        // Serialize backfills so logs are delivered in order and exactly once
+        this.processing = this.processing
+            .then(() => this.backfill(blockNumber))
+            .catch((error) => console.error('Error fetching market events:', error));
+    };
+
+    private async backfill(toBlock: number) {
+        while (!this.stopped && this.checkpoint !== undefined && this.checkpoint < toBlock) {
+            const fromBlock = this.checkpoint + 1;
+            const endBlock = Math.min(fromBlock + this.maxBlockRange - 1, toBlock);
+
+            const logs = await this.provider.getLogs({
+                address: this.contractAddress,
+                fromBlock,
+                toBlock: endBlock,
+            });
+
+            logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex).forEach((log) =>
+                this.dispatch(log),
+            );
+
+            this.checkpoint = endBlock;
+            this.pruneSeenLogs();
+        }
+    }
+
+    private dispatch(log: ethers.providers.Log) {
+        const logKey = `${log.transactionHash}:${log.logIndex}`;
+        if (this.seenLogs.has(logKey)) {
+            return;
+        }
+        this.seenLogs.set(logKey, log.blockNumber);
+
+        let parsed: ethers.utils.LogDescription;
+        try {
+            parsed = orderbookInterface.parseLog(log);
+        } catch {
+            return;
+        }
+
+        const event: MarketEvent = { name: parsed.name, args: parsed.args, log };
+        const callbacks = [...(this.listeners.get(parsed.name) ?? []), ...(this.listeners.get('*') ?? [])];
+
+        for (const callback of callbacks) {
+            try {
+                callback(event);
+            } catch (error) {
+                console.error(`Error in ${parsed.name} listener:`, error);
+            }
+        }
     }
+
+    private pruneSeenLogs() {
+        // Logs are only fetched after the checkpoint, so old keys are only needed to absorb small reorgs
+        const minBlock = (this.checkpoint ?? 0) - 128;
+        for (const [logKey, blockNumber] of this.seenLogs) {
+            if (blockNumber < minBlock) {
+                this.seenLogs.delete(logKey);
+            }
+        }
+    }
+}
+
+function providerFromUrl(url: string): ethers.providers.Provider {
+    return url.startsWith('ws')
+        ? new ethers.providers.WebSocketProvider(url)
+        : new ethers.providers.JsonRpcProvider(url);
 }
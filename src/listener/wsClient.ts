@@ -0,0 +1,254 @@
+// ============ External Imports ============
+import { BigNumber } from 'ethers';
+import { io, Socket } from 'socket.io-client';
+
+// ============ Internal Imports ============
+import { WssCanceledOrderEvent, WssOrderEvent, WssTradeEvent } from '../types';
+import { LocalOrderBook } from '../market/localOrderBook';
+
+export interface KuruWsClientOptions {
+    /** Delay in milliseconds before the first reconnection attempt. Defaults to 1000. */
+    reconnectionDelayMs?: number;
+    /** Maximum delay in milliseconds between reconnection attempts. Defaults to 10000. */
+    reconnectionDelayMaxMs?: number;
+}
+
+/**
+ * @dev Client for Kuru's socket.io event feed. One socket carries the events of every market it is
+ *      subscribed to, and events are routed by their marketAddress.
+ */
+export class KuruWsClient {
+    private socket: Socket;
+    private marketAddresses: string[];
+    private hasConnected: boolean = false;
+    private closed: boolean = false;
+    private reconnectListeners: Set<() => void> = new Set();
+
+    constructor(url: string, marketAddress: string | string[], options: KuruWsClientOptions = {}) {
+        this.marketAddresses = Array.isArray(marketAddress) ? [...marketAddress] : [marketAddress];
+        this.socket = io(url, {
+            query: { marketAddress: this.marketAddresses.join(',') },
+            transports: ['websocket'],
+            autoConnect: false,
+            reconnectionDelay: options.reconnectionDelayMs ?? 1000,
+            reconnectionDelayMax: options.reconnectionDelayMaxMs ?? 10000,
+        });
+
+        this.socket.on('connect', () => {
+            if (this.hasConnected) {
+                // The market subscription is part of the handshake, so every reconnect resubscribes
+                this.reconnectListeners.forEach((listener) => listener());
+            }
+            this.hasConnected = true;
+        });
+
+        this.socket.on('disconnect', (reason) => {
+            // socket.io does not retry connections closed by the server
+            if (reason === 'io server disconnect' && !this.closed) {
+                this.socket.connect();
+            }
+        });
+    }
+
+    /**
+     * @dev Opens the connection.
+     * @returns A promise that resolves once connected, or rejects if the first attempt fails.
+     */
+    connect(): Promise<void> {
+        this.closed = false;
+
+        return new Promise((resolve, reject) => {
+            if (this.socket.connected) {
+                resolve();
+                return;
+            }
+
+            const onConnect = () => {
+                this.socket.off('connect_error', onError);
+                resolve();
+            };
+            const onError = (error: Error) => {
+                this.socket.off('connect', onConnect);
+                reject(error);
+            };
+
+            this.socket.once('connect', onConnect);
+            this.socket.once('connect_error', onError);
+            this.socket.connect();
+        });
+    }
+
+    /**
+     * @dev Closes the connection and stops reconnecting.
+     */
+    disconnect() {
+        this.closed = true;
+        this.socket.disconnect();
+    }
+
+    isConnected(): boolean {
+        return this.socket.connected;
+    }
+
+    /**
+     * @dev Subscribes the socket to more markets. The subscription is part of the handshake, so an open
+     *      connection is reopened and the reconnect listeners are called.
+     * @param marketAddresses - The addresses of the order book contracts.
+     */
+    addMarkets(marketAddresses: string[]) {
+        const newAddresses = marketAddresses.filter((address) => !this.hasMarket(address));
+        if (newAddresses.length === 0) {
+            return;
+        }
+
+        this.marketAddresses.push(...newAddresses);
+        this.updateQuery();
+        if (this.socket.connected) {
+            this.socket.disconnect().connect();
+        }
+    }
+
+    /**
+     * @dev Stops routing the events of a market. The server keeps sending them until the next reconnect.
+     */
+    removeMarket(marketAddress: string) {
+        this.marketAddresses = this.marketAddresses.filter(
+            (address) => address.toLowerCase() !== marketAddress.toLowerCase(),
+        );
+        this.updateQuery();
+    }
+
+    getMarkets(): string[] {
+        return [...this.marketAddresses];
+    }
+
+    /**
+     * @dev Subscribes to OrderCreated events. onTrade and onOrdersCanceled route the same way.
+     * @param callback - Called for each event.
+     * @param marketAddress - Only deliver the events of this market. Needed when the client has several markets.
+     */
+    onOrderCreated(callback: (event: WssOrderEvent) => void, marketAddress?: string): () => void {
+        return this.subscribe('OrderCreated', marketAddress, (raw) => callback(KuruWsClient.toOrderEvent(raw)));
+    }
+
+    onTrade(callback: (event: WssTradeEvent) => void, marketAddress?: string): () => void {
+        return this.subscribe('Trade', marketAddress, (raw) => callback(KuruWsClient.toTradeEvent(raw)));
+    }
+
+    onOrdersCanceled(callback: (event: WssCanceledOrderEvent) => void, marketAddress?: string): () => void {
+        return this.subscribe('OrdersCanceled', marketAddress, (raw) =>
+            callback(KuruWsClient.toCanceledOrderEvent(raw)),
+        );
+    }
+
+    /**
+     * @dev Subscribes to reconnections. Events sent while disconnected are lost, so local state should be resynced.
+     */
+    onReconnect(callback: () => void): () => void {
+        this.reconnectListeners.add(callback);
+        return () => {
+            this.reconnectListeners.delete(callback);
+        };
+    }
+
+    /**
+     * @dev Feeds every order book event into a LocalOrderBook and resyncs it after reconnections.
+     * @param localOrderBook - The book to update.
+     * @param marketAddress - The market of the book. Needed when the client has several markets.
+     * @returns A function that removes the subscriptions.
+     */
+    syncOrderBook(localOrderBook: LocalOrderBook, marketAddress?: string): () => void {
+        const unsubscribes = [
+            this.onOrderCreated((event) => localOrderBook.handleOrderCreated(event), marketAddress),
+            this.onTrade((event) => localOrderBook.handleTrade(event), marketAddress),
+            this.onOrdersCanceled((event) => localOrderBook.handleOrdersCanceled(event), marketAddress),
+            this.onReconnect(() => {
+                localOrderBook.resync().catch((error) => console.error('Error resyncing order book:', error));
+            }),
+        ];
+
+        return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+    }
+
+    static toOrderEvent(raw: any): WssOrderEvent {
+        return {
+            orderId: Number(raw.orderId),
+            owner: raw.owner,
+            size: BigNumber.from(raw.size),
+            price: BigNumber.from(raw.price),
+            isBuy: raw.isBuy,
+            blockNumber: BigNumber.from(raw.blockNumber),
+            transactionHash: raw.transactionHash,
+            triggerTime: Number(raw.triggerTime),
+            marketAddress: raw.marketAddress,
+        };
+    }
+
+    static toTradeEvent(raw: any): WssTradeEvent {
+        return {
+            orderId: Number(raw.orderId),
+            makerAddress: raw.makerAddress,
+            isBuy: raw.isBuy,
+            price: BigNumber.from(raw.price).toString(),
+            updatedSize: BigNumber.from(raw.updatedSize).toString(),
+            takerAddress: raw.takerAddress,
+            filledSize: BigNumber.from(raw.filledSize).toString(),
+            // Trade block numbers are base-10 strings
+            blockNumber: BigNumber.from(raw.blockNumber).toString(),
+            transactionHash: raw.transactionHash,
+            triggerTime: Number(raw.triggerTime),
+        };
+    }
+
+    static toCanceledOrderEvent(raw: any): WssCanceledOrderEvent {
+        return {
+            orderIds: (raw.orderIds ?? []).map((orderId: any) => Number(orderId)),
+            makerAddress: raw.makerAddress,
+            canceledOrdersData: raw.canceledOrdersData ?? [],
+        };
+    }
+
+    // ======================== INTERNAL HELPER FUNCTIONS ========================
+
+    private hasMarket(marketAddress: string): boolean {
+        return this.marketAddresses.some((address) => address.toLowerCase() === marketAddress.toLowerCase());
+    }
+
+    private updateQuery() {
+        this.socket.io.opts.query = { marketAddress: this.marketAddresses.join(',') };
+    }
+
+    /**
+     * @dev Events carrying a marketAddress are routed by it. Events without one can only be routed
+     *      when the client has a single market.
+     */
+    private isRouted(raw: any, marketAddress?: string): boolean {
+        if (!raw.marketAddress) {
+            return this.marketAddresses.length === 1 && (!marketAddress || this.hasMarket(marketAddress));
+        }
+
+        return (
+            this.hasMarket(raw.marketAddress) &&
+            (!marketAddress || raw.marketAddress.toLowerCase() === marketAddress.toLowerCase())
+        );
+    }
+
+    private subscribe(eventName: string, marketAddress: string | undefined, handler: (raw: any) => void): () => void {
+        const listener = (raw: any) => {
+            if (!this.isRouted(raw, marketAddress)) {
+                return;
+            }
+
+            try {
+                handler(raw);
+            } catch (error) {
+                console.error(`Error handling ${eventName} event:`, error);
+            }
+        };
+
+        this.socket.on(eventName, listener);
+        return () => {
+            this.socket.off(eventName, listener);
+        };
+    }
+}
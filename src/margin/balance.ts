@@ -2,7 +2,7 @@
 import { BigNumber, ethers } from 'ethers';
 
 // ============ Internal Imports ============
-import { extractErrorMessage } from '../utils';
+import { extractErrorMessage, getReadProvider } from '../utils';
 
 // ============ Config Imports ============
 import marginAccountAbi from '../../abi/MarginAccount.json';
@@ -13,11 +13,19 @@ export abstract class MarginBalance {
         marginAccountAddress: string,
         userAddress: string,
         tokenAddress: string,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<BigNumber> {
         try {
-            const marginAccount = new ethers.Contract(marginAccountAddress, marginAccountAbi.abi, providerOrSigner);
+            const marginAccount = new ethers.Contract(
+                marginAccountAddress,
+                marginAccountAbi.abi,
+                getReadProvider(providerOrSigner),
+            );
 
-            return await marginAccount.getBalance(userAddress, tokenAddress, { from: ethers.constants.AddressZero });
+            return await marginAccount.getBalance(userAddress, tokenAddress, {
+                from: ethers.constants.AddressZero,
+                blockTag,
+            });
         } catch (e: any) {
             if (!e.error) {
                 throw e;
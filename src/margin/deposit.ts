@@ -8,7 +8,7 @@ import { approveToken, estimateApproveGas, extractErrorMessage } from '../utils'
 // ============ Config Imports ============
 import erc20Abi from '../../abi/IERC20.json';
 import marginAccountAbi from '../../abi/MarginAccount.json';
-import buildTransactionRequest from '../utils/txConfig';
+import buildTransactionRequest, { sendTransactionRequest } from '../utils/txConfig';
 
 export abstract class MarginDeposit {
     static async deposit(
@@ -43,7 +43,7 @@ export abstract class MarginDeposit {
                 txOptions,
             );
 
-            const transaction = await signer.sendTransaction(tx);
+            const transaction = await sendTransactionRequest(signer, tx, txOptions);
             return await transaction.wait();
         } catch (e: any) {
             if (!e.error) {
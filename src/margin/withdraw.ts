@@ -7,7 +7,7 @@ import { extractErrorMessage } from '../utils';
 // ============ Config Imports ============
 import marginAccountAbi from '../../abi/MarginAccount.json';
 import { TransactionOptions } from 'src/types';
-import buildTransactionRequest from '../utils/txConfig';
+import buildTransactionRequest, { sendTransactionRequest } from '../utils/txConfig';
 
 export abstract class MarginWithdraw {
     static async withdraw(
@@ -31,7 +31,7 @@ export abstract class MarginWithdraw {
                 txOptions,
             );
 
-            const transaction = await signer.sendTransaction(tx);
+            const transaction = await sendTransactionRequest(signer, tx, txOptions);
             return await transaction.wait();
         } catch (e: any) {
             if (!e.error) {
@@ -77,7 +77,7 @@ export abstract class MarginWithdraw {
             txOptions,
         );
 
-        const transaction = await signer.sendTransaction(tx);
+        const transaction = await sendTransactionRequest(signer, tx, txOptions);
         return await transaction.wait();
     }
 
@@ -0,0 +1,73 @@
+// ============ External Imports ============
+import { BigNumber, BigNumberish, ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import { getProvider, log10BigNumber } from '../utils';
+import { AMEND, AmendedOrderReceipt, MarketParams, OrderValidationContext } from '../types';
+import { OrderBatcher } from './batch';
+import { MarketParamsCache } from './marketParamsCache';
+import { Orders } from './orders';
+
+export abstract class OrderAmender {
+    /**
+     * @dev Amends a resting order by canceling it and placing its replacement in a single batchUpdate.
+     *      The replacement keeps the side of the order, and its current price and remaining size unless overridden.
+     * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
+     * @param orderId - The ID of the order to amend.
+     * @param amend - The new price and size, and how to round them.
+     * @param validationContext - Optional book for the post-only check.
+     * @returns A promise that resolves to the receipt and the ID of the replacement order.
+     */
+    static async amend(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddress: string,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
+        orderId: BigNumberish,
+        amend: AMEND,
+        validationContext?: OrderValidationContext,
+    ): Promise<AmendedOrderReceipt> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
+
+        const provider = getProvider(providerOrSigner);
+
+        const order = await Orders.getOrder(provider, orderbookAddress, BigNumber.from(orderId).toNumber());
+        const remainingSize = BigNumber.from(order.size);
+        if (remainingSize.isZero()) {
+            if (amend.skipIfFilled) {
+                return {};
+            }
+            throw new Error(`Order ${orderId.toString()} is already filled or canceled`);
+        }
+
+        const postOnly = amend.postOnly ?? false;
+        const receipt = await OrderBatcher.batchUpdate(
+            providerOrSigner,
+            orderbookAddress,
+            marketParams,
+            {
+                limitOrders: [
+                    {
+                        price:
+                            amend.price ??
+                            ethers.utils.formatUnits(order.price, log10BigNumber(marketParams.pricePrecision)),
+                        size:
+                            amend.size ??
+                            ethers.utils.formatUnits(remainingSize, log10BigNumber(marketParams.sizePrecision)),
+                        isBuy: order.isBuy,
+                        postOnly,
+                        priceRounding: amend.priceRounding,
+                        sizeRounding: amend.sizeRounding,
+                    },
+                ],
+                cancelOrders: [BigNumber.from(orderId)],
+                postOnly,
+                txOptions: amend.txOptions,
+            },
+            validationContext,
+        );
+
+        return { receipt, orderId: receipt.orderIds[0] };
+    }
+}
@@ -1,29 +1,37 @@
 // ============ External Imports ============
-import { ethers, BigNumber, ContractReceipt } from 'ethers';
+import { ethers, BigNumber } from 'ethers';
 
 // ============ Internal Imports ============
-import { extractErrorMessage, log10BigNumber } from '../utils';
-import { MarketParams, BATCH } from '../types';
+import { extractErrorMessage, toPricePrecision, toSizePrecision } from '../utils';
+import { MarketParams, BATCH, OrderReceipt, OrderValidationContext } from '../types';
+import { ReceiptDecoder } from './receipt';
+import { MarketParamsCache } from './marketParamsCache';
+import { OrderValidator } from './validator';
 
 // ============ Config Imports ============
 import orderbookAbi from '../../abi/OrderBook.json';
-import buildTransactionRequest from '../utils/txConfig';
+import buildTransactionRequest, { sendTransactionRequest } from '../utils/txConfig';
 
 export abstract class OrderBatcher {
     /**
      * @dev Batch updates the order book by placing multiple buy and sell limit orders and canceling existing orders.
      * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
      * @param orderbookAddress - The address of the order book contract.
-     * @param marketParams - The market parameters including price and size precision.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
      * @param batchUpdate - The batch update object containing limit orders and order IDs to cancel.
-     * @returns A promise that resolves when the transaction is confirmed.
+     * @param validationContext - Optional book and margin balances for the post-only and balance checks. The batch is
+     *                            always checked against the market params before any call is made.
+     * @returns A promise that resolves to the receipt extended with the created order IDs and fill summary.
      */
     static async batchUpdate(
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
-        marketParams: MarketParams,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
         batchUpdate: BATCH,
-    ): Promise<ContractReceipt> {
+        validationContext?: OrderValidationContext,
+    ): Promise<OrderReceipt> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
+        OrderValidator.assertValid(OrderValidator.validateBatch(marketParams, batchUpdate, validationContext));
         const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
 
         // Initialize arrays for buy and sell prices and sizes
@@ -34,15 +42,8 @@ export abstract class OrderBatcher {
 
         // Separate the limit orders into buy and sell arrays
         for (const order of batchUpdate.limitOrders) {
-            const pricePrecision = log10BigNumber(marketParams.pricePrecision);
-            const sizePrecision = log10BigNumber(marketParams.sizePrecision);
-
-            // Round the numbers to their respective precisions before parsing
-            const priceStr = Number(order.price).toFixed(pricePrecision);
-            const sizeStr = Number(order.size).toFixed(sizePrecision);
-
-            const priceBn: BigNumber = ethers.utils.parseUnits(priceStr, pricePrecision);
-            const sizeBn: BigNumber = ethers.utils.parseUnits(sizeStr, sizePrecision);
+            const priceBn = toPricePrecision(order.price, marketParams, order.isBuy, order.priceRounding);
+            const sizeBn = toSizePrecision(order.size, marketParams, order.sizeRounding);
 
             if (order.isBuy) {
                 buyPrices.push(priceBn);
@@ -74,10 +75,10 @@ export abstract class OrderBatcher {
                 signer,
             });
 
-            const transaction = await signer.sendTransaction(tx);
+            const transaction = await sendTransactionRequest(signer, tx, batchUpdate.txOptions);
             const receipt = await transaction.wait();
 
-            return receipt;
+            return ReceiptDecoder.toOrderReceipt(receipt, marketParams, address, orderbookAddress);
         } catch (e: any) {
             if (!e.error) {
                 throw e;
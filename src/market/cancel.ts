@@ -1,13 +1,14 @@
 // ============ External Imports ============
-import { BigNumber, ContractReceipt, ethers } from 'ethers';
+import { BigNumber, ethers } from 'ethers';
 
 // ============ Internal Imports ============
-import { TransactionOptions } from '../types';
+import { CancelReceipt, TransactionOptions } from '../types';
 import { extractErrorMessage } from '../utils';
+import { ReceiptDecoder } from './receipt';
 
 // ============ Config Imports ============
 import orderbookAbi from '../../abi/OrderBook.json';
-import buildTransactionRequest from '../utils/txConfig';
+import buildTransactionRequest, { sendTransactionRequest } from '../utils/txConfig';
 
 export abstract class OrderCanceler {
     /**
@@ -44,14 +45,14 @@ export abstract class OrderCanceler {
      * @param orderbookAddress - The address of the order book contract.
      * @param orderIds - An array of order IDs to be cancelled.
      * @param txOptions - Transaction options to be used for the transaction.
-     * @returns A promise that resolves when the transaction is confirmed.
+     * @returns A promise that resolves to the receipt extended with the canceled order IDs.
      */
     static async cancelOrders(
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
         orderIds: BigNumber[],
         txOptions?: TransactionOptions,
-    ): Promise<ContractReceipt> {
+    ): Promise<CancelReceipt> {
         try {
             const signer = providerOrSigner instanceof ethers.Signer ? providerOrSigner : providerOrSigner.getSigner();
 
@@ -62,10 +63,10 @@ export abstract class OrderCanceler {
                 txOptions,
             );
 
-            const transaction = await signer.sendTransaction(tx);
+            const transaction = await sendTransactionRequest(signer, tx, txOptions);
             const receipt = await transaction.wait(1);
 
-            return receipt;
+            return { ...receipt, canceledOrderIds: ReceiptDecoder.getCanceledOrderIds(receipt) };
         } catch (e: any) {
             console.log({ e });
             if (!e.error) {
@@ -93,4 +94,95 @@ export abstract class OrderCanceler {
             throw extractErrorMessage(e);
         }
     }
+
+    /**
+     * @dev Constructs a transaction to cancel multiple flip orders.
+     * @param signer - The signer instance to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param orderIds - An array of flip order IDs to be cancelled.
+     * @param txOptions - Transaction options to be used for the transaction.
+     * @returns A promise that resolves to the transaction request object.
+     */
+    static async constructCancelFlipOrdersTransaction(
+        signer: ethers.Signer,
+        orderbookAddress: string,
+        orderIds: BigNumber[],
+        txOptions?: TransactionOptions,
+    ): Promise<ethers.providers.TransactionRequest> {
+        const address = await signer.getAddress();
+
+        const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+        const data = orderbookInterface.encodeFunctionData('batchCancelFlipOrders', [orderIds]);
+
+        return buildTransactionRequest({
+            to: orderbookAddress,
+            from: address,
+            data,
+            txOptions,
+            signer,
+        });
+    }
+
+    /**
+     * @dev Cancels multiple flip orders by their IDs. Cancelling a flip order also stops it from flipping.
+     * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param orderIds - An array of flip order IDs to be cancelled.
+     * @param txOptions - Transaction options to be used for the transaction.
+     * @returns A promise that resolves to the receipt extended with the canceled order IDs.
+     */
+    static async cancelFlipOrders(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddress: string,
+        orderIds: BigNumber[],
+        txOptions?: TransactionOptions,
+    ): Promise<CancelReceipt> {
+        try {
+            const signer = providerOrSigner instanceof ethers.Signer ? providerOrSigner : providerOrSigner.getSigner();
+
+            const tx = await OrderCanceler.constructCancelFlipOrdersTransaction(
+                signer,
+                orderbookAddress,
+                orderIds,
+                txOptions,
+            );
+
+            const transaction = await sendTransactionRequest(signer, tx, txOptions);
+            const receipt = await transaction.wait(1);
+
+            return { ...receipt, canceledOrderIds: ReceiptDecoder.getCanceledOrderIds(receipt) };
+        } catch (e: any) {
+            console.log({ e });
+            if (!e.error) {
+                throw e;
+            }
+            throw extractErrorMessage(e);
+        }
+    }
+
+    /**
+     * @dev Estimates the gas required to cancel multiple flip orders.
+     * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param orderIds - An array of flip order IDs to be cancelled.
+     * @returns A promise that resolves to the estimated gas required for the transaction.
+     */
+    static async estimateGasFlipOrders(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddress: string,
+        orderIds: BigNumber[],
+    ): Promise<BigNumber> {
+        try {
+            const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
+
+            const gasEstimate = await orderbook.estimateGas.batchCancelFlipOrders(orderIds);
+            return gasEstimate;
+        } catch (e: any) {
+            console.log({ e });
+            if (!e.error) {
+                throw e;
+            }
+            throw extractErrorMessage(e);
+        }
+    }
 }
@@ -4,7 +4,8 @@ import { BigNumber, ethers } from 'ethers';
 // ============ Internal Imports ============
 import { MarketParams } from '../types';
 import { OrderBook } from './orderBook';
-import { log10BigNumber } from '../utils';
+import { MarketParamsCache } from './marketParamsCache';
+import { log10BigNumber, parseDecimal, toSizePrecision } from '../utils';
 
 // ============ Config Imports ============
 import { extractErrorMessage } from '../utils';
@@ -15,26 +16,28 @@ export abstract class CostEstimator {
      * @dev Estimates the amount of quote tokens that would be received for a market sell order of a given size.
      * @param providerOrSigner - The ethers.js provider to interact with the blockchain.
      * @param orderbookAddress - The address of the order book contract.
-     * @param marketParams - The market parameters including price and size precision.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
      * @param size - The size of the base asset to sell.
+     * @param blockTag - Optional block to simulate at. Defaults to the latest block. Gas is always estimated
+     *                   against the latest block.
      * @returns A promise that resolves to the amount of quote tokens received.
      */
     static async estimateMarketSell(
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
-        marketParams: MarketParams,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
         size: number,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<{ output: number; estimatedGas: BigNumber }> {
-        const sizeInPrecision = ethers.utils.parseUnits(
-            size.toFixed(log10BigNumber(marketParams.sizePrecision)),
-            log10BigNumber(marketParams.sizePrecision),
-        );
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
+        const sizeInPrecision = toSizePrecision(size, marketParams);
 
         try {
             const { output, estimatedGas } = await this.returnMarketSellEstimate(
                 providerOrSigner,
                 orderbookAddress,
                 sizeInPrecision,
+                blockTag,
             );
 
             return {
@@ -53,12 +56,14 @@ export abstract class CostEstimator {
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
         size: BigNumber,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<{ output: BigNumber; estimatedGas: BigNumber }> {
         const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
 
         const [estimate, estimatedGas] = await Promise.all([
             orderbook.callStatic.placeAndExecuteMarketSell(size, 0, false, false, {
                 from: ethers.constants.AddressZero,
+                blockTag,
             }),
             orderbook.estimateGas.placeAndExecuteMarketSell(size, 0, false, false, {
                 from: ethers.constants.AddressZero,
@@ -72,18 +77,21 @@ export abstract class CostEstimator {
      * @dev Estimates the amount of base tokens required to receive a given amount of quote tokens from a market sell order.
      * @param providerOrSigner - The ethers.js provider to interact with the blockchain.
      * @param orderbookAddress - The address of the order book contract.
-     * @param marketParams - The market parameters including price and size precision.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
      * @param quoteAmount - The amount of quote tokens desired.
+     * @param blockTag - Optional block to read the order book at when l2Book is not given. Defaults to the latest block.
      * @returns A promise that resolves to the amount of base tokens required.
      */
     static async estimateRequiredBaseForSell(
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
-        marketParams: MarketParams,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
         quoteAmount: number,
         l2Book: any,
         contractVaultParams: any,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<number> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
         const takerFeeBps = marketParams.takerFeeBps.toNumber() / 10000;
         const grossQuoteAmount = quoteAmount / (1 - takerFeeBps);
 
@@ -93,6 +101,7 @@ export abstract class CostEstimator {
             marketParams,
             l2Book,
             contractVaultParams,
+            blockTag,
         );
 
         let remainingQuote = grossQuoteAmount;
@@ -124,26 +133,28 @@ export abstract class CostEstimator {
      * @dev Estimates the amount of base tokens that would be received for a market buy order given a certain amount of quote tokens.
      * @param providerOrSigner - The ethers.js provider to interact with the blockchain.
      * @param orderbookAddress - The address of the order book contract.
-     * @param marketParams - The market parameters including price and size precision.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
      * @param quoteAmount - The amount of quote tokens to spend.
+     * @param blockTag - Optional block to simulate at. Defaults to the latest block. Gas is always estimated
+     *                   against the latest block.
      * @returns A promise that resolves to the amount of base tokens received.
      */
     static async estimateMarketBuy(
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
-        marketParams: MarketParams,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
         quoteAmount: number,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<{ output: number; estimatedGas: BigNumber }> {
-        const sizeInPrecision = ethers.utils.parseUnits(
-            quoteAmount.toFixed(log10BigNumber(marketParams.pricePrecision)),
-            log10BigNumber(marketParams.pricePrecision),
-        );
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
+        const sizeInPrecision = parseDecimal(quoteAmount, log10BigNumber(marketParams.pricePrecision));
 
         try {
             const { output, estimatedGas } = await this.returnMarketBuyEstimate(
                 providerOrSigner,
                 orderbookAddress,
                 sizeInPrecision,
+                blockTag,
             );
 
             return {
@@ -162,12 +173,14 @@ export abstract class CostEstimator {
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
         size: BigNumber,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<{ output: BigNumber; estimatedGas: BigNumber }> {
         const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
 
         const [estimate, estimatedGas] = await Promise.all([
             orderbook.callStatic.placeAndExecuteMarketBuy(size, 0, false, false, {
                 from: ethers.constants.AddressZero,
+                blockTag,
             }),
             orderbook.estimateGas.placeAndExecuteMarketBuy(size, 0, false, false, {
                 from: ethers.constants.AddressZero,
@@ -181,18 +194,21 @@ export abstract class CostEstimator {
      * @dev Estimates the amount of quote tokens required to buy a given amount of base tokens in a market buy order.
      * @param providerOrSigner - The ethers.js provider to interact with the blockchain.
      * @param orderbookAddress - The address of the order book contract.
-     * @param marketParams - The market parameters including price and size precision.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
      * @param baseSize - The size of the base tokens to buy.
+     * @param blockTag - Optional block to read the order book at when l2Book is not given. Defaults to the latest block.
      * @returns A promise that resolves to the amount of quote tokens required.
      */
     static async estimateRequiredQuoteForBuy(
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
-        marketParams: MarketParams,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
         baseTokenAmount: number,
         l2Book: any,
         contractVaultParams: any,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<number> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
         const takerFeeBps = marketParams.takerFeeBps.toNumber() / 10000;
         const grossBaseTokenAmount = baseTokenAmount / (1 - takerFeeBps);
 
@@ -202,6 +218,7 @@ export abstract class CostEstimator {
             marketParams,
             l2Book,
             contractVaultParams,
+            blockTag,
         );
 
         let remainingBase = grossBaseTokenAmount;
@@ -0,0 +1,260 @@
+// ============ External Imports ============
+import { BigNumber, ContractReceipt, ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import { CancelReceipt, FLIP, FlipOrderEvent, MarketParams, OrderReceipt, TransactionOptions } from '../types';
+import { extractErrorMessage, toPricePrecision, toSizePrecision } from '../utils';
+import { OrderCanceler } from './cancel';
+import { ReceiptDecoder } from './receipt';
+import { MarketParamsCache } from './marketParamsCache';
+
+// ============ Config Imports ============
+import orderbookAbi from '../../abi/OrderBook.json';
+import buildTransactionRequest, { sendTransactionRequest } from '../utils/txConfig';
+
+export abstract class FlipOrders {
+    /**
+     * @dev Places a flip order (buy or sell) on the order book. Once a flip order is completely filled,
+     *      the contract places an order of the opposite side at the flipped price.
+     * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
+     * @param order - The flip order object containing price, flippedPrice, size, isBuy and provisionOrRevert.
+     * @returns A promise that resolves to the receipt extended with the created flip order IDs and fill summary.
+     */
+    static async placeFlip(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddress: string,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
+        order: FLIP,
+    ): Promise<OrderReceipt> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
+        const signer = providerOrSigner instanceof ethers.Signer ? providerOrSigner : providerOrSigner.getSigner();
+        const { priceBn, flippedPriceBn, sizeBn } = parseFlipOrder(marketParams, order);
+
+        try {
+            const tx = order.isBuy
+                ? await FlipOrders.constructFlipBuyOrderTransaction(
+                      signer,
+                      orderbookAddress,
+                      priceBn,
+                      flippedPriceBn,
+                      sizeBn,
+                      order.provisionOrRevert,
+                      order.txOptions,
+                  )
+                : await FlipOrders.constructFlipSellOrderTransaction(
+                      signer,
+                      orderbookAddress,
+                      priceBn,
+                      flippedPriceBn,
+                      sizeBn,
+                      order.provisionOrRevert,
+                      order.txOptions,
+                  );
+
+            const transaction = await sendTransactionRequest(signer, tx, order.txOptions);
+            const receipt = await transaction.wait(1);
+
+            return ReceiptDecoder.toOrderReceipt(receipt, marketParams, await signer.getAddress(), orderbookAddress);
+        } catch (e: any) {
+            console.log({ e });
+            if (!e.error) {
+                throw e;
+            }
+            throw extractErrorMessage(e);
+        }
+    }
+
+    /**
+     * @dev Estimates the gas required to place a flip order.
+     * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
+     * @param order - The flip order object containing price, flippedPrice, size, isBuy and provisionOrRevert.
+     * @returns A promise that resolves to the estimated gas required for the transaction.
+     */
+    static async estimateGas(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddress: string,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
+        order: FLIP,
+    ): Promise<BigNumber> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
+        const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
+        const { priceBn, flippedPriceBn, sizeBn } = parseFlipOrder(marketParams, order);
+
+        try {
+            const gasEstimate = order.isBuy
+                ? await orderbook.estimateGas.addFlipBuyOrder(priceBn, flippedPriceBn, sizeBn, order.provisionOrRevert)
+                : await orderbook.estimateGas.addFlipSellOrder(
+                      priceBn,
+                      flippedPriceBn,
+                      sizeBn,
+                      order.provisionOrRevert,
+                  );
+            return gasEstimate;
+        } catch (e: any) {
+            if (!e.error) {
+                throw e;
+            }
+            throw extractErrorMessage(e);
+        }
+    }
+
+    /**
+     * @dev Constructs a transaction for a flip buy order.
+     * @param signer - The signer instance.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param price - The bid price of the order in price precision.
+     * @param flippedPrice - The ask price of the flipped order in price precision. Must be above price.
+     * @param size - The size of the order in size precision.
+     * @param provisionOrRevert - Whether the transaction should revert instead of crossing the book.
+     * @param txOptions - Transaction options.
+     * @returns A promise that resolves to the transaction request object.
+     */
+    static async constructFlipBuyOrderTransaction(
+        signer: ethers.Signer,
+        orderbookAddress: string,
+        price: BigNumber,
+        flippedPrice: BigNumber,
+        size: BigNumber,
+        provisionOrRevert: boolean,
+        txOptions?: TransactionOptions,
+    ): Promise<ethers.providers.TransactionRequest> {
+        const address = await signer.getAddress();
+
+        const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+        const data = orderbookInterface.encodeFunctionData('addFlipBuyOrder', [
+            price,
+            flippedPrice,
+            size,
+            provisionOrRevert,
+        ]);
+
+        return buildTransactionRequest({
+            to: orderbookAddress,
+            from: address,
+            data,
+            txOptions,
+            signer,
+        });
+    }
+
+    /**
+     * @dev Constructs a transaction for a flip sell order.
+     * @param signer - The signer instance.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param price - The ask price of the order in price precision.
+     * @param flippedPrice - The bid price of the flipped order in price precision. Must be below price.
+     * @param size - The size of the order in size precision.
+     * @param provisionOrRevert - Whether the transaction should revert instead of crossing the book.
+     * @param txOptions - Transaction options.
+     * @returns A promise that resolves to the transaction request object.
+     */
+    static async constructFlipSellOrderTransaction(
+        signer: ethers.Signer,
+        orderbookAddress: string,
+        price: BigNumber,
+        flippedPrice: BigNumber,
+        size: BigNumber,
+        provisionOrRevert: boolean,
+        txOptions?: TransactionOptions,
+    ): Promise<ethers.providers.TransactionRequest> {
+        const address = await signer.getAddress();
+
+        const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+        const data = orderbookInterface.encodeFunctionData('addFlipSellOrder', [
+            price,
+            flippedPrice,
+            size,
+            provisionOrRevert,
+        ]);
+
+        return buildTransactionRequest({
+            to: orderbookAddress,
+            from: address,
+            data,
+            txOptions,
+            signer,
+        });
+    }
+
+    /**
+     * @dev Cancels multiple flip orders by their IDs.
+     * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param orderIds - An array of flip order IDs to be cancelled.
+     * @param txOptions - Transaction options to be used for the transaction.
+     * @returns A promise that resolves to the receipt extended with the canceled order IDs.
+     */
+    static async cancelFlipOrders(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddress: string,
+        orderIds: BigNumber[],
+        txOptions?: TransactionOptions,
+    ): Promise<CancelReceipt> {
+        return OrderCanceler.cancelFlipOrders(providerOrSigner, orderbookAddress, orderIds, txOptions);
+    }
+
+    /**
+     * @dev Decodes the FlipOrderCreated events emitted in a transaction receipt.
+     * @param receipt - The transaction receipt returned by placeFlip.
+     * @returns The created flip orders in the order they were emitted.
+     */
+    static parseFlipOrderCreatedEvents(receipt: ContractReceipt): FlipOrderEvent[] {
+        const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+        const topic = orderbookInterface.getEventTopic('FlipOrderCreated');
+        const flipOrders: FlipOrderEvent[] = [];
+
+        for (const log of receipt.logs) {
+            if (log.topics[0] !== topic) {
+                continue;
+            }
+
+            const { args } = orderbookInterface.parseLog(log);
+            flipOrders.push({
+                orderId: BigNumber.from(args.orderId),
+                flippedId: BigNumber.from(args.flippedId),
+                ownerAddress: args.owner,
+                size: BigNumber.from(args.size),
+                price: BigNumber.from(args.price),
+                flippedPrice: BigNumber.from(args.flippedPrice),
+                isBuy: args.isBuy,
+            });
+        }
+
+        return flipOrders;
+    }
+
+    /**
+     * @dev Returns the IDs of the flip orders created in a transaction receipt.
+     * @param receipt - The transaction receipt returned by placeFlip.
+     * @returns The new flip order IDs.
+     */
+    static getFlipOrderIds(receipt: ContractReceipt): BigNumber[] {
+        return FlipOrders.parseFlipOrderCreatedEvents(receipt).map((flipOrder) => flipOrder.orderId);
+    }
+}
+
+// ======================== INTERNAL HELPER FUNCTIONS ========================
+
+function parseFlipOrder(
+    marketParams: MarketParams,
+    order: FLIP,
+): { priceBn: BigNumber; flippedPriceBn: BigNumber; sizeBn: BigNumber } {
+    const priceBn = toPricePrecision(order.price, marketParams, order.isBuy, order.priceRounding);
+    // The flipped order rests on the opposite side
+    const flippedPriceBn = toPricePrecision(order.flippedPrice, marketParams, !order.isBuy, order.priceRounding);
+    const sizeBn = toSizePrecision(order.size, marketParams, order.sizeRounding);
+
+    if (order.isBuy ? flippedPriceBn.lte(priceBn) : flippedPriceBn.gte(priceBn)) {
+        throw new Error(
+            order.isBuy
+                ? 'Flipped price of a flip buy order must be above its price'
+                : 'Flipped price of a flip sell order must be below its price',
+        );
+    }
+
+    return { priceBn, flippedPriceBn, sizeBn };
+}
@@ -2,13 +2,16 @@
 import { BigNumber, ContractReceipt, ethers } from 'ethers';
 
 // ============ Internal Imports ============
-import { LIMIT, MarketParams, TransactionOptions } from '../types';
-import { clipToDecimals, extractErrorMessage, log10BigNumber } from '../utils';
+import { LIMIT, MarketParams, OrderReceipt, TransactionOptions, OrderValidationContext } from '../types';
+import { extractErrorMessage, toPricePrecision, toSizePrecision } from '../utils';
 
 // ============ Config Imports ============
 import orderbookAbi from '../../abi/OrderBook.json';
-import buildTransactionRequest from '../utils/txConfig';
+import buildTransactionRequest, { applyGasLimitBuffer, sendTransactionRequest } from '../utils/txConfig';
 import { computeBalanceSlotForMarginAccount } from '../utils/storageSlots';
+import { ReceiptDecoder } from './receipt';
+import { MarketParamsCache } from './marketParamsCache';
+import { OrderValidator } from './validator';
 
 const PADDED_AMOUNT = ethers.constants.MaxUint256.toHexString();
 
@@ -17,45 +20,47 @@ export abstract class GTC {
      * @dev Places a limit order (buy or sell) on the order book.
      * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
      * @param orderbookAddress - The address of the order book contract.
-     * @param marketParams - The market parameters including price and size precision.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
      * @param order - The limit order object containing price, size, isBuy, and postOnly properties.
      * @param txOptions - The transaction options for the order.
-     * @returns A promise that resolves to a boolean indicating success or failure.
+     * @param validationContext - Optional book and margin balances for the post-only and balance checks. The order is
+     *                            always checked against the market params before any call is made.
+     * @returns A promise that resolves to the receipt extended with the created order IDs and fill summary.
      */
     static async placeLimit(
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
-        marketParams: MarketParams,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
         order: LIMIT,
-    ): Promise<ContractReceipt> {
+        validationContext?: OrderValidationContext,
+    ): Promise<OrderReceipt> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
+        OrderValidator.assertValid(OrderValidator.validateLimit(marketParams, order, validationContext));
         const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
         const signer = providerOrSigner instanceof ethers.Signer ? providerOrSigner : providerOrSigner.getSigner();
         const provider = signer.provider as ethers.providers.JsonRpcProvider;
 
-        const clippedPrice = clipToDecimals(order.price, log10BigNumber(marketParams.pricePrecision));
-        const clippedSize = clipToDecimals(order.size, log10BigNumber(marketParams.sizePrecision));
+        const priceBn = toPricePrecision(order.price, marketParams, order.isBuy, order.priceRounding);
+        const sizeBn = toSizePrecision(order.size, marketParams, order.sizeRounding);
 
-        const priceBn: BigNumber = ethers.utils.parseUnits(clippedPrice, log10BigNumber(marketParams.pricePrecision));
-        const sizeBn: BigNumber = ethers.utils.parseUnits(clippedSize, log10BigNumber(marketParams.sizePrecision));
+        const receipt = order.isBuy
+            ? await GTC.addBuyOrder(signer, orderbook, priceBn, sizeBn, order.postOnly, provider, order.txOptions)
+            : await GTC.addSellOrder(signer, orderbook, priceBn, sizeBn, order.postOnly, provider, order.txOptions);
 
-        return order.isBuy
-            ? GTC.addBuyOrder(signer, orderbook, priceBn, sizeBn, order.postOnly, provider, order.txOptions)
-            : GTC.addSellOrder(signer, orderbook, priceBn, sizeBn, order.postOnly, provider, order.txOptions);
+        return ReceiptDecoder.toOrderReceipt(receipt, marketParams, await signer.getAddress(), orderbookAddress);
     }
 
     static async estimateGas(
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
-        marketParams: MarketParams,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
         order: LIMIT,
     ): Promise<BigNumber> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
         const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
 
-        const clippedPrice = clipToDecimals(order.price, log10BigNumber(marketParams.pricePrecision));
-        const clippedSize = clipToDecimals(order.size, log10BigNumber(marketParams.sizePrecision));
-
-        const priceBn: BigNumber = ethers.utils.parseUnits(clippedPrice, log10BigNumber(marketParams.pricePrecision));
-        const sizeBn: BigNumber = ethers.utils.parseUnits(clippedSize, log10BigNumber(marketParams.sizePrecision));
+        const priceBn = toPricePrecision(order.price, marketParams, order.isBuy, order.priceRounding);
+        const sizeBn = toSizePrecision(order.size, marketParams, order.sizeRounding);
 
         return order.isBuy
             ? estimateGasBuy(orderbook, priceBn, sizeBn, order.postOnly)
@@ -120,8 +125,7 @@ export abstract class GTC {
                 'latest',
                 stateOverrides,
             ]);
-            const estimatedGas = BigNumber.from(estimatedGasHex);
-            const bufferedGas = estimatedGas.mul(120).div(100);
+            const bufferedGas = applyGasLimitBuffer(estimatedGasHex, txOptions);
             mergedTxOptions =
                 txOptions && txOptions.gasLimit !== undefined ? txOptions : { ...txOptions, gasLimit: bufferedGas };
         } else if ((!marginAccountAddress || !tokenAddress || !amount) && txOptions?.gasLimit !== undefined) {
@@ -138,8 +142,7 @@ export abstract class GTC {
                 },
                 'latest',
             ]);
-            const estimatedGas = BigNumber.from(estimatedGasHex);
-            const bufferedGas = estimatedGas.mul(120).div(100);
+            const bufferedGas = applyGasLimitBuffer(estimatedGasHex, txOptions);
             mergedTxOptions =
                 txOptions && txOptions.gasLimit !== undefined ? txOptions : { ...txOptions, gasLimit: bufferedGas };
         }
@@ -211,8 +214,7 @@ export abstract class GTC {
                 'latest',
                 stateOverrides,
             ]);
-            const estimatedGas = BigNumber.from(estimatedGasHex);
-            const bufferedGas = estimatedGas.mul(120).div(100);
+            const bufferedGas = applyGasLimitBuffer(estimatedGasHex, txOptions);
             mergedTxOptions =
                 txOptions && txOptions.gasLimit !== undefined ? txOptions : { ...txOptions, gasLimit: bufferedGas };
         } else if ((!marginAccountAddress || !tokenAddress || !amount) && txOptions?.gasLimit !== undefined) {
@@ -229,8 +231,7 @@ export abstract class GTC {
                 },
                 'latest',
             ]);
-            const estimatedGas = BigNumber.from(estimatedGasHex);
-            const bufferedGas = estimatedGas.mul(120).div(100);
+            const bufferedGas = applyGasLimitBuffer(estimatedGasHex, txOptions);
             mergedTxOptions =
                 txOptions && txOptions.gasLimit !== undefined ? txOptions : { ...txOptions, gasLimit: bufferedGas };
         }
@@ -267,7 +268,7 @@ export abstract class GTC {
                 txOptions,
             );
 
-            const transaction = await signer.sendTransaction(tx);
+            const transaction = await sendTransactionRequest(signer, tx, txOptions);
             const receipt = await transaction.wait(1);
 
             return receipt;
@@ -303,7 +304,7 @@ export abstract class GTC {
                 txOptions,
             );
 
-            const transaction = await signer.sendTransaction(tx);
+            const transaction = await sendTransactionRequest(signer, tx, txOptions);
             const receipt = await transaction.wait(1);
 
             return receipt;
@@ -1,8 +1,21 @@
+export * from './amend';
 export * from './batch';
 export * from './cancel';
 export * from './gtc';
+export * from './flip';
 export * from './ioc';
 export * from './orderBook';
+export * from './localOrderBook';
+export * from './l3OrderBook';
+export * from './openOrders';
+export * from './portfolio';
+export * from './quoteEngine';
+export * from './marketHub';
+export * from './market';
 export * from './marketParams';
+export * from './marketParamsCache';
 export * from './orders';
 export * from './estimator';
+export * from './simulator';
+export * from './validator';
+export * from './receipt';
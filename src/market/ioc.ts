@@ -2,33 +2,66 @@
 import { ethers, BigNumber, ContractReceipt } from 'ethers';
 
 // ============ Internal Imports ============
-import { extractErrorMessage, log10BigNumber, approveToken, estimateApproveGas } from '../utils';
-import { MarketParams, MARKET, TransactionOptions } from '../types';
+import {
+    extractErrorMessage,
+    log10BigNumber,
+    approveToken,
+    estimateApproveGas,
+    parseDecimal,
+    getReadProvider,
+} from '../utils';
+import {
+    MarketParams,
+    MARKET,
+    MarginShortfall,
+    SIZED_MARKET,
+    PRICE_LIMITED_MARKET,
+    PriceLimitedOrderReceipt,
+    OrderBookData,
+    OrderReceipt,
+    TransactionOptions,
+    OrderValidationContext,
+} from '../types';
+import { MarginBalance, MarginDeposit } from '../margin';
+import { ReceiptDecoder } from './receipt';
+import { MarketParamsCache } from './marketParamsCache';
+import { OrderValidator } from './validator';
+import { CostEstimator } from './estimator';
+import { MarketSimulator } from './simulator';
+import { OrderBook } from './orderBook';
 
 // ============ Config Imports ============
 import orderbookAbi from '../../abi/OrderBook.json';
 import erc20Abi from '../../abi/IERC20.json';
-import buildTransactionRequest from '../utils/txConfig';
+import buildTransactionRequest, { applyGasLimitBuffer, sendTransactionRequest } from '../utils/txConfig';
+import { computeBalanceSlotForMarginAccount } from '../utils/storageSlots';
+
+const PADDED_AMOUNT = ethers.constants.MaxUint256.toHexString();
 
 export abstract class IOC {
     /**
      * @dev Places a market order (buy or sell) on the order book.
      * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
      * @param orderbookAddress - The address of the order book contract.
-     * @param marketParams - The market parameters including price and size precision.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
      * @param order - The market order object containing isBuy, size, and fillOrKill properties.
-     * @returns A promise that resolves to the credited size.
+     * @param validationContext - Optional book and margin balances for the post-only and balance checks. The order is
+     *                            always checked against the market params before any call is made.
+     * @returns A promise that resolves to the receipt extended with the filled size, average price and fees paid.
      */
     static async placeMarket(
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
-        marketParams: MarketParams,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
         order: MARKET,
-    ): Promise<ContractReceipt> {
+        validationContext?: OrderValidationContext,
+    ): Promise<OrderReceipt> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
+        OrderValidator.assertValid(OrderValidator.validateMarket(marketParams, order, validationContext));
         const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
 
-        return order.isBuy
-            ? placeAndExecuteMarketBuy(
+        const receipt = order.isBuy
+            ? await placeAndExecuteMarketBuy(
                   providerOrSigner,
                   orderbook,
                   orderbookAddress,
@@ -40,7 +73,7 @@ export abstract class IOC {
                   order.fillOrKill,
                   order.txOptions,
               )
-            : placeAndExecuteMarketSell(
+            : await placeAndExecuteMarketSell(
                   providerOrSigner,
                   orderbook,
                   orderbookAddress,
@@ -52,15 +85,23 @@ export abstract class IOC {
                   order.fillOrKill,
                   order.txOptions,
               );
+
+        return ReceiptDecoder.toOrderReceipt(
+            receipt,
+            marketParams,
+            await orderbook.signer.getAddress(),
+            orderbookAddress,
+        );
     }
 
     static async estimateGas(
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
-        marketParams: MarketParams,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
         order: MARKET,
         slippageTolerance: number,
     ): Promise<BigNumber> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
         const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
 
         const size = (Number(order.size) * (100 - slippageTolerance)) / 100;
@@ -69,7 +110,7 @@ export abstract class IOC {
             return estimateApproveGas(
                 new ethers.Contract(marketParams.quoteAssetAddress, erc20Abi.abi, providerOrSigner),
                 orderbookAddress,
-                ethers.utils.parseUnits(size.toString(), marketParams.quoteAssetDecimals),
+                parseDecimal(size.toString(), marketParams.quoteAssetDecimals.toNumber()),
             );
         }
 
@@ -92,6 +133,418 @@ export abstract class IOC {
               );
     }
 
+    /**
+     * @dev Places a market order that fixes the amount spent or received, see MarketOrderMode.
+     * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
+     * @param order - The market order with its mode, amount and slippage tolerance.
+     * @param validationContext - Optional book and margin balances for the balance check.
+     * @returns A promise that resolves to the receipt extended with the filled size, average price and fees paid.
+     */
+    static async placeMarketByMode(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddress: string,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
+        order: SIZED_MARKET,
+        validationContext?: OrderValidationContext,
+    ): Promise<OrderReceipt> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
+        const marketOrder = await this.resolveMarketOrder(providerOrSigner, orderbookAddress, marketParams, order);
+
+        return this.placeMarket(providerOrSigner, orderbookAddress, marketParams, marketOrder, validationContext);
+    }
+
+    /**
+     * @dev Sizes a market order from its mode against the current book. Fixed-input modes take minAmountOut from
+     *      the simulated fill, while fixed-output modes size the input with the required-amount estimators, add the
+     *      slippage to it and keep the requested amount as minAmountOut.
+     * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
+     * @param order - The market order with its mode, amount and slippage tolerance.
+     * @param blockTag - Optional block to read the book at. Defaults to the latest block.
+     * @returns A promise that resolves to the equivalent order for placeMarket.
+     */
+    static async resolveMarketOrder(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddress: string,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
+        order: SIZED_MARKET,
+        blockTag?: ethers.providers.BlockTag,
+    ): Promise<MARKET> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
+        const provider = getReadProvider(providerOrSigner);
+        const slippageBps = Math.round(order.slippageTolerance * 100);
+        const priceDecimals = log10BigNumber(marketParams.pricePrecision);
+        const sizeDecimals = log10BigNumber(marketParams.sizePrecision);
+        const baseDecimals = marketParams.baseAssetDecimals.toNumber();
+        const quoteDecimals = marketParams.quoteAssetDecimals.toNumber();
+
+        let isBuy: boolean;
+        let size: string;
+        let minAmountOut: BigNumber;
+
+        try {
+            switch (order.mode) {
+                case 'spendQuote': {
+                    const { output } = await CostEstimator.returnMarketBuyEstimate(
+                        provider,
+                        orderbookAddress,
+                        parseDecimal(order.amount, priceDecimals),
+                        blockTag,
+                    );
+                    isBuy = true;
+                    size = order.amount;
+                    minAmountOut = applySlippage(output, -slippageBps);
+                    break;
+                }
+                case 'receiveBase': {
+                    const requiredQuote = await CostEstimator.estimateRequiredQuoteForBuy(
+                        provider,
+                        orderbookAddress,
+                        marketParams,
+                        Number(order.amount),
+                        undefined,
+                        undefined,
+                        blockTag,
+                    );
+                    isBuy = true;
+                    size = ethers.utils.formatUnits(
+                        applySlippage(parseDecimal(requiredQuote, priceDecimals, 'ceil'), slippageBps),
+                        priceDecimals,
+                    );
+                    minAmountOut = parseDecimal(order.amount, baseDecimals);
+                    break;
+                }
+                case 'sellBase': {
+                    const { output } = await CostEstimator.returnMarketSellEstimate(
+                        provider,
+                        orderbookAddress,
+                        parseDecimal(order.amount, sizeDecimals),
+                        blockTag,
+                    );
+                    isBuy = false;
+                    size = order.amount;
+                    minAmountOut = applySlippage(output, -slippageBps);
+                    break;
+                }
+                case 'receiveQuote': {
+                    const requiredBase = await CostEstimator.estimateRequiredBaseForSell(
+                        provider,
+                        orderbookAddress,
+                        marketParams,
+                        Number(order.amount),
+                        undefined,
+                        undefined,
+                        blockTag,
+                    );
+                    isBuy = false;
+                    size = ethers.utils.formatUnits(
+                        applySlippage(parseDecimal(requiredBase, sizeDecimals, 'ceil'), slippageBps),
+                        sizeDecimals,
+                    );
+                    minAmountOut = parseDecimal(order.amount, quoteDecimals);
+                    break;
+                }
+                default:
+                    throw new Error(`Unknown market order mode: ${order.mode}`);
+            }
+        } catch (e: any) {
+            if (!e.error) {
+                throw e;
+            }
+            throw extractErrorMessage(e);
+        }
+
+        return {
+            approveTokens: order.approveTokens,
+            isBuy,
+            size,
+            minAmountOut: ethers.utils.formatUnits(minAmountOut, isBuy ? baseDecimals : quoteDecimals),
+            isMargin: order.isMargin,
+            fillOrKill: order.fillOrKill,
+            txOptions: order.txOptions,
+        };
+    }
+
+    /**
+     * @dev Places a market order that fills no worse than a limit price. The order is cut to what the book
+     *      holds up to that price, and the rest is reported as unfilled instead of filling further out.
+     * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
+     * @param order - The market order with its limit price and slippage tolerance.
+     * @param orderBook - Optional book to size the order against, e.g. from a LocalOrderBook. Defaults to a fresh read.
+     * @returns A promise that resolves to the receipt, if anything was fillable, and the submitted and unfilled sizes.
+     */
+    static async placeMarketWithPriceLimit(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddress: string,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
+        order: PRICE_LIMITED_MARKET,
+        orderBook?: OrderBookData,
+    ): Promise<PriceLimitedOrderReceipt> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
+        const book =
+            orderBook ??
+            (await OrderBook.getL2OrderBook(getReadProvider(providerOrSigner), orderbookAddress, marketParams));
+
+        const { order: marketOrder, unfilledSize } = this.resolvePriceLimitedOrder(book, marketParams, order);
+        if (parseDecimal(marketOrder.size, 18).isZero()) {
+            return { submittedSize: marketOrder.size, unfilledSize };
+        }
+
+        const receipt = await this.placeMarket(providerOrSigner, orderbookAddress, marketParams, marketOrder);
+        return { receipt, submittedSize: marketOrder.size, unfilledSize };
+    }
+
+    /**
+     * @dev Cuts a market order to the size fillable up to its limit price, and takes minAmountOut from simulating
+     *      that size less the slippage, so the trade reverts if the book moves against it before it lands.
+     * @param orderBook - The order book returned by getL2OrderBook.
+     * @param marketParams - The market parameters including price and size precision.
+     * @param order - The market order with its limit price and slippage tolerance.
+     * @returns The order for placeMarket and the size left unfilled, quote for buys and base for sells.
+     */
+    static resolvePriceLimitedOrder(
+        orderBook: OrderBookData,
+        marketParams: MarketParams,
+        order: PRICE_LIMITED_MARKET,
+    ): { order: MARKET; unfilledSize: string } {
+        const sizeDecimals = log10BigNumber(marketParams.sizePrecision);
+        const inputDecimals = order.isBuy ? log10BigNumber(marketParams.pricePrecision) : sizeDecimals;
+        const outputDecimals = order.isBuy ? sizeDecimals : marketParams.quoteAssetDecimals.toNumber();
+        const simulate = (size: string, limitPrice?: string) =>
+            order.isBuy
+                ? MarketSimulator.simulateMarketBuy(orderBook, marketParams, Number(size), limitPrice)
+                : MarketSimulator.simulateMarketSell(orderBook, marketParams, Number(size), limitPrice);
+
+        const requested = parseDecimal(order.size, inputDecimals);
+        const fillable = parseDecimal(simulate(order.size, order.limitPrice).input, inputDecimals);
+        const submitted = fillable.lt(requested) ? fillable : requested;
+        const size = ethers.utils.formatUnits(submitted, inputDecimals);
+        // The simulated output is in sizePrecision for buys and 18 decimals for sells, floored to the output decimals
+        const output = submitted.isZero()
+            ? BigNumber.from(0)
+            : parseDecimal(
+                  ethers.utils.formatUnits(simulate(size).preciseOutput, order.isBuy ? sizeDecimals : 18),
+                  outputDecimals,
+              );
+        const minAmountOut = applySlippage(output, -Math.round(order.slippageTolerance * 100));
+
+        return {
+            order: {
+                approveTokens: order.approveTokens,
+                isBuy: order.isBuy,
+                size,
+                minAmountOut: ethers.utils.formatUnits(minAmountOut, outputDecimals),
+                isMargin: order.isMargin,
+                fillOrKill: order.fillOrKill,
+                txOptions: order.txOptions,
+            },
+            unfilledSize: ethers.utils.formatUnits(requested.sub(submitted), inputDecimals),
+        };
+    }
+
+    /**
+     * @dev Places a market order paid from the margin account, first depositing whatever the account lacks.
+     *      The deposit and the trade are sent back to back with consecutive nonces, so the trade's gas is
+     *      estimated with the margin balance overridden.
+     * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param marketParamsOrCache - The market parameters including price and size precision, or a cache to read them from.
+     * @param marginAccountAddress - The address of the margin account contract.
+     * @param order - The market order. isMargin is ignored, and approveTokens approves the deposit.
+     * @returns A promise that resolves to the receipt of the trade extended with the filled size, average price and fees paid.
+     */
+    static async placeMarketFromMargin(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddress: string,
+        marketParamsOrCache: MarketParams | MarketParamsCache,
+        marginAccountAddress: string,
+        order: MARKET,
+    ): Promise<OrderReceipt> {
+        const marketParams = await MarketParamsCache.resolve(marketParamsOrCache, orderbookAddress);
+        OrderValidator.assertValid(OrderValidator.validateMarket(marketParams, { ...order, isMargin: true }));
+        const signer = providerOrSigner instanceof ethers.Signer ? providerOrSigner : providerOrSigner.getSigner();
+
+        try {
+            const shortfall = await IOC.getMarginShortfall(providerOrSigner, marginAccountAddress, marketParams, order);
+
+            if (
+                order.approveTokens &&
+                shortfall.shortfall.gt(0) &&
+                shortfall.tokenAddress !== ethers.constants.AddressZero
+            ) {
+                const tokenContract = new ethers.Contract(shortfall.tokenAddress, erc20Abi.abi, providerOrSigner);
+                await approveToken(tokenContract, marginAccountAddress, shortfall.shortfall, providerOrSigner);
+            }
+
+            const { deposit, trade } = await IOC.constructMarginMarketTransactions(
+                signer,
+                orderbookAddress,
+                marketParams,
+                marginAccountAddress,
+                order,
+                shortfall,
+            );
+
+            const txSender = order.txOptions?.txSender;
+            let depositTransaction: ethers.providers.TransactionResponse | undefined;
+            let tradeTransaction: ethers.providers.TransactionResponse;
+            if (txSender && deposit) {
+                [depositTransaction, tradeTransaction] = await txSender.sendTransactions([deposit, trade]);
+            } else {
+                depositTransaction = deposit ? await signer.sendTransaction(deposit) : undefined;
+                tradeTransaction = await sendTransactionRequest(signer, trade, order.txOptions);
+            }
+            if (depositTransaction) {
+                await depositTransaction.wait(1);
+            }
+            const receipt = await tradeTransaction.wait(1);
+
+            return ReceiptDecoder.toOrderReceipt(receipt, marketParams, await signer.getAddress(), orderbookAddress);
+        } catch (e: any) {
+            if (!e.error) {
+                throw e;
+            }
+            throw extractErrorMessage(e);
+        }
+    }
+
+    /**
+     * @dev Compares what a market order spends with the trader's margin balance.
+     * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
+     * @param marginAccountAddress - The address of the margin account contract.
+     * @param marketParams - The market parameters including the asset addresses and decimals.
+     * @param order - The market order. Its size is in quote for buys and base for sells.
+     * @param userAddress - The trader. Defaults to the signer's address.
+     * @returns A promise that resolves to the required amount, the balance and the shortfall.
+     */
+    static async getMarginShortfall(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        marginAccountAddress: string,
+        marketParams: MarketParams,
+        order: MARKET,
+        userAddress?: string,
+    ): Promise<MarginShortfall> {
+        const signer = providerOrSigner instanceof ethers.Signer ? providerOrSigner : providerOrSigner.getSigner();
+        const tokenAddress = order.isBuy ? marketParams.quoteAssetAddress : marketParams.baseAssetAddress;
+        const decimals = order.isBuy ? marketParams.quoteAssetDecimals : marketParams.baseAssetDecimals;
+
+        const provider = getReadProvider(providerOrSigner);
+        const required = parseDecimal(order.size, decimals.toNumber());
+        const balance = await MarginBalance.getBalance(
+            provider,
+            marginAccountAddress,
+            userAddress ?? (await signer.getAddress()),
+            tokenAddress,
+        );
+
+        return {
+            tokenAddress,
+            required,
+            balance,
+            shortfall: required.gt(balance) ? required.sub(balance) : BigNumber.from(0),
+        };
+    }
+
+    /**
+     * @dev Constructs the deposit of a shortfall and the margin market order that spends it.
+     *      The trade takes the nonce after the deposit, and its gas is estimated as if the deposit had landed.
+     * @param signer - The signer instance.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param marketParams - The market parameters including price and size precision.
+     * @param marginAccountAddress - The address of the margin account contract.
+     * @param order - The market order. isMargin is ignored.
+     * @param shortfall - The shortfall returned by getMarginShortfall.
+     * @returns A promise that resolves to the deposit, if anything is missing, and the trade.
+     */
+    static async constructMarginMarketTransactions(
+        signer: ethers.Signer,
+        orderbookAddress: string,
+        marketParams: MarketParams,
+        marginAccountAddress: string,
+        order: MARKET,
+        shortfall: MarginShortfall,
+    ): Promise<{ deposit?: ethers.providers.TransactionRequest; trade: ethers.providers.TransactionRequest }> {
+        const address = await signer.getAddress();
+        const provider = signer.provider as ethers.providers.JsonRpcProvider;
+        // A txSender allocates consecutive nonces itself when it sends both transactions together
+        const nonce =
+            order.txOptions?.nonce ??
+            (order.txOptions?.txSender ? undefined : await signer.getTransactionCount('pending'));
+
+        const deposit = shortfall.shortfall.gt(0)
+            ? await MarginDeposit.constructDepositTransaction(
+                  signer,
+                  marginAccountAddress,
+                  address,
+                  shortfall.tokenAddress,
+                  shortfall.shortfall,
+                  { ...order.txOptions, gasLimit: undefined, nonce },
+              )
+            : undefined;
+
+        const outputDecimals = order.isBuy ? marketParams.baseAssetDecimals : marketParams.quoteAssetDecimals;
+        const minAmountOut = parseDecimal(order.minAmountOut, outputDecimals.toNumber()).toString();
+
+        let gasLimit = order.txOptions?.gasLimit;
+        if (gasLimit === undefined) {
+            const data = new ethers.utils.Interface(orderbookAbi.abi).encodeFunctionData(
+                order.isBuy ? 'placeAndExecuteMarketBuy' : 'placeAndExecuteMarketSell',
+                [
+                    parseDecimal(
+                        order.size,
+                        log10BigNumber(order.isBuy ? marketParams.pricePrecision : marketParams.sizePrecision),
+                    ),
+                    minAmountOut,
+                    true,
+                    order.fillOrKill,
+                ],
+            );
+
+            // The margin balance is overridden because the deposit has not landed yet
+            const balanceSlot = computeBalanceSlotForMarginAccount(address, shortfall.tokenAddress);
+            const estimatedGasHex = await provider.send('eth_estimateGas', [
+                { from: address, to: orderbookAddress, data },
+                'latest',
+                { [marginAccountAddress]: { stateDiff: { [balanceSlot]: PADDED_AMOUNT } } },
+            ]);
+            gasLimit = applyGasLimitBuffer(estimatedGasHex, order.txOptions);
+        }
+
+        const tradeTxOptions = {
+            ...order.txOptions,
+            gasLimit,
+            nonce: deposit && nonce !== undefined ? nonce + 1 : nonce,
+        };
+        const trade = order.isBuy
+            ? await IOC.constructMarketBuyTransaction(
+                  signer,
+                  orderbookAddress,
+                  marketParams,
+                  order.size,
+                  minAmountOut,
+                  true,
+                  order.fillOrKill,
+                  tradeTxOptions,
+              )
+            : await IOC.constructMarketSellTransaction(
+                  signer,
+                  orderbookAddress,
+                  marketParams,
+                  order.size,
+                  minAmountOut,
+                  true,
+                  order.fillOrKill,
+                  tradeTxOptions,
+              );
+
+        return { deposit, trade };
+    }
+
     /**
      * @dev Constructs a market buy transaction.
      * @param signer - The signer instance.
@@ -117,13 +570,13 @@ export abstract class IOC {
         const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
 
         const data = orderbookInterface.encodeFunctionData('placeAndExecuteMarketBuy', [
-            ethers.utils.parseUnits(quoteSize, log10BigNumber(marketParams.pricePrecision)),
+            parseDecimal(quoteSize, log10BigNumber(marketParams.pricePrecision)),
             minAmountOut,
             isMargin,
             isFillOrKill,
         ]);
 
-        const parsedQuoteSize = ethers.utils.parseUnits(quoteSize, marketParams.quoteAssetDecimals);
+        const parsedQuoteSize = parseDecimal(quoteSize, marketParams.quoteAssetDecimals.toNumber());
 
         const value =
             !isMargin && marketParams.quoteAssetAddress === ethers.constants.AddressZero
@@ -161,13 +614,13 @@ export abstract class IOC {
         const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
 
         const data = orderbookInterface.encodeFunctionData('placeAndExecuteMarketSell', [
-            ethers.utils.parseUnits(size, log10BigNumber(marketParams.sizePrecision)),
+            parseDecimal(size, log10BigNumber(marketParams.sizePrecision)),
             minAmountOut,
             isMargin,
             isFillOrKill,
         ]);
 
-        const parsedSize = ethers.utils.parseUnits(size, marketParams.baseAssetDecimals);
+        const parsedSize = parseDecimal(size, marketParams.baseAssetDecimals.toNumber());
 
         const value =
             !isMargin && marketParams.baseAssetAddress === ethers.constants.AddressZero
@@ -213,9 +666,9 @@ async function placeAndExecuteMarketBuy(
     isFillOrKill: boolean,
     txOptions?: TransactionOptions,
 ): Promise<ContractReceipt> {
-    const parsedQuoteSize = ethers.utils.parseUnits(quoteSize, marketParams.quoteAssetDecimals);
+    const parsedQuoteSize = parseDecimal(quoteSize, marketParams.quoteAssetDecimals.toNumber());
 
-    const parsedMinAmountOut = ethers.utils.parseUnits(minAmountOut, marketParams.baseAssetDecimals);
+    const parsedMinAmountOut = parseDecimal(minAmountOut, marketParams.baseAssetDecimals.toNumber());
 
     if (approveTokens && marketParams.quoteAssetAddress !== ethers.constants.AddressZero && !isMargin) {
         const tokenContract = new ethers.Contract(marketParams.quoteAssetAddress, erc20Abi.abi, providerOrSigner);
@@ -233,7 +686,7 @@ async function placeAndExecuteMarketBuy(
             isFillOrKill,
             txOptions,
         );
-        const transaction = await orderbook.signer.sendTransaction(tx);
+        const transaction = await sendTransactionRequest(orderbook.signer, tx, txOptions);
         const receipt = await transaction.wait(1);
 
         return receipt;
@@ -256,7 +709,7 @@ async function estimateGasBuy(
 ): Promise<BigNumber> {
     try {
         const gasEstimate = await orderbook.estimateGas.placeAndExecuteMarketBuy(
-            ethers.utils.parseUnits(quoteSize, log10BigNumber(marketParams.pricePrecision)),
+            parseDecimal(quoteSize, log10BigNumber(marketParams.pricePrecision)),
             minAmountOut,
             isMargin,
             isFillOrKill,
@@ -296,9 +749,9 @@ async function placeAndExecuteMarketSell(
     isFillOrKill: boolean,
     txOptions?: TransactionOptions,
 ): Promise<ContractReceipt> {
-    const parsedSize = ethers.utils.parseUnits(size, marketParams.baseAssetDecimals);
+    const parsedSize = parseDecimal(size, marketParams.baseAssetDecimals.toNumber());
 
-    const parsedMinAmountOut = ethers.utils.parseUnits(minAmountOut, marketParams.quoteAssetDecimals);
+    const parsedMinAmountOut = parseDecimal(minAmountOut, marketParams.quoteAssetDecimals.toNumber());
 
     if (approveTokens && marketParams.baseAssetAddress !== ethers.constants.AddressZero && !isMargin) {
         const tokenContract = new ethers.Contract(marketParams.baseAssetAddress, erc20Abi.abi, providerOrSigner);
@@ -317,7 +770,7 @@ async function placeAndExecuteMarketSell(
             txOptions,
         );
 
-        const transaction = await orderbook.signer.sendTransaction(tx);
+        const transaction = await sendTransactionRequest(orderbook.signer, tx, txOptions);
         const receipt = await transaction.wait();
 
         return receipt;
@@ -340,7 +793,7 @@ async function estimateGasSell(
 ): Promise<BigNumber> {
     try {
         const gasEstimate = await orderbook.estimateGas.placeAndExecuteMarketSell(
-            ethers.utils.parseUnits(size, log10BigNumber(marketParams.sizePrecision)),
+            parseDecimal(size, log10BigNumber(marketParams.sizePrecision)),
             minAmountOut,
             isMargin,
             isFillOrKill,
@@ -354,3 +807,14 @@ async function estimateGasSell(
         throw extractErrorMessage(e);
     }
 }
+
+/**
+ * @dev Scales an amount by a slippage in basis points, rounding away from the unscaled amount.
+ * @param amount - The amount.
+ * @param slippageBps - Positive to scale up, negative to scale down.
+ * @returns The scaled amount.
+ */
+function applySlippage(amount: BigNumber, slippageBps: number): BigNumber {
+    const scaled = amount.mul(10000 + slippageBps);
+    return slippageBps > 0 ? scaled.add(9999).div(10000) : scaled.div(10000);
+}
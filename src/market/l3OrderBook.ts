@@ -0,0 +1,129 @@
+// ============ External Imports ============
+import { BigNumber, ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import { L3Order, L3OrderBookData, L3PriceLevel, MarketParams, OrderBookData, PriceLevel } from '../types';
+import { log10BigNumber } from '../utils';
+import { OrderBook } from './orderBook';
+
+// ============ Config Imports ============
+import orderbookAbi from '../../abi/OrderBook.json';
+
+export abstract class L3OrderBook {
+    /**
+     * @dev Reconstructs every resting order by walking the linked list of orders at each price point.
+     *      All reads are made at the block of the L2 snapshot so the result is consistent.
+     * @param providerOrSigner - The ethers.js provider to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param marketParams - The market parameters including price and size precision.
+     * @param l2Book - Optional L2 snapshot from getL2OrderBook whose price levels are walked. A snapshot from
+     *                 getFormattedL2OrderBook is read again unformatted at its block.
+     * @param blockTag - Optional block to read at when l2Book is not given. Defaults to the latest block.
+     * @returns A promise that resolves to the orders at each price level, in queue order.
+     */
+    static async getL3OrderBook(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddress: string,
+        marketParams: MarketParams,
+        l2Book?: OrderBookData,
+        blockTag?: ethers.providers.BlockTag,
+    ): Promise<L3OrderBookData> {
+        const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
+
+        // Tick-rounded levels miss the price points they were rounded from, so those are read again exactly
+        const snapshot =
+            l2Book && !l2Book.precise.isFormatted
+                ? l2Book
+                : await OrderBook.getL2OrderBook(
+                      providerOrSigner,
+                      orderbookAddress,
+                      marketParams,
+                      undefined,
+                      undefined,
+                      l2Book?.blockNumber ?? blockTag,
+                  );
+        const { bids, asks } = snapshot.precise.manualOrders;
+
+        const [bidLevels, askLevels] = await Promise.all([
+            Promise.all(bids.map((level) => getPriceLevel(orderbook, marketParams, level, true, snapshot.blockNumber))),
+            Promise.all(
+                asks.map((level) => getPriceLevel(orderbook, marketParams, level, false, snapshot.blockNumber)),
+            ),
+        ]);
+
+        return {
+            bids: bidLevels.filter((level) => level.orders.length > 0).sort((a, b) => b.price - a.price),
+            asks: askLevels.filter((level) => level.orders.length > 0).sort((a, b) => a.price - b.price),
+            blockNumber: snapshot.blockNumber,
+        };
+    }
+
+    /**
+     * @dev Returns the orders of an account, e.g. to inspect its queue priority at each price.
+     * @param l3Book - The order book returned by getL3OrderBook.
+     * @param ownerAddress - The address of the order owner.
+     * @returns The owner's orders, bids first, each side best price first.
+     */
+    static getOrdersByOwner(l3Book: L3OrderBookData, ownerAddress: string): L3Order[] {
+        const owner = ownerAddress.toLowerCase();
+
+        return [...l3Book.bids, ...l3Book.asks].flatMap((level) =>
+            level.orders.filter((order) => order.ownerAddress.toLowerCase() === owner),
+        );
+    }
+}
+
+/**
+ * @dev Reads the queue at a single price point, from its head to its tail.
+ * @param level - The L2 level, with the price in 18 decimals.
+ */
+async function getPriceLevel(
+    orderbook: ethers.Contract,
+    marketParams: MarketParams,
+    level: PriceLevel,
+    isBuy: boolean,
+    blockNumber: number,
+): Promise<L3PriceLevel> {
+    const overrides = { from: ethers.constants.AddressZero, blockTag: blockNumber };
+    const pricePrecision = log10BigNumber(marketParams.pricePrecision);
+    const sizePrecision = log10BigNumber(marketParams.sizePrecision);
+
+    // Price points are keyed by the price in pricePrecision units
+    const contractPrice = level.price.mul(marketParams.pricePrecision).div(ethers.constants.WeiPerEther);
+    const pricePoint = isBuy
+        ? await orderbook.s_buyPricePoints(contractPrice, overrides)
+        : await orderbook.s_sellPricePoints(contractPrice, overrides);
+
+    const orders: L3Order[] = [];
+    const visited = new Set<string>();
+    let sizeAhead = BigNumber.from(0);
+    let orderId = BigNumber.from(pricePoint.head);
+
+    while (!orderId.isZero() && !visited.has(orderId.toString())) {
+        visited.add(orderId.toString());
+
+        const order = await orderbook.s_orders(orderId, overrides);
+        const size = BigNumber.from(order.size);
+
+        orders.push({
+            orderId,
+            ownerAddress: order.ownerAddress,
+            price: parseFloat(ethers.utils.formatUnits(order.price, pricePrecision)),
+            size: parseFloat(ethers.utils.formatUnits(size, sizePrecision)),
+            isBuy: order.isBuy,
+            flippedId: BigNumber.from(order.flippedId),
+            flippedPrice: parseFloat(ethers.utils.formatUnits(order.flippedPrice, pricePrecision)),
+            queuePosition: orders.length,
+            sizeAhead: parseFloat(ethers.utils.formatUnits(sizeAhead, sizePrecision)),
+        });
+
+        sizeAhead = sizeAhead.add(size);
+        orderId = BigNumber.from(order.next);
+    }
+
+    return {
+        price: parseFloat(ethers.utils.formatUnits(contractPrice, pricePrecision)),
+        size: parseFloat(ethers.utils.formatUnits(sizeAhead, sizePrecision)),
+        orders,
+    };
+}
@@ -0,0 +1,282 @@
+// ============ External Imports ============
+import { ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import { MarketParams, OrderBookData, WssCanceledOrderEvent, WssOrderEvent, WssTradeEvent } from '../types';
+import { OrderBook } from './orderBook';
+
+export interface LocalOrderBookOptions {
+    /** Use the tick-formatted book (getFormattedL2OrderBook and the reconcileFormatted* functions). */
+    formatted?: boolean;
+    /** Maximum time in milliseconds an event is buffered before its block is applied. Defaults to 500. */
+    flushDelayMs?: number;
+}
+
+export type LocalOrderBookEvent =
+    | { type: 'OrderCreated'; blockNumber: number; event: WssOrderEvent }
+    | { type: 'Trade'; blockNumber: number; event: WssTradeEvent }
+    | { type: 'OrdersCanceled'; blockNumber: number; event: WssCanceledOrderEvent };
+
+export class LocalOrderBook {
+    private book: OrderBookData | null = null;
+    private pendingEvents: Map<number, LocalOrderBookEvent[]> = new Map();
+    private snapshotBlock: number = 0;
+    private lastAppliedBlock: number = 0;
+    private listeners: Set<(orderBook: OrderBookData) => void> = new Set();
+    private resyncPromise: Promise<OrderBookData> | null = null;
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+    private readonly formatted: boolean;
+    private readonly flushDelayMs: number;
+
+    constructor(
+        private readonly providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        private readonly orderbookAddress: string,
+        private readonly marketParams: MarketParams,
+        options: LocalOrderBookOptions = {},
+    ) {
+        this.formatted = options.formatted ?? false;
+        this.flushDelayMs = options.flushDelayMs ?? 500;
+    }
+
+    /**
+     * @dev Loads the initial snapshot. Events received before this resolves are buffered and applied on top of it.
+     * @param snapshot - Optional pre-fetched snapshot, e.g. from getL2OrderBook.
+     * @returns A promise that resolves to the initial order book.
+     */
+    async initialize(snapshot?: OrderBookData): Promise<OrderBookData> {
+        if (snapshot) {
+            this.applySnapshot(snapshot);
+            return snapshot;
+        }
+
+        return this.resync();
+    }
+
+    /**
+     * @dev Drops the local state and reloads it from the chain. Buffered events newer than the snapshot are kept.
+     * @returns A promise that resolves to the resynced order book.
+     */
+    async resync(): Promise<OrderBookData> {
+        if (!this.resyncPromise) {
+            this.resyncPromise = this.fetchSnapshot()
+                .then((snapshot) => {
+                    this.applySnapshot(snapshot);
+                    return snapshot;
+                })
+                .finally(() => {
+                    this.resyncPromise = null;
+                });
+        }
+
+        return this.resyncPromise;
+    }
+
+    handleOrderCreated(event: WssOrderEvent) {
+        this.enqueue({ type: 'OrderCreated', blockNumber: event.blockNumber.toNumber(), event });
+    }
+
+    handleTrade(event: WssTradeEvent) {
+        this.enqueue({ type: 'Trade', blockNumber: parseInt(event.blockNumber, 10), event });
+    }
+
+    handleOrdersCanceled(event: WssCanceledOrderEvent) {
+        if (event.canceledOrdersData.length === 0) {
+            return;
+        }
+        this.enqueue({
+            type: 'OrdersCanceled',
+            blockNumber: parseInt(event.canceledOrdersData[0].blocknumber, 16),
+            event,
+        });
+    }
+
+    /**
+     * @dev Applies every buffered event, including those of the most recent block.
+     */
+    flush() {
+        this.clearFlushTimer();
+        this.applyPendingBlocks(Number.MAX_SAFE_INTEGER);
+    }
+
+    /**
+     * @dev Stops the pending flush timer and drops all subscribers.
+     */
+    stop() {
+        this.clearFlushTimer();
+        this.listeners.clear();
+    }
+
+    /**
+     * @dev Subscribes to order book updates.
+     * @param callback - Called with the new order book after every applied block or resync.
+     * @returns A function that removes the subscription.
+     */
+    onUpdate(callback: (orderBook: OrderBookData) => void): () => void {
+        this.listeners.add(callback);
+        return () => {
+            this.listeners.delete(callback);
+        };
+    }
+
+    getOrderBook(): OrderBookData | null {
+        return this.book;
+    }
+
+    getBlockNumber(): number {
+        return this.lastAppliedBlock;
+    }
+
+    /**
+     * @dev Returns the best bid as a [price, size] pair, or undefined if there are no bids.
+     */
+    getBestBid(): number[] | undefined {
+        return this.book?.bids[0];
+    }
+
+    /**
+     * @dev Returns the best ask as a [price, size] pair, or undefined if there are no asks.
+     *      Asks are stored in descending price order, so the best ask is the last level.
+     */
+    getBestAsk(): number[] | undefined {
+        return this.book?.asks[this.book.asks.length - 1];
+    }
+
+    /**
+     * @dev Returns the top price levels on each side, best price first.
+     * @param levels - The number of levels to return per side.
+     */
+    getDepth(levels: number): { bids: number[][]; asks: number[][] } {
+        if (!this.book) {
+            return { bids: [], asks: [] };
+        }
+
+        return {
+            bids: this.book.bids.slice(0, levels),
+            asks: this.book.asks.slice(-levels).reverse(),
+        };
+    }
+
+    // ======================== INTERNAL HELPER FUNCTIONS ========================
+
+    private async fetchSnapshot(): Promise<OrderBookData> {
+        return this.formatted
+            ? OrderBook.getFormattedL2OrderBook(this.providerOrSigner, this.orderbookAddress, this.marketParams)
+            : OrderBook.getL2OrderBook(this.providerOrSigner, this.orderbookAddress, this.marketParams);
+    }
+
+    private applySnapshot(snapshot: OrderBookData) {
+        this.book = snapshot;
+        this.snapshotBlock = snapshot.blockNumber;
+        this.lastAppliedBlock = snapshot.blockNumber;
+
+        // Events up to and including the snapshot block are already reflected in it
+        for (const blockNumber of Array.from(this.pendingEvents.keys())) {
+            if (blockNumber <= snapshot.blockNumber) {
+                this.pendingEvents.delete(blockNumber);
+            }
+        }
+
+        this.notify();
+        this.scheduleFlush();
+    }
+
+    private enqueue(event: LocalOrderBookEvent) {
+        if (this.book && !this.resyncPromise) {
+            if (event.blockNumber <= this.snapshotBlock) {
+                // Already reflected in the current snapshot
+                return;
+            }
+
+            if (event.blockNumber <= this.lastAppliedBlock) {
+                // The event's block has already been applied without it, so the local state is missing an update
+                this.resync().catch((error) => console.error('Error resyncing order book:', error));
+                return;
+            }
+        }
+
+        const events = this.pendingEvents.get(event.blockNumber) ?? [];
+        events.push(event);
+        this.pendingEvents.set(event.blockNumber, events);
+
+        // An event for a newer block means every earlier block is complete
+        this.applyPendingBlocks(event.blockNumber);
+        this.scheduleFlush();
+    }
+
+    private applyPendingBlocks(beforeBlock: number) {
+        if (!this.book || this.resyncPromise) {
+            return;
+        }
+
+        const blockNumbers = Array.from(this.pendingEvents.keys())
+            .filter((blockNumber) => blockNumber < beforeBlock)
+            .sort((a, b) => a - b);
+
+        if (blockNumbers.length === 0) {
+            return;
+        }
+
+        let book = this.book;
+        try {
+            for (const blockNumber of blockNumbers) {
+                for (const pendingEvent of this.pendingEvents.get(blockNumber)!) {
+                    book = this.reconcile(book, pendingEvent);
+                }
+                this.pendingEvents.delete(blockNumber);
+                this.lastAppliedBlock = blockNumber;
+            }
+        } catch (error) {
+            console.error('Error reconciling order book, resyncing:', error);
+            this.resync().catch((resyncError) => console.error('Error resyncing order book:', resyncError));
+            return;
+        }
+
+        this.book = book;
+        this.notify();
+    }
+
+    private reconcile(book: OrderBookData, pendingEvent: LocalOrderBookEvent): OrderBookData {
+        switch (pendingEvent.type) {
+            case 'OrderCreated':
+                return this.formatted
+                    ? OrderBook.reconcileFormattedOrderCreated(book, this.marketParams, pendingEvent.event)
+                    : OrderBook.reconcileOrderCreated(book, this.marketParams, pendingEvent.event);
+            case 'Trade':
+                return this.formatted
+                    ? OrderBook.reconcileFormattedTradeEvent(book, this.marketParams, pendingEvent.event)
+                    : OrderBook.reconcileTradeEvent(book, this.marketParams, pendingEvent.event);
+            case 'OrdersCanceled':
+                return this.formatted
+                    ? OrderBook.reconcileFormattedCanceledOrders(book, this.marketParams, pendingEvent.event)
+                    : OrderBook.reconcileCanceledOrders(book, this.marketParams, pendingEvent.event);
+        }
+    }
+
+    private scheduleFlush() {
+        if (this.flushTimer || this.pendingEvents.size === 0) {
+            return;
+        }
+
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flush();
+        }, this.flushDelayMs);
+    }
+
+    private clearFlushTimer() {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+    }
+
+    private notify() {
+        if (!this.book) {
+            return;
+        }
+
+        for (const listener of this.listeners) {
+            listener(this.book);
+        }
+    }
+}
@@ -0,0 +1,303 @@
+// ============ External Imports ============
+import { BigNumber, BigNumberish, ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import {
+    AMEND,
+    AmendedOrderReceipt,
+    CancelReceipt,
+    MarketParams,
+    OrderBookData,
+    OrderReceipt,
+    PriceRoundingMode,
+    RoundingMode,
+    TransactionOptions,
+} from '../types';
+import { getProvider, log10BigNumber, parseDecimal } from '../utils';
+import { MarginBalance } from '../margin';
+import { OrderAmender } from './amend';
+import { OrderBatcher } from './batch';
+import { OrderCanceler } from './cancel';
+import { CostEstimator } from './estimator';
+import { GTC } from './gtc';
+import { IOC } from './ioc';
+import { ParamFetcher } from './marketParams';
+import { MarketParamsCache } from './marketParamsCache';
+import { OrderBook } from './orderBook';
+
+export interface MarketOptions {
+    /** Margin account holding the balances used by margin orders and balance(). */
+    marginAccountAddress?: string;
+    /** Market params to use instead of fetching them, or a cache to read them from. */
+    marketParams?: MarketParams | MarketParamsCache;
+}
+
+export interface MarketOrderOptions {
+    /** Minimum amount to receive, in base units for buys and quote units for sells. Defaults to 0. */
+    minAmountOut?: string;
+    /** Whether to trade with the margin account balance. Defaults to false. */
+    isMargin?: boolean;
+    /** Whether to trade with the margin account balance, first depositing whatever it lacks. Defaults to false. */
+    depositShortfall?: boolean;
+    /** Whether to revert unless the whole order fills. Defaults to false. */
+    fillOrKill?: boolean;
+    /** Whether to approve the token spend first. Defaults to false. */
+    approveTokens?: boolean;
+    txOptions?: TransactionOptions;
+}
+
+export interface MarketLimitOrder {
+    price: string;
+    size: string;
+    isBuy: boolean;
+    /** Defaults to 'floor'. */
+    priceRounding?: PriceRoundingMode;
+    /** Defaults to 'floor'. */
+    sizeRounding?: RoundingMode;
+}
+
+export interface MarketLimitOptions {
+    /** Whether the orders must rest on the book rather than take liquidity. Defaults to false. */
+    postOnly?: boolean;
+    /** Orders to cancel in the same transaction. */
+    cancelOrderIds?: BigNumberish[];
+    txOptions?: TransactionOptions;
+}
+
+export interface MarketQuote {
+    amountIn: string;
+    amountOut: string;
+    estimatedGas: BigNumber;
+}
+
+export interface MarketBalance {
+    base: string;
+    quote: string;
+}
+
+/**
+ * @dev A single market bound to a provider or signer. Params are loaded once, and every amount is a
+ *      decimal string in token units, e.g. '1.5', whatever precision the underlying call uses.
+ */
+export class Market {
+    private constructor(
+        readonly providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        readonly address: string,
+        readonly marketParams: MarketParams,
+        private readonly options: MarketOptions,
+    ) {}
+
+    /**
+     * @dev Creates a market, loading its params.
+     * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param options - Optional margin account and preloaded params.
+     * @returns A promise that resolves to the market.
+     */
+    static async create(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddress: string,
+        options: MarketOptions = {},
+    ): Promise<Market> {
+        const marketParams = options.marketParams
+            ? await MarketParamsCache.resolve(options.marketParams, orderbookAddress)
+            : await ParamFetcher.getMarketParams(getProvider(providerOrSigner), orderbookAddress);
+
+        return new Market(providerOrSigner, orderbookAddress, marketParams, options);
+    }
+
+    /**
+     * @dev Buys base at market.
+     * @param quoteAmount - The amount of quote to spend.
+     * @param options - Optional minimum output, margin, fill-or-kill and transaction settings.
+     * @returns A promise that resolves to the order receipt.
+     */
+    buy(quoteAmount: string, options: MarketOrderOptions = {}): Promise<OrderReceipt> {
+        return this.placeMarket(true, quoteAmount, options);
+    }
+
+    /**
+     * @dev Sells base at market.
+     * @param size - The amount of base to sell.
+     * @param options - Optional minimum output, margin, fill-or-kill and transaction settings.
+     * @returns A promise that resolves to the order receipt.
+     */
+    sell(size: string, options: MarketOrderOptions = {}): Promise<OrderReceipt> {
+        return this.placeMarket(false, size, options);
+    }
+
+    /**
+     * @dev Places limit orders. A single order is placed directly, while several orders, or orders combined
+     *      with cancellations, are placed in one batch.
+     * @param orders - The order, or orders, to place.
+     * @param options - Optional post-only flag, orders to cancel and transaction settings.
+     * @returns A promise that resolves to the order receipt.
+     */
+    limit(orders: MarketLimitOrder | MarketLimitOrder[], options: MarketLimitOptions = {}): Promise<OrderReceipt> {
+        const postOnly = options.postOnly ?? false;
+        const cancelOrderIds = options.cancelOrderIds ?? [];
+
+        if (!Array.isArray(orders) && cancelOrderIds.length === 0) {
+            return GTC.placeLimit(this.providerOrSigner, this.address, this.marketParams, {
+                ...orders,
+                postOnly,
+                txOptions: options.txOptions,
+            });
+        }
+
+        return OrderBatcher.batchUpdate(this.providerOrSigner, this.address, this.marketParams, {
+            limitOrders: (Array.isArray(orders) ? orders : [orders]).map((order) => ({ ...order, postOnly })),
+            cancelOrders: cancelOrderIds.map((orderId) => BigNumber.from(orderId)),
+            postOnly,
+            txOptions: options.txOptions,
+        });
+    }
+
+    /**
+     * @dev Cancels orders by their IDs.
+     * @param orderIds - The IDs of the orders to cancel.
+     * @param txOptions - The transaction options for the cancellation.
+     * @returns A promise that resolves to the receipt extended with the canceled order IDs.
+     */
+    cancel(orderIds: BigNumberish[], txOptions?: TransactionOptions): Promise<CancelReceipt> {
+        return OrderCanceler.cancelOrders(
+            this.providerOrSigner,
+            this.address,
+            orderIds.map((orderId) => BigNumber.from(orderId)),
+            txOptions,
+        );
+    }
+
+    /**
+     * @dev Moves or resizes a resting order in a single cancel-replace transaction.
+     * @param orderId - The ID of the order to amend.
+     * @param amend - The new price and size. Whichever is omitted is kept.
+     * @returns A promise that resolves to the receipt and the ID of the replacement order.
+     */
+    amend(orderId: BigNumberish, amend: AMEND): Promise<AmendedOrderReceipt> {
+        return OrderAmender.amend(this.providerOrSigner, this.address, this.marketParams, orderId, amend);
+    }
+
+    /**
+     * @dev Simulates a market order against the current book.
+     * @param isBuy - Whether to quote a buy or a sell.
+     * @param amountIn - The amount of quote to spend for buys, or of base to sell for sells.
+     * @param blockTag - Optional block to simulate at. Defaults to the latest block.
+     * @returns A promise that resolves to the amount received and the estimated gas.
+     */
+    async quote(isBuy: boolean, amountIn: string, blockTag?: ethers.providers.BlockTag): Promise<MarketQuote> {
+        // Market buys are sized in pricePrecision units of quote, market sells in sizePrecision units of base
+        const precision = log10BigNumber(isBuy ? this.marketParams.pricePrecision : this.marketParams.sizePrecision);
+        const size = parseDecimal(amountIn, precision);
+
+        const { output, estimatedGas } = isBuy
+            ? await CostEstimator.returnMarketBuyEstimate(
+                  getProvider(this.providerOrSigner),
+                  this.address,
+                  size,
+                  blockTag,
+              )
+            : await CostEstimator.returnMarketSellEstimate(
+                  getProvider(this.providerOrSigner),
+                  this.address,
+                  size,
+                  blockTag,
+              );
+
+        return {
+            amountIn,
+            amountOut: ethers.utils.formatUnits(
+                output,
+                isBuy ? this.marketParams.baseAssetDecimals : this.marketParams.quoteAssetDecimals,
+            ),
+            estimatedGas,
+        };
+    }
+
+    /**
+     * @dev Fetches the L2 order book, with prices in quote per base and sizes in base.
+     * @param blockTag - Optional block to read at. Defaults to the latest block.
+     * @returns A promise that resolves to the order book.
+     */
+    book(blockTag?: ethers.providers.BlockTag): Promise<OrderBookData> {
+        return OrderBook.getL2OrderBook(
+            getProvider(this.providerOrSigner),
+            this.address,
+            this.marketParams,
+            undefined,
+            undefined,
+            blockTag,
+        );
+    }
+
+    /**
+     * @dev Fetches the base and quote balances of a user in the margin account.
+     * @param userAddress - The user. Defaults to the signer's address.
+     * @param blockTag - Optional block to read at. Defaults to the latest block.
+     * @returns A promise that resolves to the balances.
+     */
+    async balance(userAddress?: string, blockTag?: ethers.providers.BlockTag): Promise<MarketBalance> {
+        const marginAccountAddress = this.getMarginAccountAddress();
+
+        const user = userAddress ?? (await this.getSigner().getAddress());
+        const [base, quote] = await Promise.all([
+            MarginBalance.getBalance(
+                getProvider(this.providerOrSigner),
+                marginAccountAddress,
+                user,
+                this.marketParams.baseAssetAddress,
+                blockTag,
+            ),
+            MarginBalance.getBalance(
+                getProvider(this.providerOrSigner),
+                marginAccountAddress,
+                user,
+                this.marketParams.quoteAssetAddress,
+                blockTag,
+            ),
+        ]);
+
+        return {
+            base: ethers.utils.formatUnits(base, this.marketParams.baseAssetDecimals),
+            quote: ethers.utils.formatUnits(quote, this.marketParams.quoteAssetDecimals),
+        };
+    }
+
+    // ======================== INTERNAL HELPER FUNCTIONS ========================
+
+    private placeMarket(isBuy: boolean, size: string, options: MarketOrderOptions): Promise<OrderReceipt> {
+        const order = {
+            isBuy,
+            size,
+            minAmountOut: options.minAmountOut ?? '0',
+            isMargin: options.isMargin ?? false,
+            fillOrKill: options.fillOrKill ?? false,
+            approveTokens: options.approveTokens ?? false,
+            txOptions: options.txOptions,
+        };
+
+        if (!options.depositShortfall) {
+            return IOC.placeMarket(this.providerOrSigner, this.address, this.marketParams, order);
+        }
+        return IOC.placeMarketFromMargin(
+            this.providerOrSigner,
+            this.address,
+            this.marketParams,
+            this.getMarginAccountAddress(),
+            order,
+        );
+    }
+
+    private getMarginAccountAddress(): string {
+        if (!this.options.marginAccountAddress) {
+            throw new Error('A marginAccountAddress is required to use the margin account');
+        }
+        return this.options.marginAccountAddress;
+    }
+
+    private getSigner(): ethers.Signer {
+        return this.providerOrSigner instanceof ethers.Signer
+            ? this.providerOrSigner
+            : this.providerOrSigner.getSigner();
+    }
+}
@@ -0,0 +1,274 @@
+// ============ External Imports ============
+import { ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import { MarketParams, OrderBookData, TopOfBook } from '../types';
+import { Multicall, MulticallCall } from '../utils';
+import { KuruWsClient, KuruWsClientOptions } from '../listener/wsClient';
+import { LocalOrderBook, LocalOrderBookOptions } from './localOrderBook';
+import { ParamFetcher } from './marketParams';
+import { OrderBook } from './orderBook';
+
+// ============ Config Imports ============
+import orderbookAbi from '../../abi/OrderBook.json';
+
+const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
+export interface MarketHubOptions extends LocalOrderBookOptions {
+    /** Multicall3 deployment used to batch reads. Defaults to MULTICALL3_ADDRESS. */
+    multicallAddress?: string;
+    /** Maximum number of markets read per multicall. Defaults to 50. */
+    batchSize?: number;
+}
+
+interface HubMarket {
+    address: string;
+    marketParams: MarketParams;
+    orderBook: LocalOrderBook;
+    unsubscribes: (() => void)[];
+}
+
+/**
+ * @dev Maintains local order books for many markets. Market params and snapshots are loaded
+ *      with one multicall per batch of markets, and books are kept up to date from the event feed.
+ */
+export class MarketHub {
+    private markets: Map<string, HubMarket> = new Map();
+    private listeners: Set<(marketAddress: string, orderBook: OrderBookData) => void> = new Set();
+    private client: KuruWsClient | null = null;
+    private readonly batchSize: number;
+
+    constructor(
+        private readonly providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        private readonly options: MarketHubOptions = {},
+    ) {
+        this.batchSize = options.batchSize ?? 50;
+    }
+
+    /**
+     * @dev Loads the params and initial snapshot of each market. Markets already in the hub are skipped.
+     * @param marketAddresses - The addresses of the order book contracts.
+     */
+    async addMarkets(marketAddresses: string[]): Promise<void> {
+        const newAddresses = marketAddresses.filter(
+            (address, index) =>
+                !this.markets.has(address.toLowerCase()) &&
+                marketAddresses.findIndex((other) => other.toLowerCase() === address.toLowerCase()) === index,
+        );
+
+        const marketParams = (
+            await Promise.all(
+                chunk(newAddresses, this.batchSize).map((addresses) =>
+                    ParamFetcher.getMarketParamsBatch(this.providerOrSigner, addresses, this.options.multicallAddress),
+                ),
+            )
+        ).flat();
+
+        newAddresses.forEach((address, index) => {
+            const orderBook = new LocalOrderBook(this.providerOrSigner, address, marketParams[index], this.options);
+            const market: HubMarket = { address, marketParams: marketParams[index], orderBook, unsubscribes: [] };
+
+            market.unsubscribes.push(orderBook.onUpdate((book) => this.notify(address, book)));
+            this.markets.set(address.toLowerCase(), market);
+            this.subscribeMarket(market);
+        });
+        this.client?.addMarkets(newAddresses);
+
+        await this.resync(newAddresses);
+    }
+
+    /**
+     * @dev Stops tracking a market and routing its events.
+     */
+    removeMarket(marketAddress: string) {
+        const market = this.markets.get(marketAddress.toLowerCase());
+        if (!market) {
+            return;
+        }
+
+        this.stopMarket(market);
+        this.client?.removeMarket(market.address);
+        this.markets.delete(marketAddress.toLowerCase());
+    }
+
+    /**
+     * @dev Reloads the snapshots of the given markets, batched through multicall.
+     * @param marketAddresses - The markets to resync. Defaults to every market in the hub.
+     */
+    async resync(marketAddresses?: string[]): Promise<void> {
+        const markets = (marketAddresses ?? this.getMarkets()).map((address) => this.getMarket(address));
+
+        await Promise.all(
+            chunk(markets, this.batchSize).map(async (batch) => {
+                const snapshots = await this.fetchSnapshots(batch);
+                snapshots.forEach((snapshot, index) => batch[index].orderBook.initialize(snapshot));
+            }),
+        );
+    }
+
+    /**
+     * @dev Opens one socket.io connection that carries the events of every market, including markets added later.
+     *      Events are routed to each book by their marketAddress, and the books are resynced in batches
+     *      after a reconnect.
+     * @param url - The URL of the Kuru websocket server.
+     * @param options - Options passed to the KuruWsClient.
+     */
+    async connect(url: string, options: KuruWsClientOptions = {}): Promise<void> {
+        if (!this.client) {
+            this.client = new KuruWsClient(url, this.getMarkets(), options);
+            this.client.onReconnect(() => {
+                this.resync().catch((error) => console.error('Error resyncing market hub:', error));
+            });
+            this.markets.forEach((market) => this.subscribeMarket(market));
+        }
+        await this.client.connect();
+    }
+
+    /**
+     * @dev Closes the event feed and stops every local book.
+     */
+    stop() {
+        this.client?.disconnect();
+        this.client = null;
+        this.markets.forEach((market) => this.stopMarket(market));
+        this.markets.clear();
+        this.listeners.clear();
+    }
+
+    /**
+     * @dev Subscribes to updates of any market in the hub.
+     * @returns A function that removes the subscription.
+     */
+    onUpdate(callback: (marketAddress: string, orderBook: OrderBookData) => void): () => void {
+        this.listeners.add(callback);
+        return () => {
+            this.listeners.delete(callback);
+        };
+    }
+
+    getMarkets(): string[] {
+        return Array.from(this.markets.values()).map((market) => market.address);
+    }
+
+    getMarketParams(marketAddress: string): MarketParams {
+        return this.getMarket(marketAddress).marketParams;
+    }
+
+    getLocalOrderBook(marketAddress: string): LocalOrderBook {
+        return this.getMarket(marketAddress).orderBook;
+    }
+
+    /**
+     * @dev Returns the best bid and ask of each market.
+     * @param marketAddresses - The markets to include. Defaults to every market in the hub.
+     */
+    getTopOfBook(marketAddresses?: string[]): TopOfBook[] {
+        return (marketAddresses ?? this.getMarkets()).map((address) => {
+            const { orderBook } = this.getMarket(address);
+            const bestBid = orderBook.getBestBid();
+            const bestAsk = orderBook.getBestAsk();
+
+            return {
+                marketAddress: address,
+                bestBid,
+                bestAsk,
+                midPrice: bestBid && bestAsk ? (bestBid[0] + bestAsk[0]) / 2 : undefined,
+                spread: bestBid && bestAsk ? bestAsk[0] - bestBid[0] : undefined,
+                blockNumber: orderBook.getBlockNumber(),
+            };
+        });
+    }
+
+    // ======================== INTERNAL HELPER FUNCTIONS ========================
+
+    private getMarket(marketAddress: string): HubMarket {
+        const market = this.markets.get(marketAddress.toLowerCase());
+        if (!market) {
+            throw new Error(`Market ${marketAddress} is not in the hub`);
+        }
+        return market;
+    }
+
+    /**
+     * @dev Reads getL2Book and getVaultParams of each market in one multicall, so both are from the same block.
+     */
+    private async fetchSnapshots(markets: HubMarket[]): Promise<OrderBookData[]> {
+        const calls: MulticallCall[] = markets.flatMap((market) => [
+            { target: market.address, callData: orderbookInterface.encodeFunctionData('getL2Book') },
+            { target: market.address, callData: orderbookInterface.encodeFunctionData('getVaultParams') },
+        ]);
+        const results = await Multicall.aggregate(
+            this.providerOrSigner,
+            calls,
+            undefined,
+            this.options.multicallAddress,
+        );
+
+        return Promise.all(
+            markets.map((market, index) => {
+                const [l2BookResult, vaultParamsResult] = results.slice(index * 2, index * 2 + 2);
+                if (!l2BookResult.success || !vaultParamsResult.success) {
+                    throw new Error(`Failed to fetch the order book of ${market.address}`);
+                }
+
+                const [l2Book] = orderbookInterface.decodeFunctionResult('getL2Book', l2BookResult.returnData);
+                const vaultParams = orderbookInterface.decodeFunctionResult(
+                    'getVaultParams',
+                    vaultParamsResult.returnData,
+                );
+
+                return this.options.formatted
+                    ? OrderBook.getFormattedL2OrderBook(
+                          this.providerOrSigner,
+                          market.address,
+                          market.marketParams,
+                          l2Book,
+                          vaultParams,
+                      )
+                    : OrderBook.getL2OrderBook(
+                          this.providerOrSigner,
+                          market.address,
+                          market.marketParams,
+                          l2Book,
+                          vaultParams,
+                      );
+            }),
+        );
+    }
+
+    private subscribeMarket(market: HubMarket) {
+        if (!this.client) {
+            return;
+        }
+
+        const { address, orderBook } = market;
+        market.unsubscribes.push(
+            this.client.onOrderCreated((event) => orderBook.handleOrderCreated(event), address),
+            this.client.onTrade((event) => orderBook.handleTrade(event), address),
+            this.client.onOrdersCanceled((event) => orderBook.handleOrdersCanceled(event), address),
+        );
+    }
+
+    private stopMarket(market: HubMarket) {
+        market.unsubscribes.forEach((unsubscribe) => unsubscribe());
+        market.orderBook.stop();
+    }
+
+    private notify(marketAddress: string, orderBook: OrderBookData) {
+        for (const listener of this.listeners) {
+            try {
+                listener(marketAddress, orderBook);
+            } catch (error) {
+                console.error(`Error in market hub listener for ${marketAddress}:`, error);
+            }
+        }
+    }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
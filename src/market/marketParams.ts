@@ -3,35 +3,74 @@ import { ethers, BigNumber } from 'ethers';
 
 // ============ Internal Imports ============
 import { MarketParams } from '../types';
+import { Multicall } from '../utils';
 
 // ============ Config Imports ============
 import orderbookAbi from '../../abi/OrderBook.json';
 
+const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
 export abstract class ParamFetcher {
     /**
      * @dev Retrieves the market parameters from the order book contract.
      * @param providerOrSigner - The ethers.js provider to interact with the blockchain.
      * @param orderbookAddress - The address of the order book contract.
+     * @param blockTag - Optional block to read at. Defaults to the latest block.
      * @returns A promise that resolves to the market parameters.
      */
     static async getMarketParams(
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<MarketParams> {
         const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
-        const marketParamsData = await orderbook.getMarketParams({ from: ethers.constants.AddressZero });
-        return {
-            pricePrecision: BigNumber.from(marketParamsData[0]),
-            sizePrecision: BigNumber.from(marketParamsData[1]),
-            baseAssetAddress: marketParamsData[2],
-            baseAssetDecimals: BigNumber.from(marketParamsData[3]),
-            quoteAssetAddress: marketParamsData[4],
-            quoteAssetDecimals: BigNumber.from(marketParamsData[5]),
-            tickSize: BigNumber.from(marketParamsData[6]),
-            minSize: BigNumber.from(marketParamsData[7]),
-            maxSize: BigNumber.from(marketParamsData[8]),
-            takerFeeBps: BigNumber.from(marketParamsData[9]),
-            makerFeeBps: BigNumber.from(marketParamsData[10]),
-        };
+        const marketParamsData = await orderbook.getMarketParams({ from: ethers.constants.AddressZero, blockTag });
+        return toMarketParams(marketParamsData);
+    }
+
+    /**
+     * @dev Retrieves the market parameters of several order books in a single multicall.
+     * @param providerOrSigner - The ethers.js provider to interact with the blockchain.
+     * @param orderbookAddresses - The addresses of the order book contracts.
+     * @param multicallAddress - Optional Multicall3 deployment. Defaults to MULTICALL3_ADDRESS.
+     * @param blockTag - Optional block to read at. Defaults to the latest block.
+     * @returns A promise that resolves to the market parameters, in the order of the addresses.
+     */
+    static async getMarketParamsBatch(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddresses: string[],
+        multicallAddress?: string,
+        blockTag?: ethers.providers.BlockTag,
+    ): Promise<MarketParams[]> {
+        const callData = orderbookInterface.encodeFunctionData('getMarketParams');
+        const results = await Multicall.aggregate(
+            providerOrSigner,
+            orderbookAddresses.map((target) => ({ target, callData })),
+            blockTag,
+            multicallAddress,
+        );
+
+        return results.map((result, index) => {
+            if (!result.success) {
+                throw new Error(`Failed to fetch market params for ${orderbookAddresses[index]}`);
+            }
+            return toMarketParams(orderbookInterface.decodeFunctionResult('getMarketParams', result.returnData));
+        });
     }
 }
+
+function toMarketParams(marketParamsData: any): MarketParams {
+    return {
+        pricePrecision: BigNumber.from(marketParamsData[0]),
+        sizePrecision: BigNumber.from(marketParamsData[1]),
+        baseAssetAddress: marketParamsData[2],
+        baseAssetDecimals: BigNumber.from(marketParamsData[3]),
+        quoteAssetAddress: marketParamsData[4],
+        quoteAssetDecimals: BigNumber.from(marketParamsData[5]),
+        tickSize: BigNumber.from(marketParamsData[6]),
+        minSize: BigNumber.from(marketParamsData[7]),
+        maxSize: BigNumber.from(marketParamsData[8]),
+        takerFeeBps: BigNumber.from(marketParamsData[9]),
+        makerFeeBps: BigNumber.from(marketParamsData[10]),
+    };
+}
@@ -0,0 +1,320 @@
+// ============ External Imports ============
+import { ethers, BigNumber } from 'ethers';
+
+// ============ Internal Imports ============
+import { MarketParams } from '../types';
+import { getProvider } from '../utils';
+import { ParamFetcher } from './marketParams';
+
+// ============ Config Imports ============
+import orderbookAbi from '../../abi/OrderBook.json';
+
+const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
+// Events after which an order book's params may have changed
+const INVALIDATING_TOPICS = [
+    orderbookInterface.getEventTopic('Upgraded'),
+    orderbookInterface.getEventTopic('OwnershipTransferred'),
+];
+
+/**
+ * @dev Where a MarketParamsCache keeps its entries between runs, as a JSON string, e.g. a JSON file in Node from
+ *      MarketParamsCache.fileStorage or window.localStorage in a browser.
+ */
+export interface MarketParamsStorage {
+    /** Returns the saved JSON, or null if nothing was saved yet. */
+    load(): string | null | Promise<string | null>;
+    save(data: string): void | Promise<void>;
+}
+
+export interface MarketParamsCacheOptions {
+    /** How long fetched params are served before being fetched again, in milliseconds. Defaults to one hour. */
+    ttlMs?: number;
+    /** Storage the cache is loaded from on creation and saved to after changes. */
+    storage?: MarketParamsStorage;
+    /** Time in milliseconds changes are collected before they are saved together. Defaults to 1000. */
+    saveDelayMs?: number;
+}
+
+type StoredEntries = Record<string, { marketParams: Record<string, string>; fetchedAt: number }>;
+
+interface CacheEntry {
+    marketParams: MarketParams;
+    fetchedAt: number;
+}
+
+/**
+ * @dev Caches market params, which rarely change, so that routes and orders do not refetch them.
+ *      Entries expire after a TTL and are dropped when the order book is upgraded or changes owner.
+ *      Can be passed anywhere the SDK accepts market params.
+ */
+export class MarketParamsCache {
+    private entries: Map<string, CacheEntry> = new Map();
+    private pending: Map<string, Promise<MarketParams>> = new Map();
+    private saveTimer: ReturnType<typeof setTimeout> | null = null;
+    private watchers: Set<(key: string) => void> = new Set();
+    private readonly loaded: Promise<void>;
+    private readonly ttlMs: number;
+    private readonly saveDelayMs: number;
+
+    constructor(
+        private readonly providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        private readonly options: MarketParamsCacheOptions = {},
+    ) {
+        this.ttlMs = options.ttlMs ?? 60 * 60 * 1000;
+        this.saveDelayMs = options.saveDelayMs ?? 1000;
+        this.loaded = this.load();
+    }
+
+    /**
+     * @dev Returns the params passed in, or reads them through the cache.
+     * @param marketParams - The market params, or a cache to read them from.
+     * @param orderbookAddress - The address of the order book contract.
+     * @returns A promise that resolves to the market parameters.
+     */
+    static async resolve(
+        marketParams: MarketParams | MarketParamsCache,
+        orderbookAddress: string,
+    ): Promise<MarketParams> {
+        return marketParams instanceof MarketParamsCache ? marketParams.get(orderbookAddress) : marketParams;
+    }
+
+    /**
+     * @dev Returns a storage that keeps the cache in a JSON file. Node only.
+     * @param path - The path of the JSON file. A missing file is created on the first save.
+     * @returns The storage to pass as the storage option.
+     */
+    static fileStorage(path: string): MarketParamsStorage {
+        return {
+            load: async () => {
+                const { promises: fs } = await import('fs');
+                try {
+                    return await fs.readFile(path, 'utf8');
+                } catch (e: any) {
+                    if (e.code === 'ENOENT') {
+                        return null;
+                    }
+                    throw e;
+                }
+            },
+            save: async (data: string) => {
+                const { promises: fs } = await import('fs');
+                await fs.writeFile(path, data);
+            },
+        };
+    }
+
+    /**
+     * @dev Returns the cached params of a market, fetching them if missing or expired.
+     *      Concurrent calls for the same market share a single fetch.
+     * @param orderbookAddress - The address of the order book contract.
+     * @returns A promise that resolves to the market parameters.
+     */
+    async get(orderbookAddress: string): Promise<MarketParams> {
+        await this.loaded;
+        const key = orderbookAddress.toLowerCase();
+        const entry = this.entries.get(key);
+        if (entry && Date.now() - entry.fetchedAt < this.ttlMs) {
+            return entry.marketParams;
+        }
+
+        let pending = this.pending.get(key);
+        if (!pending) {
+            pending = ParamFetcher.getMarketParams(this.providerOrSigner, orderbookAddress)
+                .then((marketParams) => {
+                    this.set(orderbookAddress, marketParams);
+                    return marketParams;
+                })
+                .finally(() => this.pending.delete(key));
+            this.pending.set(key, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * @dev Returns the cached params of several markets, fetching the missing ones in a single multicall.
+     * @param orderbookAddresses - The addresses of the order book contracts.
+     * @param multicallAddress - Optional Multicall3 deployment. Defaults to MULTICALL3_ADDRESS.
+     * @returns A promise that resolves to the market parameters, in the order of the addresses.
+     */
+    async getMany(orderbookAddresses: string[], multicallAddress?: string): Promise<MarketParams[]> {
+        await this.loaded;
+        const now = Date.now();
+        const missing = orderbookAddresses.filter((address, index) => {
+            const entry = this.entries.get(address.toLowerCase());
+            return (
+                (!entry || now - entry.fetchedAt >= this.ttlMs) &&
+                orderbookAddresses.findIndex((other) => other.toLowerCase() === address.toLowerCase()) === index
+            );
+        });
+
+        if (missing.length > 0) {
+            const marketParams = await ParamFetcher.getMarketParamsBatch(
+                this.providerOrSigner,
+                missing,
+                multicallAddress,
+            );
+            missing.forEach((address, index) =>
+                this.setEntry(address.toLowerCase(), { marketParams: marketParams[index], fetchedAt: now }),
+            );
+            this.scheduleSave();
+        }
+
+        return orderbookAddresses.map((address) => this.entries.get(address.toLowerCase())!.marketParams);
+    }
+
+    /**
+     * @dev Stores the params of a market, e.g. ones fetched elsewhere.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param marketParams - The market parameters.
+     */
+    set(orderbookAddress: string, marketParams: MarketParams) {
+        this.setEntry(orderbookAddress.toLowerCase(), { marketParams, fetchedAt: Date.now() });
+        this.scheduleSave();
+    }
+
+    /**
+     * @dev Drops the params of a market so that they are fetched again on the next read.
+     * @param orderbookAddress - The address of the order book contract. Drops every market if omitted.
+     */
+    invalidate(orderbookAddress?: string) {
+        if (orderbookAddress) {
+            this.entries.delete(orderbookAddress.toLowerCase());
+        } else {
+            this.entries.clear();
+        }
+        this.scheduleSave();
+    }
+
+    /**
+     * @dev Drops the params of the emitting market if the log is an Upgraded or OwnershipTransferred event.
+     * @param log - A log from any contract.
+     * @returns True if the log invalidated a cached market.
+     */
+    handleLog(log: ethers.providers.Log): boolean {
+        const key = log.address.toLowerCase();
+        if (!INVALIDATING_TOPICS.includes(log.topics[0]) || !this.entries.has(key)) {
+            return false;
+        }
+
+        this.invalidate(key);
+        return true;
+    }
+
+    /**
+     * @dev Subscribes to the Upgraded and OwnershipTransferred events of each cached order book, including ones
+     *      cached later, so that cached markets are invalidated as they change.
+     * @returns A function that stops watching.
+     */
+    watch(): () => void {
+        const provider = getProvider(this.providerOrSigner);
+        const filters: Map<string, ethers.EventFilter> = new Map();
+        const listener = (log: ethers.providers.Log) => this.handleLog(log);
+        const subscribe = (key: string) => {
+            if (filters.has(key)) {
+                return;
+            }
+            const filter = { address: key, topics: [INVALIDATING_TOPICS] };
+            filters.set(key, filter);
+            provider.on(filter, listener);
+        };
+
+        Array.from(this.entries.keys()).forEach(subscribe);
+        this.watchers.add(subscribe);
+        return () => {
+            this.watchers.delete(subscribe);
+            filters.forEach((filter) => provider.off(filter, listener));
+        };
+    }
+
+    /**
+     * @dev Saves pending changes to the storage now, e.g. before the process exits.
+     */
+    async flush(): Promise<void> {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        await this.save();
+    }
+
+    // ======================== INTERNAL HELPER FUNCTIONS ========================
+
+    private async load() {
+        if (!this.options.storage) {
+            return;
+        }
+
+        let stored: StoredEntries;
+        try {
+            const data = await this.options.storage.load();
+            if (!data) {
+                return;
+            }
+            stored = JSON.parse(data);
+        } catch (error) {
+            // A corrupt or unreadable cache is refetched
+            console.error('Error loading market params cache:', error);
+            return;
+        }
+
+        for (const [key, { marketParams, fetchedAt }] of Object.entries(stored)) {
+            // Entries set while loading are newer
+            if (this.entries.has(key)) {
+                continue;
+            }
+            this.setEntry(key, {
+                marketParams: {
+                    pricePrecision: BigNumber.from(marketParams.pricePrecision),
+                    sizePrecision: BigNumber.from(marketParams.sizePrecision),
+                    baseAssetAddress: marketParams.baseAssetAddress,
+                    baseAssetDecimals: BigNumber.from(marketParams.baseAssetDecimals),
+                    quoteAssetAddress: marketParams.quoteAssetAddress,
+                    quoteAssetDecimals: BigNumber.from(marketParams.quoteAssetDecimals),
+                    tickSize: BigNumber.from(marketParams.tickSize),
+                    minSize: BigNumber.from(marketParams.minSize),
+                    maxSize: BigNumber.from(marketParams.maxSize),
+                    takerFeeBps: BigNumber.from(marketParams.takerFeeBps),
+                    makerFeeBps: BigNumber.from(marketParams.makerFeeBps),
+                },
+                fetchedAt,
+            });
+        }
+    }
+
+    private setEntry(key: string, entry: CacheEntry) {
+        this.entries.set(key, entry);
+        this.watchers.forEach((subscribe) => subscribe(key));
+    }
+
+    private scheduleSave() {
+        if (!this.options.storage || this.saveTimer) {
+            return;
+        }
+
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.save().catch((error) => console.error('Error saving market params cache:', error));
+        }, this.saveDelayMs);
+    }
+
+    private async save() {
+        if (!this.options.storage) {
+            return;
+        }
+
+        // Saving before the stored entries are loaded would drop them
+        await this.loaded;
+
+        const stored: StoredEntries = {};
+        for (const [key, { marketParams, fetchedAt }] of this.entries) {
+            // BigNumbers are stored as decimal strings
+            const fields: Record<string, string> = {};
+            for (const [field, value] of Object.entries(marketParams)) {
+                fields[field] = value.toString();
+            }
+            stored[key] = { marketParams: fields, fetchedAt };
+        }
+        await this.options.storage.save(JSON.stringify(stored, null, 2));
+    }
+}
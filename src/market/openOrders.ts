@@ -0,0 +1,288 @@
+// ============ External Imports ============
+import { BigNumber, BigNumberish, ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import { ActiveOrders, MarketParams, OrderEvent, TrackedOrder, TradeEvent } from '../types';
+import { log10BigNumber } from '../utils';
+
+// ============ Config Imports ============
+import orderbookAbi from '../../abi/OrderBook.json';
+
+const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
+type LogPosition = Pick<ethers.providers.Log, 'blockNumber' | 'transactionHash' | 'logIndex'>;
+
+const TRACKED_EVENTS = [
+    'OrderCreated',
+    'Trade',
+    'OrdersCanceled',
+    'FlipOrderCreated',
+    'FlippedOrderCreated',
+    'FlipOrderUpdated',
+    'FlipOrdersCanceled',
+];
+
+export interface OpenOrderTrackerOptions {
+    /** Maximum number of blocks per getLogs request when syncing. Defaults to 10000. */
+    maxBlockRange?: number;
+}
+
+export class OpenOrderTracker {
+    private orders: Map<string, TrackedOrder> = new Map();
+    private seenLogs: Map<string, number> = new Map();
+    private blockNumber: number = 0;
+    private readonly ownerAddress: string;
+    private readonly maxBlockRange: number;
+
+    constructor(
+        private readonly providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        private readonly orderbookAddress: string,
+        private readonly marketParams: MarketParams,
+        ownerAddress: string,
+        options: OpenOrderTrackerOptions = {},
+    ) {
+        this.ownerAddress = ownerAddress.toLowerCase();
+        this.maxBlockRange = options.maxBlockRange ?? 10000;
+    }
+
+    /**
+     * @dev Rebuilds the owner's orders from the order book logs over a block range.
+     * @param fromBlock - The first block to scan, e.g. the block before the owner's first order.
+     * @param toBlock - The last block to scan. Defaults to the latest block.
+     * @returns A promise that resolves to the IDs of the owner's open orders.
+     */
+    async sync(fromBlock: number, toBlock?: number): Promise<ActiveOrders> {
+        const provider =
+            this.providerOrSigner instanceof ethers.Signer ? this.providerOrSigner.provider! : this.providerOrSigner;
+        const endBlock = toBlock ?? (await provider.getBlockNumber());
+        const topics = [TRACKED_EVENTS.map((name) => orderbookInterface.getEventTopic(name))];
+
+        for (let start = fromBlock; start <= endBlock; start += this.maxBlockRange) {
+            const logs = await provider.getLogs({
+                address: this.orderbookAddress,
+                fromBlock: start,
+                toBlock: Math.min(start + this.maxBlockRange - 1, endBlock),
+                topics,
+            });
+            this.handleLogs(logs);
+        }
+
+        this.blockNumber = Math.max(this.blockNumber, endBlock);
+        this.pruneSeenLogs();
+        return this.getActiveOrders();
+    }
+
+    /**
+     * @dev Applies order book logs, e.g. from a transaction receipt. Logs already applied within the last 128
+     *      blocks are skipped.
+     * @param logs - The logs to apply; logs from other contracts are ignored.
+     */
+    handleLogs(logs: ethers.providers.Log[]) {
+        const sortedLogs = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+        for (const log of sortedLogs) {
+            if (log.address.toLowerCase() !== this.orderbookAddress.toLowerCase()) {
+                continue;
+            }
+
+            let parsed: ethers.utils.LogDescription;
+            try {
+                parsed = orderbookInterface.parseLog(log);
+            } catch {
+                continue;
+            }
+
+            if (!this.markSeen(log)) {
+                continue;
+            }
+
+            const { args } = parsed;
+            switch (parsed.name) {
+                case 'OrderCreated':
+                    this.addOrder(args.orderId, args.owner, args.size, args.price, args.isBuy, false);
+                    break;
+                case 'FlipOrderCreated':
+                case 'FlippedOrderCreated':
+                    this.addOrder(args.orderId, args.owner, args.size, args.price, args.isBuy, true);
+                    break;
+                case 'Trade':
+                    this.applyTrade(
+                        args.orderId,
+                        args.price,
+                        args.updatedSize,
+                        args.filledSize,
+                        args.takerAddress,
+                        log,
+                    );
+                    break;
+                case 'FlipOrderUpdated':
+                    this.updateRemainingSize(args.orderId, args.size);
+                    break;
+                case 'OrdersCanceled':
+                    this.cancelOrders(args.orderId, args.owner);
+                    break;
+                case 'FlipOrdersCanceled':
+                    this.cancelOrders(args.orderIds, args.owner);
+                    break;
+            }
+        }
+    }
+
+    /**
+     * @dev Applies an OrderCreated event from MarketListener.listenForOrders. Events already applied are skipped.
+     * @param event - The order event.
+     * @param log - The log the event was decoded from, e.g. the second argument of the listenForOrders callback.
+     */
+    handleOrderCreated(event: OrderEvent, log: LogPosition) {
+        if (this.markSeen(log)) {
+            this.addOrder(event.orderId, event.ownerAddress, event.size, event.price, event.isBuy, false);
+        }
+    }
+
+    /**
+     * @dev Applies a Trade event from MarketListener.listenForTrades. Events already applied are skipped.
+     * @param event - The trade event.
+     * @param log - The log the event was decoded from, e.g. the second argument of the listenForTrades callback.
+     */
+    handleTrade(event: TradeEvent, log: LogPosition) {
+        if (this.markSeen(log)) {
+            this.applyTrade(event.orderId, event.price, event.updatedSize, event.filledSize, event.takerAddress, log);
+        }
+    }
+
+    /**
+     * @dev Applies an OrdersCanceled event.
+     */
+    handleOrdersCanceled(orderIds: BigNumberish[], ownerAddress: string) {
+        this.cancelOrders(orderIds, ownerAddress);
+    }
+
+    /**
+     * @dev Returns the tracked state of an order, including canceled and filled orders.
+     */
+    getOrder(orderId: BigNumberish): TrackedOrder | undefined {
+        return this.orders.get(BigNumber.from(orderId).toString());
+    }
+
+    /**
+     * @dev Returns the owner's orders that are neither fully filled nor canceled, in creation order.
+     */
+    getOpenOrders(): TrackedOrder[] {
+        return Array.from(this.orders.values()).filter((order) => !order.isCanceled && order.remainingSize > 0);
+    }
+
+    getActiveOrders(): ActiveOrders {
+        return {
+            orderIds: this.getOpenOrders().map((order) => order.orderId),
+            blockNumber: this.blockNumber,
+        };
+    }
+
+    // ======================== INTERNAL HELPER FUNCTIONS ========================
+
+    /**
+     * @dev Records a log as applied. Returns false if it already was.
+     */
+    private markSeen(log: LogPosition): boolean {
+        const logKey = `${log.transactionHash}:${log.logIndex}`;
+        if (this.seenLogs.has(logKey)) {
+            return false;
+        }
+
+        this.seenLogs.set(logKey, log.blockNumber ?? 0);
+        if (log.blockNumber > this.blockNumber) {
+            this.blockNumber = log.blockNumber;
+            this.pruneSeenLogs();
+        }
+        return true;
+    }
+
+    private pruneSeenLogs() {
+        // Logs arrive in block order, so old keys are only needed to absorb small reorgs and overlapping ranges
+        const minBlock = this.blockNumber - 128;
+        for (const [logKey, blockNumber] of this.seenLogs) {
+            if (blockNumber < minBlock) {
+                this.seenLogs.delete(logKey);
+            }
+        }
+    }
+
+    private isOwner(address: string): boolean {
+        return address.toLowerCase() === this.ownerAddress;
+    }
+
+    private addOrder(
+        orderId: BigNumberish,
+        ownerAddress: string,
+        size: BigNumberish,
+        price: BigNumberish,
+        isBuy: boolean,
+        isFlip: boolean,
+    ) {
+        const key = BigNumber.from(orderId).toString();
+        if (!this.isOwner(ownerAddress) || this.orders.has(key)) {
+            return;
+        }
+
+        const formattedSize = this.formatSize(size);
+        this.orders.set(key, {
+            orderId: BigNumber.from(orderId),
+            price: parseFloat(ethers.utils.formatUnits(price, log10BigNumber(this.marketParams.pricePrecision))),
+            isBuy,
+            size: formattedSize,
+            remainingSize: formattedSize,
+            isCanceled: false,
+            isFlip,
+            fills: [],
+        });
+    }
+
+    private applyTrade(
+        orderId: BigNumberish,
+        price: BigNumberish,
+        updatedSize: BigNumberish,
+        filledSize: BigNumberish,
+        takerAddress: string,
+        log: LogPosition,
+    ) {
+        const order = this.orders.get(BigNumber.from(orderId).toString());
+        if (!order) {
+            return;
+        }
+
+        // Trade events carry the maker's remaining size, so fills never drift from the chain
+        order.remainingSize = this.formatSize(updatedSize);
+        order.fills.push({
+            // Trade prices are always emitted with 18 decimals
+            price: parseFloat(ethers.utils.formatUnits(price, 18)),
+            filledSize: this.formatSize(filledSize),
+            takerAddress,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+        });
+    }
+
+    private updateRemainingSize(orderId: BigNumberish, size: BigNumberish) {
+        const order = this.orders.get(BigNumber.from(orderId).toString());
+        if (order) {
+            order.remainingSize = this.formatSize(size);
+        }
+    }
+
+    private cancelOrders(orderIds: BigNumberish[], ownerAddress: string) {
+        if (!this.isOwner(ownerAddress)) {
+            return;
+        }
+
+        for (const orderId of orderIds) {
+            const order = this.orders.get(BigNumber.from(orderId).toString());
+            if (order) {
+                order.isCanceled = true;
+            }
+        }
+    }
+
+    private formatSize(size: BigNumberish): number {
+        return parseFloat(ethers.utils.formatUnits(size, log10BigNumber(this.marketParams.sizePrecision)));
+    }
+}
@@ -1,5 +1,5 @@
 // ============ External Imports ============
-import { ethers, BigNumber } from 'ethers';
+import { ethers, BigNumber, BigNumberish } from 'ethers';
 
 // ============ Internal Imports ============
 import {
@@ -9,6 +9,8 @@ import {
     MarketParams,
     VaultParams,
     WssTradeEvent,
+    PriceLevel,
+    PreciseOrderBookData,
 } from '../types';
 import { log10BigNumber, mulDivRound } from '../utils';
 
@@ -21,6 +23,8 @@ export abstract class OrderBook {
      * @param providerOrSigner - The ethers.js provider to interact with the blockchain.
      * @param orderbookAddress - The address of the order book contract.
      * @param marketParams - The market parameters including price and size precision.
+     * @param blockTag - Optional block to read at. Defaults to the latest block. The vault parameters are
+     *                   always read at the block of the L2 book.
      * @returns A promise that resolves to the order book data.
      */
     static async getL2OrderBook(
@@ -29,19 +33,20 @@ export abstract class OrderBook {
         marketParams: MarketParams,
         l2Book?: any,
         contractVaultParams?: any,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<OrderBookData> {
         const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
 
         let data = l2Book;
         if (!data) {
-            data = await orderbook.getL2Book({ from: ethers.constants.AddressZero });
+            data = await orderbook.getL2Book({ from: ethers.constants.AddressZero, blockTag });
         }
 
         let offset = 66; // Start reading after the block number
         const blockNumber = parseInt(data.slice(2, 66), 16); // The block number is stored in the first 64 bytes after '0x'
 
-        let manualBids: number[][] = [];
-        let manualAsks: number[][] = [];
+        let manualBids: PriceLevel[] = [];
+        let manualAsks: PriceLevel[] = [];
 
         // Decode bids
         while (offset < data.length) {
@@ -52,10 +57,7 @@ export abstract class OrderBook {
             }
             const size = BigNumber.from('0x' + data.slice(offset, offset + 64));
             offset += 64; // Skip over padding
-            manualBids.push([
-                parseFloat(ethers.utils.formatUnits(price, log10BigNumber(marketParams.pricePrecision))),
-                parseFloat(ethers.utils.formatUnits(size, log10BigNumber(marketParams.sizePrecision))),
-            ]);
+            manualBids.push({ price: scaleOrderPrice(price, marketParams), size });
         }
 
         // Decode asks
@@ -67,39 +69,33 @@ export abstract class OrderBook {
             }
             const size = BigNumber.from('0x' + data.slice(offset, offset + 64));
             offset += 64; // Skip over padding
-            manualAsks.push([
-                parseFloat(ethers.utils.formatUnits(price, log10BigNumber(marketParams.pricePrecision))),
-                parseFloat(ethers.utils.formatUnits(size, log10BigNumber(marketParams.sizePrecision))),
-            ]);
+            manualAsks.push({ price: scaleOrderPrice(price, marketParams), size });
         }
 
-        // Get AMM Prices
-        const { ammPrices, vaultParams } = await getAmmPrices(
-            providerOrSigner,
-            orderbookAddress,
-            marketParams,
-            blockNumber,
-            contractVaultParams,
-        );
+        // Get vault params for the AMM prices
+        const vaultParams = await getVaultParams(providerOrSigner, orderbookAddress, blockNumber, contractVaultParams);
 
         // Combine manual orders and AMM prices
-        const combinedBids = combinePrices(manualBids, ammPrices.bids);
-        const combinedAsks = combinePrices(manualAsks, ammPrices.asks);
+        return buildOrderBook({ bids: manualBids, asks: manualAsks }, vaultParams, blockNumber, marketParams);
+    }
 
-        // Sort bids and asks
-        combinedBids.sort((a, b) => b[0] - a[0]);
-        combinedAsks.sort((a, b) => b[0] - a[0]);
+    /**
+     * @dev Converts exact price levels to [price, size] pairs of floating-point numbers.
+     * @param levels - The price levels, e.g. from OrderBookData.precise.
+     * @param marketParams - The market parameters including size precision.
+     * @returns The levels as [price, size] pairs.
+     */
+    static toFloatLevels(levels: PriceLevel[], marketParams: MarketParams): number[][] {
+        return toFloatLevels(levels, log10BigNumber(marketParams.sizePrecision));
+    }
 
-        return {
-            bids: combinedBids,
-            asks: combinedAsks,
-            blockNumber,
-            manualOrders: {
-                bids: manualBids,
-                asks: manualAsks,
-            },
-            vaultParams,
-        };
+    /**
+     * @dev Computes the price levels of the AMM vault ladder, best price first on each side.
+     * @param vaultParams - The vault parameters, e.g. from OrderBookData.vaultParams.
+     * @returns The AMM price levels, with prices in 18 decimals and sizes in sizePrecision units.
+     */
+    static getAmmPrices(vaultParams: VaultParams): { bids: PriceLevel[]; asks: PriceLevel[] } {
+        return getAmmPricesFromVaultParams(vaultParams);
     }
 
     static reconcileOrderCreated(
@@ -107,62 +103,22 @@ export abstract class OrderBook {
         marketParams: MarketParams,
         orderEvent: WssOrderEvent,
     ): OrderBookData {
-        // Create deep copies to prevent mutations
-        const newOrderBook: OrderBookData = {
-            ...existingOrderBook,
-            manualOrders: {
-                bids: [...existingOrderBook.manualOrders.bids],
-                asks: [...existingOrderBook.manualOrders.asks],
-            },
-        };
-
-        // Convert size and price to floating-point numbers
-        const orderSize = parseFloat(
-            ethers.utils.formatUnits(orderEvent.size, log10BigNumber(marketParams.sizePrecision)),
-        );
-        const orderPrice = parseFloat(
-            ethers.utils.formatUnits(orderEvent.price, log10BigNumber(marketParams.pricePrecision)),
-        );
-
-        // Determine which side of the book to update
-        const sideToUpdate = orderEvent.isBuy ? newOrderBook.manualOrders.bids : newOrderBook.manualOrders.asks;
+        const manualOrders = { ...existingOrderBook.precise.manualOrders };
+        const orderPrice = scaleOrderPrice(orderEvent.price, marketParams);
 
-        // Find if there's an existing order at this price
-        const existingOrderIndex = sideToUpdate.findIndex(([price, _]) => price === orderPrice);
-
-        if (existingOrderIndex !== -1) {
-            // If an order at this price exists, update its size
-            sideToUpdate[existingOrderIndex][1] += orderSize;
+        // Add the order to its side of the book and keep bids descending and asks ascending
+        if (orderEvent.isBuy) {
+            manualOrders.bids = sortLevels(addToLevel(manualOrders.bids, orderPrice, orderEvent.size), true);
         } else {
-            // If no order at this price exists, add a new order
-            sideToUpdate.push([orderPrice, orderSize]);
-
-            // Re-sort the manual orders
-            if (orderEvent.isBuy) {
-                newOrderBook.manualOrders.bids.sort((a, b) => b[0] - a[0]); // Descending
-            } else {
-                newOrderBook.manualOrders.asks.sort((a, b) => a[0] - b[0]); // Ascending
-            }
+            manualOrders.asks = sortLevels(addToLevel(manualOrders.asks, orderPrice, orderEvent.size), false);
         }
 
-        // Recombine manual orders with AMM prices
-        const ammPrices = getAmmPricesFromVaultParams(newOrderBook.vaultParams, marketParams);
-
-        const combinedBids = combinePrices(newOrderBook.manualOrders.bids, ammPrices.bids);
-        const combinedAsks = combinePrices(newOrderBook.manualOrders.asks, ammPrices.asks);
-
-        // Sort combined orders
-        combinedBids.sort((a, b) => b[0] - a[0]);
-        combinedAsks.sort((a, b) => b[0] - a[0]);
-
-        // Update bids and asks
-        newOrderBook.bids = combinedBids;
-        newOrderBook.asks = combinedAsks;
-
-        // Update the block number
-        newOrderBook.blockNumber = orderEvent.blockNumber.toNumber();
-
-        return newOrderBook;
+        return buildOrderBook(
+            manualOrders,
+            existingOrderBook.vaultParams,
+            orderEvent.blockNumber.toNumber(),
+            marketParams,
+        );
     }
 
     static reconcileCanceledOrders(
@@ -170,60 +126,26 @@ export abstract class OrderBook {
         marketParams: MarketParams,
         canceledOrderEvent: WssCanceledOrderEvent,
     ): OrderBookData {
-        // Create deep copies to prevent mutations
-        const newOrderBook: OrderBookData = {
-            ...existingOrderBook,
-            manualOrders: {
-                bids: [...existingOrderBook.manualOrders.bids],
-                asks: [...existingOrderBook.manualOrders.asks],
-            },
-        };
+        const manualOrders = { ...existingOrderBook.precise.manualOrders };
 
         for (const canceledOrder of canceledOrderEvent.canceledOrdersData) {
-            // Convert size and price to floating-point numbers
-            const orderSize = parseFloat(
-                ethers.utils.formatUnits(canceledOrder.size, log10BigNumber(marketParams.sizePrecision)),
-            );
-            const orderPrice = parseFloat(
-                ethers.utils.formatUnits(canceledOrder.price, log10BigNumber(marketParams.pricePrecision)),
-            );
-
-            // Determine which side of the book to update
-            const sideToUpdate = canceledOrder.isbuy ? newOrderBook.manualOrders.bids : newOrderBook.manualOrders.asks;
-
-            // Find the existing order at this price
-            const existingOrderIndex = sideToUpdate.findIndex(([price, _]) => price === orderPrice);
-
-            if (existingOrderIndex !== -1) {
-                // If an order at this price exists, reduce its size
-                sideToUpdate[existingOrderIndex][1] -= orderSize;
+            const orderPrice = scaleOrderPrice(canceledOrder.price, marketParams);
+            const orderSize = BigNumber.from(canceledOrder.size);
 
-                // If the size becomes zero or negative, remove the order
-                if (sideToUpdate[existingOrderIndex][1] <= 0) {
-                    sideToUpdate.splice(existingOrderIndex, 1);
-                }
-            }
             // If the order doesn't exist in our book, we don't need to do anything
+            if (canceledOrder.isbuy) {
+                manualOrders.bids = removeFromLevel(manualOrders.bids, orderPrice, orderSize);
+            } else {
+                manualOrders.asks = removeFromLevel(manualOrders.asks, orderPrice, orderSize);
+            }
         }
 
-        // Recombine manual orders with AMM prices
-        const ammPrices = getAmmPricesFromVaultParams(newOrderBook.vaultParams, marketParams);
-
-        const combinedBids = combinePrices(newOrderBook.manualOrders.bids, ammPrices.bids);
-        const combinedAsks = combinePrices(newOrderBook.manualOrders.asks, ammPrices.asks);
-
-        // Sort combined orders
-        combinedBids.sort((a, b) => b[0] - a[0]);
-        combinedAsks.sort((a, b) => b[0] - a[0]);
-
-        // Update bids and asks
-        newOrderBook.bids = combinedBids;
-        newOrderBook.asks = combinedAsks;
-
-        // Update the block number
-        newOrderBook.blockNumber = parseInt(canceledOrderEvent.canceledOrdersData[0].blocknumber, 16);
-
-        return newOrderBook;
+        return buildOrderBook(
+            manualOrders,
+            existingOrderBook.vaultParams,
+            parseInt(canceledOrderEvent.canceledOrdersData[0].blocknumber, 16),
+            marketParams,
+        );
     }
 
     static reconcileTradeEvent(
@@ -231,162 +153,26 @@ export abstract class OrderBook {
         marketParams: MarketParams,
         tradeEvent: WssTradeEvent,
     ): OrderBookData {
-        // Create deep copies to prevent mutations
-        const newOrderBook: OrderBookData = {
-            ...existingOrderBook,
-            vaultParams: { ...existingOrderBook.vaultParams },
-            manualOrders: {
-                bids: [...existingOrderBook.manualOrders.bids],
-                asks: [...existingOrderBook.manualOrders.asks],
-            },
-        };
-
-        const tradePrice = parseFloat(ethers.utils.formatUnits(tradeEvent.price, 18));
+        const blockNumber = parseInt(tradeEvent.blockNumber, 10);
 
         if (tradeEvent.orderId === 0) {
             // Trade involves AMM order
-            const spreadConstant = newOrderBook.vaultParams.spread.div(BigNumber.from(10));
-
-            const updatedSizeBN = BigNumber.from(tradeEvent.updatedSize);
-
-            if (tradeEvent.isBuy) {
-                // Trader is buying, AMM is selling (ask side)
-
-                if (updatedSizeBN.isZero()) {
-                    // Move to next price level and create new orders
-                    newOrderBook.vaultParams.vaultBestAsk = mulDivRound(
-                        newOrderBook.vaultParams.vaultBestAsk,
-                        BigNumber.from(1000).add(spreadConstant),
-                        BigNumber.from(1000),
-                    );
-
-                    // Update bid price based on new ask price
-                    newOrderBook.vaultParams.vaultBestBid = mulDivRound(
-                        newOrderBook.vaultParams.vaultBestAsk,
-                        BigNumber.from(1000),
-                        BigNumber.from(1000).add(spreadConstant),
-                    );
-
-                    // Update order sizes
-                    newOrderBook.vaultParams.vaultAskOrderSize = mulDivRound(
-                        newOrderBook.vaultParams.vaultAskOrderSize,
-                        BigNumber.from(2000),
-                        BigNumber.from(2000).add(spreadConstant),
-                    );
-                    newOrderBook.vaultParams.vaultBidOrderSize = mulDivRound(
-                        newOrderBook.vaultParams.vaultAskOrderSize,
-                        BigNumber.from(2000).add(spreadConstant),
-                        BigNumber.from(2000),
-                    );
-
-                    // Reset partially filled sizes for new price level
-                    newOrderBook.vaultParams.askPartiallyFilledSize = BigNumber.from(0);
-                    newOrderBook.vaultParams.bidPartiallyFilledSize = mulDivRound(
-                        newOrderBook.vaultParams.bidPartiallyFilledSize,
-                        BigNumber.from(1000),
-                        BigNumber.from(1000).add(spreadConstant),
-                    );
-                } else {
-                    // Update partially filled size for current price level
-                    newOrderBook.vaultParams.askPartiallyFilledSize =
-                        newOrderBook.vaultParams.vaultAskOrderSize.sub(updatedSizeBN);
-                }
-            } else {
-                // Trader is selling, AMM is buying (bid side)
-
-                if (updatedSizeBN.isZero()) {
-                    // Move to next price level and create new orders
-                    newOrderBook.vaultParams.vaultBestBid = mulDivRound(
-                        newOrderBook.vaultParams.vaultBestBid,
-                        BigNumber.from(1000),
-                        BigNumber.from(1000).add(spreadConstant),
-                    );
-
-                    // Update ask price based on new bid price
-                    newOrderBook.vaultParams.vaultBestAsk = mulDivRound(
-                        newOrderBook.vaultParams.vaultBestBid,
-                        BigNumber.from(1000).add(spreadConstant),
-                        BigNumber.from(1000),
-                    );
-
-                    // Update order sizes
-                    newOrderBook.vaultParams.vaultBidOrderSize = mulDivRound(
-                        newOrderBook.vaultParams.vaultBidOrderSize,
-                        BigNumber.from(2000).add(spreadConstant),
-                        BigNumber.from(2000),
-                    );
-                    newOrderBook.vaultParams.vaultAskOrderSize = mulDivRound(
-                        newOrderBook.vaultParams.vaultBidOrderSize,
-                        BigNumber.from(2000),
-                        BigNumber.from(2000).add(spreadConstant),
-                    );
-
-                    // Reset partially filled sizes for new price level
-                    newOrderBook.vaultParams.bidPartiallyFilledSize = BigNumber.from(0);
-                } else {
-                    // Update partially filled size for current price level
-                    newOrderBook.vaultParams.bidPartiallyFilledSize =
-                        newOrderBook.vaultParams.vaultBidOrderSize.sub(updatedSizeBN);
-                }
-            }
-
-            // After updating the vault parameters, recalculate the AMM prices
-            const ammPrices = getAmmPricesFromVaultParams(newOrderBook.vaultParams, marketParams);
-
-            // Recombine manual orders with updated AMM prices
-            const combinedBids = combinePrices(newOrderBook.manualOrders.bids, ammPrices.bids);
-            const combinedAsks = combinePrices(newOrderBook.manualOrders.asks, ammPrices.asks);
+            const vaultParams = applyAmmTrade(existingOrderBook.vaultParams, tradeEvent);
+            return buildOrderBook(existingOrderBook.precise.manualOrders, vaultParams, blockNumber, marketParams);
+        }
 
-            // Sort combined orders
-            combinedBids.sort((a, b) => b[0] - a[0]);
-            combinedAsks.sort((a, b) => b[0] - a[0]);
+        // Trade involves manual order, which rests on the opposite side of the taker
+        const manualOrders = { ...existingOrderBook.precise.manualOrders };
+        const tradePrice = BigNumber.from(tradeEvent.price);
+        const filledSize = BigNumber.from(tradeEvent.filledSize);
 
-            // Update bids and asks
-            newOrderBook.bids = combinedBids;
-            newOrderBook.asks = combinedAsks;
+        if (tradeEvent.isBuy) {
+            manualOrders.asks = removeFromLevel(manualOrders.asks, tradePrice, filledSize);
         } else {
-            // Trade involves manual order
-            // Convert filled size to float for manual orders
-            const filledSize = parseFloat(
-                ethers.utils.formatUnits(tradeEvent.filledSize, log10BigNumber(marketParams.sizePrecision)),
-            );
-
-            // Determine which side of the book to update
-            const sideToUpdate = tradeEvent.isBuy ? newOrderBook.manualOrders.asks : newOrderBook.manualOrders.bids;
-
-            // Find the existing order at this price
-            const existingOrderIndex = sideToUpdate.findIndex(([price, _]) => price === tradePrice);
-
-            if (existingOrderIndex !== -1) {
-                // If an order at this price exists, reduce its size
-                sideToUpdate[existingOrderIndex][1] -= filledSize;
-
-                // If the size becomes zero or negative, remove the order
-                if (sideToUpdate[existingOrderIndex][1] <= 0) {
-                    sideToUpdate.splice(existingOrderIndex, 1);
-                }
-            }
-            // If the order doesn't exist in our book, we don't need to do anything
-
-            // Recombine manual orders with AMM prices
-            const ammPrices = getAmmPricesFromVaultParams(newOrderBook.vaultParams, marketParams);
-
-            const combinedBids = combinePrices(newOrderBook.manualOrders.bids, ammPrices.bids);
-            const combinedAsks = combinePrices(newOrderBook.manualOrders.asks, ammPrices.asks);
-
-            // Sort combined orders
-            combinedBids.sort((a, b) => b[0] - a[0]);
-            combinedAsks.sort((a, b) => b[0] - a[0]);
-
-            // Update bids and asks
-            newOrderBook.bids = combinedBids;
-            newOrderBook.asks = combinedAsks;
+            manualOrders.bids = removeFromLevel(manualOrders.bids, tradePrice, filledSize);
         }
 
-        // Update the block number
-        newOrderBook.blockNumber = parseInt(tradeEvent.blockNumber, 10);
-
-        return newOrderBook;
+        return buildOrderBook(manualOrders, existingOrderBook.vaultParams, blockNumber, marketParams);
     }
 
     static async getFormattedL2OrderBook(
@@ -395,6 +181,7 @@ export abstract class OrderBook {
         marketParams: MarketParams,
         l2Book?: any,
         contractVaultParams?: any,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<OrderBookData> {
         // First get the regular order book
         const orderBook = await OrderBook.getL2OrderBook(
@@ -403,60 +190,17 @@ export abstract class OrderBook {
             marketParams,
             l2Book,
             contractVaultParams,
+            blockTag,
         );
 
-        // Calculate decimals based on pricePrecision and tickSize
-        const pricePrecisionDecimals = log10BigNumber(marketParams.pricePrecision);
-        const tickSizeDecimals = log10BigNumber(marketParams.tickSize);
-        const decimals = pricePrecisionDecimals - tickSizeDecimals;
-
-        // Helper functions to format price according to precision
-        const formatAskPrice = (price: number): number => {
-            const multiplier = Math.pow(10, decimals);
-            return Math.ceil(price * multiplier) / multiplier;
-        };
-
-        const formatBidPrice = (price: number): number => {
-            const multiplier = Math.pow(10, decimals);
-            return Math.floor(price * multiplier) / multiplier;
-        };
-
-        // Helper function to group orders by price and sum sizes
-        const groupOrders = (orders: number[][], roundingFn: (price: number) => number): number[][] => {
-            const priceMap = new Map<number, number>();
-
-            orders.forEach(([price, size]) => {
-                const roundedPrice = roundingFn(price);
-                priceMap.set(roundedPrice, (priceMap.get(roundedPrice) || 0) + size);
-            });
-
-            return Array.from(priceMap.entries()).map(([price, size]) => [price, size]);
-        };
-
-        // Format and group bids (round down)
-        const formattedBids = groupOrders(orderBook.bids, formatBidPrice).sort((a, b) => b[0] - a[0]);
-
-        // Format and group asks (round up)
-        const formattedAsks = groupOrders(orderBook.asks, formatAskPrice).sort((a, b) => b[0] - a[0]);
-
-        // Format and group manual orders
-        const formattedManualBids = groupOrders(orderBook.manualOrders.bids, formatBidPrice).sort(
-            (a, b) => b[0] - a[0],
-        );
-
-        const formattedManualAsks = groupOrders(orderBook.manualOrders.asks, formatAskPrice).sort(
-            (a, b) => b[0] - a[0],
+        // Round bids down and asks up to the tick size and group them by price
+        return buildOrderBook(
+            orderBook.precise.manualOrders,
+            orderBook.vaultParams,
+            orderBook.blockNumber,
+            marketParams,
+            true,
         );
-
-        return {
-            ...orderBook,
-            bids: formattedBids,
-            asks: formattedAsks,
-            manualOrders: {
-                bids: formattedManualBids,
-                asks: formattedManualAsks,
-            },
-        };
     }
 
     static reconcileFormattedTradeEvent(
@@ -464,188 +208,26 @@ export abstract class OrderBook {
         marketParams: MarketParams,
         tradeEvent: WssTradeEvent,
     ): OrderBookData {
-        // Create deep copies to prevent mutations
-        const newOrderBook: OrderBookData = {
-            ...existingOrderBook,
-            vaultParams: { ...existingOrderBook.vaultParams },
-            manualOrders: {
-                bids: [...existingOrderBook.manualOrders.bids],
-                asks: [...existingOrderBook.manualOrders.asks],
-            },
-        };
-
-        // Calculate decimals for price formatting
-        const pricePrecisionDecimals = log10BigNumber(marketParams.pricePrecision);
-        const tickSizeDecimals = log10BigNumber(marketParams.tickSize);
-        const decimals = pricePrecisionDecimals - tickSizeDecimals;
-
-        // Helper functions for price formatting
-        const formatPrice = (price: number, isAsk: boolean): number => {
-            const multiplier = Math.pow(10, decimals);
-            return isAsk
-                ? Math.ceil(price * multiplier) / multiplier // Round up for asks
-                : Math.floor(price * multiplier) / multiplier; // Round down for bids
-        };
+        const blockNumber = parseInt(tradeEvent.blockNumber, 10);
 
         if (tradeEvent.orderId === 0) {
             // Handle AMM trade
-            const spreadConstant = newOrderBook.vaultParams.spread.div(BigNumber.from(10));
-            const updatedSizeBN = BigNumber.from(tradeEvent.updatedSize);
-
-            if (tradeEvent.isBuy) {
-                // AMM is selling (ask side)
-                if (updatedSizeBN.isZero()) {
-                    // Move to next price level and create new orders
-                    newOrderBook.vaultParams.vaultBestAsk = mulDivRound(
-                        newOrderBook.vaultParams.vaultBestAsk,
-                        BigNumber.from(1000).add(spreadConstant),
-                        BigNumber.from(1000),
-                    );
-
-                    // Update bid price based on new ask price
-                    newOrderBook.vaultParams.vaultBestBid = mulDivRound(
-                        newOrderBook.vaultParams.vaultBestAsk,
-                        BigNumber.from(1000),
-                        BigNumber.from(1000).add(spreadConstant),
-                    );
-
-                    // Update order sizes
-                    newOrderBook.vaultParams.vaultAskOrderSize = mulDivRound(
-                        newOrderBook.vaultParams.vaultAskOrderSize,
-                        BigNumber.from(2000),
-                        BigNumber.from(2000).add(spreadConstant),
-                    );
-                    newOrderBook.vaultParams.vaultBidOrderSize = mulDivRound(
-                        newOrderBook.vaultParams.vaultAskOrderSize,
-                        BigNumber.from(2000).add(spreadConstant),
-                        BigNumber.from(2000),
-                    );
-
-                    // Reset partially filled sizes for new price level
-                    newOrderBook.vaultParams.askPartiallyFilledSize = BigNumber.from(0);
-                    newOrderBook.vaultParams.bidPartiallyFilledSize = mulDivRound(
-                        newOrderBook.vaultParams.bidPartiallyFilledSize,
-                        BigNumber.from(1000),
-                        BigNumber.from(1000).add(spreadConstant),
-                    );
-                } else {
-                    // Update partially filled size for current price level
-                    newOrderBook.vaultParams.askPartiallyFilledSize =
-                        newOrderBook.vaultParams.vaultAskOrderSize.sub(updatedSizeBN);
-                }
-            } else {
-                // AMM is buying (bid side)
-                if (updatedSizeBN.isZero()) {
-                    // Move to next price level and create new orders
-                    newOrderBook.vaultParams.vaultBestBid = mulDivRound(
-                        newOrderBook.vaultParams.vaultBestBid,
-                        BigNumber.from(1000),
-                        BigNumber.from(1000).add(spreadConstant),
-                    );
-
-                    // Update ask price based on new bid price
-                    newOrderBook.vaultParams.vaultBestAsk = mulDivRound(
-                        newOrderBook.vaultParams.vaultBestBid,
-                        BigNumber.from(1000).add(spreadConstant),
-                        BigNumber.from(1000),
-                    );
-
-                    // Update order sizes
-                    newOrderBook.vaultParams.vaultBidOrderSize = mulDivRound(
-                        newOrderBook.vaultParams.vaultBidOrderSize,
-                        BigNumber.from(2000).add(spreadConstant),
-                        BigNumber.from(2000),
-                    );
-                    newOrderBook.vaultParams.vaultAskOrderSize = mulDivRound(
-                        newOrderBook.vaultParams.vaultBidOrderSize,
-                        BigNumber.from(2000),
-                        BigNumber.from(2000).add(spreadConstant),
-                    );
-
-                    // Reset partially filled sizes for new price level
-                    newOrderBook.vaultParams.bidPartiallyFilledSize = BigNumber.from(0);
-                } else {
-                    // Update partially filled size for current price level
-                    newOrderBook.vaultParams.bidPartiallyFilledSize =
-                        newOrderBook.vaultParams.vaultBidOrderSize.sub(updatedSizeBN);
-                }
-            }
-
-            // Recalculate AMM prices with updated vault params
-            const ammPrices = getAmmPricesFromVaultParams(newOrderBook.vaultParams, marketParams);
-
-            // Group and format orders
-            const groupAndFormatOrders = (orders: number[][], isAsk: boolean): number[][] => {
-                const priceMap = new Map<number, number>();
-
-                orders.forEach(([price, size]) => {
-                    const formattedPrice = formatPrice(price, isAsk);
-                    priceMap.set(formattedPrice, (priceMap.get(formattedPrice) || 0) + size);
-                });
+            const vaultParams = applyAmmTrade(existingOrderBook.vaultParams, tradeEvent);
+            return buildOrderBook(existingOrderBook.precise.manualOrders, vaultParams, blockNumber, marketParams, true);
+        }
 
-                return Array.from(priceMap.entries())
-                    .filter(([_, size]) => size > 0)
-                    .sort((a, b) => b[0] - a[0]);
-            };
+        // Handle manual order trade, matching the trade price against the tick-rounded levels
+        const manualOrders = { ...existingOrderBook.precise.manualOrders };
+        const tradePrice = roundToTick(BigNumber.from(tradeEvent.price), marketParams, tradeEvent.isBuy);
+        const filledSize = BigNumber.from(tradeEvent.filledSize);
 
-            // Update order book with formatted orders
-            newOrderBook.bids = groupAndFormatOrders([...newOrderBook.manualOrders.bids, ...ammPrices.bids], false);
-            newOrderBook.asks = groupAndFormatOrders([...newOrderBook.manualOrders.asks, ...ammPrices.asks], true);
-            newOrderBook.manualOrders.bids = groupAndFormatOrders(newOrderBook.manualOrders.bids, false);
-            newOrderBook.manualOrders.asks = groupAndFormatOrders(newOrderBook.manualOrders.asks, true);
+        if (tradeEvent.isBuy) {
+            manualOrders.asks = removeFromLevel(manualOrders.asks, tradePrice, filledSize);
         } else {
-            // Handle manual order trade
-            const filledSize = parseFloat(
-                ethers.utils.formatUnits(tradeEvent.filledSize, log10BigNumber(marketParams.sizePrecision)),
-            );
-
-            // Convert trade price to formatted number
-            const rawTradePrice = parseFloat(ethers.utils.formatUnits(tradeEvent.price, 18));
-            const formattedTradePrice = formatPrice(rawTradePrice, tradeEvent.isBuy);
-
-            // Update the appropriate side of the book
-            const sideToUpdate = tradeEvent.isBuy
-                ? newOrderBook.manualOrders.asks // If buyer, reduce ask side
-                : newOrderBook.manualOrders.bids; // If seller, reduce bid side
-
-            const existingOrderIndex = sideToUpdate.findIndex(
-                ([price]) => Math.abs(price - formattedTradePrice) < Number.EPSILON,
-            );
-
-            if (existingOrderIndex !== -1) {
-                sideToUpdate[existingOrderIndex][1] -= filledSize;
-                if (sideToUpdate[existingOrderIndex][1] <= 0) {
-                    sideToUpdate.splice(existingOrderIndex, 1);
-                }
-            }
-
-            // Group and format orders
-            const groupAndFormatOrders = (orders: number[][], isAsk: boolean): number[][] => {
-                const priceMap = new Map<number, number>();
-
-                orders.forEach(([price, size]) => {
-                    const formattedPrice = formatPrice(price, isAsk);
-                    priceMap.set(formattedPrice, (priceMap.get(formattedPrice) || 0) + size);
-                });
-
-                return Array.from(priceMap.entries())
-                    .filter(([_, size]) => size > 0)
-                    .sort((a, b) => b[0] - a[0]);
-            };
-            // Recombine manual orders with AMM prices
-            const ammPrices = getAmmPricesFromVaultParams(newOrderBook.vaultParams, marketParams);
-
-            // Update order book with formatted orders
-            newOrderBook.bids = groupAndFormatOrders([...newOrderBook.manualOrders.bids, ...ammPrices.bids], false);
-            newOrderBook.asks = groupAndFormatOrders([...newOrderBook.manualOrders.asks, ...ammPrices.asks], true);
-            newOrderBook.manualOrders.bids = groupAndFormatOrders(newOrderBook.manualOrders.bids, false);
-            newOrderBook.manualOrders.asks = groupAndFormatOrders(newOrderBook.manualOrders.asks, true);
+            manualOrders.bids = removeFromLevel(manualOrders.bids, tradePrice, filledSize);
         }
 
-        // Update block number
-        newOrderBook.blockNumber = parseInt(tradeEvent.blockNumber, 10);
-
-        return newOrderBook;
+        return buildOrderBook(manualOrders, existingOrderBook.vaultParams, blockNumber, marketParams, true);
     }
 
     static reconcileFormattedCanceledOrders(
@@ -653,85 +235,31 @@ export abstract class OrderBook {
         marketParams: MarketParams,
         canceledOrderEvent: WssCanceledOrderEvent,
     ): OrderBookData {
-        // Create deep copies to prevent mutations
-        const newOrderBook: OrderBookData = {
-            ...existingOrderBook,
-            vaultParams: { ...existingOrderBook.vaultParams },
-            manualOrders: {
-                bids: [...existingOrderBook.manualOrders.bids],
-                asks: [...existingOrderBook.manualOrders.asks],
-            },
-        };
-
-        // Calculate decimals for price formatting
-        const pricePrecisionDecimals = log10BigNumber(marketParams.pricePrecision);
-        const tickSizeDecimals = log10BigNumber(marketParams.tickSize);
-        const decimals = pricePrecisionDecimals - tickSizeDecimals;
-
-        // Helper functions for price formatting
-        const formatPrice = (price: number, isAsk: boolean): number => {
-            const multiplier = Math.pow(10, decimals);
-            return isAsk
-                ? Math.ceil(price * multiplier) / multiplier // Round up for asks
-                : Math.floor(price * multiplier) / multiplier; // Round down for bids
-        };
+        const manualOrders = { ...existingOrderBook.precise.manualOrders };
 
         for (const canceledOrder of canceledOrderEvent.canceledOrdersData) {
-            // Convert size and price to floating-point numbers
-            const orderSize = parseFloat(
-                ethers.utils.formatUnits(canceledOrder.size, log10BigNumber(marketParams.sizePrecision)),
-            );
-            const rawPrice = parseFloat(
-                ethers.utils.formatUnits(canceledOrder.price, log10BigNumber(marketParams.pricePrecision)),
-            );
-
             // Format the price according to tick size
-            const formattedPrice = formatPrice(rawPrice, !canceledOrder.isbuy);
-
-            // Determine which side of the book to update
-            const sideToUpdate = canceledOrder.isbuy ? newOrderBook.manualOrders.bids : newOrderBook.manualOrders.asks;
-
-            // Find the existing order at this price - using exact match since these are manual orders
-            const existingOrderIndex = sideToUpdate.findIndex(([price]) => price === formattedPrice);
-
-            if (existingOrderIndex !== -1) {
-                // If an order at this price exists, reduce its size
-                sideToUpdate[existingOrderIndex][1] -= orderSize;
+            const orderPrice = roundToTick(
+                scaleOrderPrice(canceledOrder.price, marketParams),
+                marketParams,
+                !canceledOrder.isbuy,
+            );
+            const orderSize = BigNumber.from(canceledOrder.size);
 
-                // If the size becomes zero or negative, remove the order
-                if (sideToUpdate[existingOrderIndex][1] <= 0) {
-                    sideToUpdate.splice(existingOrderIndex, 1);
-                }
+            if (canceledOrder.isbuy) {
+                manualOrders.bids = removeFromLevel(manualOrders.bids, orderPrice, orderSize);
+            } else {
+                manualOrders.asks = removeFromLevel(manualOrders.asks, orderPrice, orderSize);
             }
         }
 
-        // Group and format orders
-        const groupAndFormatOrders = (orders: number[][], isAsk: boolean): number[][] => {
-            const priceMap = new Map<number, number>();
-
-            orders.forEach(([price, size]) => {
-                const formattedPrice = formatPrice(price, isAsk);
-                priceMap.set(formattedPrice, (priceMap.get(formattedPrice) || 0) + size);
-            });
-
-            return Array.from(priceMap.entries())
-                .filter(([_, size]) => size > 0)
-                .sort((a, b) => b[0] - a[0]);
-        };
-
-        // Recombine manual orders with AMM prices
-        const ammPrices = getAmmPricesFromVaultParams(newOrderBook.vaultParams, marketParams);
-
-        // Update order book with formatted orders
-        newOrderBook.bids = groupAndFormatOrders([...newOrderBook.manualOrders.bids, ...ammPrices.bids], false);
-        newOrderBook.asks = groupAndFormatOrders([...newOrderBook.manualOrders.asks, ...ammPrices.asks], true);
-        newOrderBook.manualOrders.bids = groupAndFormatOrders(newOrderBook.manualOrders.bids, false);
-        newOrderBook.manualOrders.asks = groupAndFormatOrders(newOrderBook.manualOrders.asks, true);
-
-        // Update the block number
-        newOrderBook.blockNumber = parseInt(canceledOrderEvent.canceledOrdersData[0].blocknumber, 16);
-
-        return newOrderBook;
+        return buildOrderBook(
+            manualOrders,
+            existingOrderBook.vaultParams,
+            parseInt(canceledOrderEvent.canceledOrdersData[0].blocknumber, 16),
+            marketParams,
+            true,
+        );
     }
 
     static reconcileFormattedOrderCreated(
@@ -739,100 +267,45 @@ export abstract class OrderBook {
         marketParams: MarketParams,
         orderEvent: WssOrderEvent,
     ): OrderBookData {
-        // Create deep copies to prevent mutations
-        const newOrderBook: OrderBookData = {
-            ...existingOrderBook,
-            manualOrders: {
-                bids: [...existingOrderBook.manualOrders.bids],
-                asks: [...existingOrderBook.manualOrders.asks],
-            },
-        };
-
-        // Calculate decimals for price formatting
-        const pricePrecisionDecimals = log10BigNumber(marketParams.pricePrecision);
-        const tickSizeDecimals = log10BigNumber(marketParams.tickSize);
-        const decimals = pricePrecisionDecimals - tickSizeDecimals;
-
-        // Helper functions for price formatting
-        const formatPrice = (price: number, isAsk: boolean): number => {
-            const multiplier = Math.pow(10, decimals);
-            return isAsk
-                ? Math.ceil(price * multiplier) / multiplier // Round up for asks
-                : Math.floor(price * multiplier) / multiplier; // Round down for bids
-        };
-
-        // Convert size and price to floating-point numbers
-        const orderSize = parseFloat(
-            ethers.utils.formatUnits(orderEvent.size, log10BigNumber(marketParams.sizePrecision)),
-        );
-        const rawPrice = parseFloat(
-            ethers.utils.formatUnits(orderEvent.price, log10BigNumber(marketParams.pricePrecision)),
-        );
+        const manualOrders = { ...existingOrderBook.precise.manualOrders };
 
         // Format the price according to tick size
-        const formattedPrice = formatPrice(rawPrice, !orderEvent.isBuy);
-
-        // Determine which side of the book to update
-        const sideToUpdate = orderEvent.isBuy ? newOrderBook.manualOrders.bids : newOrderBook.manualOrders.asks;
-
-        // Find if there's an existing order at this price - using exact match since these are manual orders
-        const existingOrderIndex = sideToUpdate.findIndex(([price]) => price === formattedPrice);
+        const orderPrice = roundToTick(
+            scaleOrderPrice(orderEvent.price, marketParams),
+            marketParams,
+            !orderEvent.isBuy,
+        );
 
-        if (existingOrderIndex !== -1) {
-            // If an order at this price exists, update its size
-            sideToUpdate[existingOrderIndex][1] += orderSize;
+        if (orderEvent.isBuy) {
+            manualOrders.bids = addToLevel(manualOrders.bids, orderPrice, orderEvent.size);
         } else {
-            // If no order at this price exists, add a new order
-            sideToUpdate.push([formattedPrice, orderSize]);
+            manualOrders.asks = addToLevel(manualOrders.asks, orderPrice, orderEvent.size);
         }
 
-        // Group and format orders
-        const groupAndFormatOrders = (orders: number[][], isAsk: boolean): number[][] => {
-            const priceMap = new Map<number, number>();
-
-            orders.forEach(([price, size]) => {
-                const formattedPrice = formatPrice(price, isAsk);
-                priceMap.set(formattedPrice, (priceMap.get(formattedPrice) || 0) + size);
-            });
-
-            return Array.from(priceMap.entries())
-                .filter(([_, size]) => size > 0)
-                .sort((a, b) => b[0] - a[0]);
-        };
-
-        // Recombine manual orders with AMM prices
-        const ammPrices = getAmmPricesFromVaultParams(newOrderBook.vaultParams, marketParams);
-
-        // Update order book with formatted orders
-        newOrderBook.bids = groupAndFormatOrders([...newOrderBook.manualOrders.bids, ...ammPrices.bids], false);
-        newOrderBook.asks = groupAndFormatOrders([...newOrderBook.manualOrders.asks, ...ammPrices.asks], true);
-        newOrderBook.manualOrders.bids = groupAndFormatOrders(newOrderBook.manualOrders.bids, false);
-        newOrderBook.manualOrders.asks = groupAndFormatOrders(newOrderBook.manualOrders.asks, true);
-
-        // Update the block number
-        newOrderBook.blockNumber = orderEvent.blockNumber.toNumber();
-
-        return newOrderBook;
+        return buildOrderBook(
+            manualOrders,
+            existingOrderBook.vaultParams,
+            orderEvent.blockNumber.toNumber(),
+            marketParams,
+            true,
+        );
     }
 }
 
 /**
- * @dev Retrieves only the AMM prices from the order book contract.
+ * @dev Retrieves the vault parameters from the order book contract at the given block.
  * @param providerOrSigner - The ethers.js provider to interact with the blockchain.
  * @param orderbookAddress - The address of the order book contract.
- * @param marketParams - The market parameters including price and size precision.
- * @returns A promise that resolves to the AMM prices data.
+ * @param blockNumber - The block number of the L2 book snapshot.
+ * @param contractVaultParams - Optional pre-fetched getVaultParams result.
+ * @returns A promise that resolves to the vault parameters.
  */
-async function getAmmPrices(
+async function getVaultParams(
     providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
     orderbookAddress: string,
-    marketParams: MarketParams,
     blockNumber: number,
     contractVaultParams: any,
-): Promise<{
-    ammPrices: { bids: number[][]; asks: number[][] };
-    vaultParams: VaultParams;
-}> {
+): Promise<VaultParams> {
     const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
 
     let vaultParamsData = contractVaultParams;
@@ -850,7 +323,7 @@ async function getAmmPrices(
         vaultParamsData = orderbook.interface.decodeFunctionResult('getVaultParams', vaultParamsData);
     }
 
-    const vaultParams: VaultParams = {
+    return {
         kuruAmmVault: vaultParamsData[0],
         vaultBestBid: BigNumber.from(vaultParamsData[1]),
         bidPartiallyFilledSize: BigNumber.from(vaultParamsData[2]),
@@ -860,22 +333,14 @@ async function getAmmPrices(
         vaultAskOrderSize: BigNumber.from(vaultParamsData[6]),
         spread: BigNumber.from(vaultParamsData[7]),
     };
-
-    const ammPrices = getAmmPricesFromVaultParams(vaultParams, marketParams);
-
-    return { ammPrices, vaultParams };
 }
 
 /**
  * @dev Recalculates the AMM prices based on updated vault parameters.
  * @param vaultParams - The updated vault parameters.
- * @param marketParams - The market parameters including price and size precision.
- * @returns The recalculated AMM prices.
+ * @returns The AMM price levels, with prices in 18 decimals and sizes in sizePrecision units.
  */
-function getAmmPricesFromVaultParams(
-    vaultParams: VaultParams,
-    marketParams: MarketParams,
-): { bids: number[][]; asks: number[][] } {
+function getAmmPricesFromVaultParams(vaultParams: VaultParams): { bids: PriceLevel[]; asks: PriceLevel[] } {
     let {
         vaultBestAsk,
         vaultBestBid,
@@ -886,8 +351,8 @@ function getAmmPricesFromVaultParams(
         spread,
     } = vaultParams;
 
-    let bids: number[][] = [];
-    let asks: number[][] = [];
+    let bids: PriceLevel[] = [];
+    let asks: PriceLevel[] = [];
 
     if (vaultBidOrderSize.isZero() || vaultParams.kuruAmmVault === ethers.constants.AddressZero) {
         return { bids, asks };
@@ -908,12 +373,7 @@ function getAmmPricesFromVaultParams(
     for (let i = 0; i < 300; i++) {
         if (currentBidPrice.isZero()) break;
 
-        const size = i === 0 ? firstBidOrderSize : currentBidSize;
-
-        bids.push([
-            parseFloat(ethers.utils.formatUnits(currentBidPrice, 18)),
-            parseFloat(ethers.utils.formatUnits(size, log10BigNumber(marketParams.sizePrecision))),
-        ]);
+        bids.push({ price: currentBidPrice, size: i === 0 ? firstBidOrderSize : currentBidSize });
 
         // Next bid price = currentPrice * 1000 / (1000 + spreadConstant)
         currentBidPrice = mulDivRound(currentBidPrice, BigNumber.from(1000), BigNumber.from(1000).add(spreadConstant));
@@ -926,12 +386,7 @@ function getAmmPricesFromVaultParams(
     for (let i = 0; i < 300; i++) {
         if (currentAskPrice.gte(ethers.constants.MaxUint256)) break;
 
-        const size = i === 0 ? firstAskOrderSize : currentAskSize;
-
-        asks.push([
-            parseFloat(ethers.utils.formatUnits(currentAskPrice, 18)),
-            parseFloat(ethers.utils.formatUnits(size, log10BigNumber(marketParams.sizePrecision))),
-        ]);
+        asks.push({ price: currentAskPrice, size: i === 0 ? firstAskOrderSize : currentAskSize });
 
         // Next ask price = currentPrice * (1000 + spreadConstant) / 1000
         currentAskPrice = mulDivRound(currentAskPrice, BigNumber.from(1000).add(spreadConstant), BigNumber.from(1000));
@@ -944,24 +399,238 @@ function getAmmPricesFromVaultParams(
 }
 
 /**
- * @dev Combines two price arrays, summing sizes for duplicate prices.
- * @param originalPrices - The original prices array.
- * @param additionalPrices - The additional prices array to merge.
- * @returns The combined prices array.
+ * @dev Applies an AMM trade to the vault parameters, moving the vault to the next price level when
+ *      the current level is fully filled.
+ * @param existingVaultParams - The vault parameters before the trade.
+ * @param tradeEvent - The trade event with orderId 0.
+ * @returns The updated vault parameters.
  */
-function combinePrices(originalPrices: number[][], additionalPrices: number[][]): number[][] {
-    const priceMap = new Map<number, number>();
+function applyAmmTrade(existingVaultParams: VaultParams, tradeEvent: WssTradeEvent): VaultParams {
+    const vaultParams = { ...existingVaultParams };
+    const spreadConstant = vaultParams.spread.div(BigNumber.from(10));
+    const updatedSizeBN = BigNumber.from(tradeEvent.updatedSize);
+
+    if (tradeEvent.isBuy) {
+        // Trader is buying, AMM is selling (ask side)
+
+        if (updatedSizeBN.isZero()) {
+            // Move to next price level and create new orders
+            vaultParams.vaultBestAsk = mulDivRound(
+                vaultParams.vaultBestAsk,
+                BigNumber.from(1000).add(spreadConstant),
+                BigNumber.from(1000),
+            );
 
-    // Add original prices to map
-    originalPrices.forEach(([price, size]) => {
-        priceMap.set(price, (priceMap.get(price) || 0) + size);
+            // Update bid price based on new ask price
+            vaultParams.vaultBestBid = mulDivRound(
+                vaultParams.vaultBestAsk,
+                BigNumber.from(1000),
+                BigNumber.from(1000).add(spreadConstant),
+            );
+
+            // Update order sizes
+            vaultParams.vaultAskOrderSize = mulDivRound(
+                vaultParams.vaultAskOrderSize,
+                BigNumber.from(2000),
+                BigNumber.from(2000).add(spreadConstant),
+            );
+            vaultParams.vaultBidOrderSize = mulDivRound(
+                vaultParams.vaultAskOrderSize,
+                BigNumber.from(2000).add(spreadConstant),
+                BigNumber.from(2000),
+            );
+
+            // Reset partially filled sizes for new price level
+            vaultParams.askPartiallyFilledSize = BigNumber.from(0);
+            vaultParams.bidPartiallyFilledSize = mulDivRound(
+                vaultParams.bidPartiallyFilledSize,
+                BigNumber.from(1000),
+                BigNumber.from(1000).add(spreadConstant),
+            );
+        } else {
+            // Update partially filled size for current price level
+            vaultParams.askPartiallyFilledSize = vaultParams.vaultAskOrderSize.sub(updatedSizeBN);
+        }
+    } else {
+        // Trader is selling, AMM is buying (bid side)
+
+        if (updatedSizeBN.isZero()) {
+            // Move to next price level and create new orders
+            vaultParams.vaultBestBid = mulDivRound(
+                vaultParams.vaultBestBid,
+                BigNumber.from(1000),
+                BigNumber.from(1000).add(spreadConstant),
+            );
+
+            // Update ask price based on new bid price
+            vaultParams.vaultBestAsk = mulDivRound(
+                vaultParams.vaultBestBid,
+                BigNumber.from(1000).add(spreadConstant),
+                BigNumber.from(1000),
+            );
+
+            // Update order sizes
+            vaultParams.vaultBidOrderSize = mulDivRound(
+                vaultParams.vaultBidOrderSize,
+                BigNumber.from(2000).add(spreadConstant),
+                BigNumber.from(2000),
+            );
+            vaultParams.vaultAskOrderSize = mulDivRound(
+                vaultParams.vaultBidOrderSize,
+                BigNumber.from(2000),
+                BigNumber.from(2000).add(spreadConstant),
+            );
+
+            // Reset partially filled sizes for new price level
+            vaultParams.bidPartiallyFilledSize = BigNumber.from(0);
+        } else {
+            // Update partially filled size for current price level
+            vaultParams.bidPartiallyFilledSize = vaultParams.vaultBidOrderSize.sub(updatedSizeBN);
+        }
+    }
+
+    return vaultParams;
+}
+
+/**
+ * @dev Combines the manual orders with the AMM prices and derives the floating-point views.
+ * @param manualOrders - The exact manual order levels.
+ * @param vaultParams - The vault parameters used to compute the AMM prices.
+ * @param blockNumber - The block number the book reflects.
+ * @param marketParams - The market parameters including price, size and tick precision.
+ * @param formatted - Whether to round bids down and asks up to the tick size.
+ * @returns The order book data.
+ */
+function buildOrderBook(
+    manualOrders: { bids: PriceLevel[]; asks: PriceLevel[] },
+    vaultParams: VaultParams,
+    blockNumber: number,
+    marketParams: MarketParams,
+    formatted: boolean = false,
+): OrderBookData {
+    const ammPrices = getAmmPricesFromVaultParams(vaultParams);
+
+    let precise: PreciseOrderBookData;
+    if (formatted) {
+        precise = {
+            bids: sortLevels(roundLevels([...manualOrders.bids, ...ammPrices.bids], marketParams, false), true),
+            asks: sortLevels(roundLevels([...manualOrders.asks, ...ammPrices.asks], marketParams, true), true),
+            manualOrders: {
+                bids: sortLevels(roundLevels(manualOrders.bids, marketParams, false), true),
+                asks: sortLevels(roundLevels(manualOrders.asks, marketParams, true), true),
+            },
+            isFormatted: true,
+        };
+    } else {
+        precise = {
+            bids: sortLevels(combineLevels([...manualOrders.bids, ...ammPrices.bids]), true),
+            asks: sortLevels(combineLevels([...manualOrders.asks, ...ammPrices.asks]), true),
+            manualOrders,
+        };
+    }
+
+    const sizePrecision = log10BigNumber(marketParams.sizePrecision);
+
+    return {
+        bids: toFloatLevels(precise.bids, sizePrecision),
+        asks: toFloatLevels(precise.asks, sizePrecision),
+        blockNumber,
+        manualOrders: {
+            bids: toFloatLevels(precise.manualOrders.bids, sizePrecision),
+            asks: toFloatLevels(precise.manualOrders.asks, sizePrecision),
+        },
+        vaultParams,
+        precise,
+    };
+}
+
+/**
+ * @dev Scales an order price from pricePrecision units to 18 decimals, the precision of AMM prices.
+ */
+function scaleOrderPrice(price: BigNumberish, marketParams: MarketParams): BigNumber {
+    return BigNumber.from(price).mul(ethers.constants.WeiPerEther).div(marketParams.pricePrecision);
+}
+
+/**
+ * @dev Rounds a price in 18 decimals to the tick size, up for asks and down for bids.
+ */
+function roundToTick(price: BigNumber, marketParams: MarketParams, roundUp: boolean): BigNumber {
+    const decimals = log10BigNumber(marketParams.pricePrecision) - log10BigNumber(marketParams.tickSize);
+    const unit = BigNumber.from(10).pow(18 - decimals);
+    const remainder = price.mod(unit);
+
+    if (remainder.isZero()) {
+        return price;
+    }
+
+    return roundUp ? price.sub(remainder).add(unit) : price.sub(remainder);
+}
+
+/**
+ * @dev Groups levels by price, summing their sizes. Levels keep the order in which their price first appears.
+ */
+function combineLevels(levels: PriceLevel[]): PriceLevel[] {
+    const sizeByPrice = new Map<string, PriceLevel>();
+
+    levels.forEach(({ price, size }) => {
+        const key = price.toString();
+        const existing = sizeByPrice.get(key);
+        sizeByPrice.set(key, { price, size: existing ? existing.size.add(size) : size });
     });
 
-    // Add additional prices to map
-    additionalPrices.forEach(([price, size]) => {
-        priceMap.set(price, (priceMap.get(price) || 0) + size);
+    return Array.from(sizeByPrice.values());
+}
+
+/**
+ * @dev Rounds levels to the tick size, groups them by the rounded price and drops empty levels.
+ */
+function roundLevels(levels: PriceLevel[], marketParams: MarketParams, roundUp: boolean): PriceLevel[] {
+    return combineLevels(
+        levels.map(({ price, size }) => ({ price: roundToTick(price, marketParams, roundUp), size })),
+    ).filter(({ size }) => size.gt(0));
+}
+
+function sortLevels(levels: PriceLevel[], descending: boolean): PriceLevel[] {
+    return [...levels].sort((a, b) => {
+        const [high, low] = descending ? [a, b] : [b, a];
+        return high.price.gt(low.price) ? -1 : high.price.lt(low.price) ? 1 : 0;
     });
+}
+
+/**
+ * @dev Adds size at a price, creating the level if it does not exist.
+ */
+function addToLevel(levels: PriceLevel[], price: BigNumber, size: BigNumber): PriceLevel[] {
+    const index = levels.findIndex((level) => level.price.eq(price));
+
+    if (index === -1) {
+        return [...levels, { price, size }];
+    }
+
+    return levels.map((level, i) => (i === index ? { price, size: level.size.add(size) } : level));
+}
+
+/**
+ * @dev Removes size at a price, dropping the level once it is empty. Unknown prices are ignored.
+ */
+function removeFromLevel(levels: PriceLevel[], price: BigNumber, size: BigNumber): PriceLevel[] {
+    const index = levels.findIndex((level) => level.price.eq(price));
+
+    if (index === -1) {
+        return levels;
+    }
+
+    const remaining = levels[index].size.sub(size);
+    if (remaining.lte(0)) {
+        return levels.filter((_, i) => i !== index);
+    }
+
+    return levels.map((level, i) => (i === index ? { price, size: remaining } : level));
+}
 
-    // Convert map back to array
-    return Array.from(priceMap.entries()).map(([price, size]) => [price, size]);
+function toFloatLevels(levels: PriceLevel[], sizePrecision: number): number[][] {
+    return levels.map(({ price, size }) => [
+        parseFloat(ethers.utils.formatUnits(price, 18)),
+        parseFloat(ethers.utils.formatUnits(size, sizePrecision)),
+    ]);
 }
@@ -13,16 +13,18 @@ export abstract class Orders {
      * @param providerOrSigner - The ethers.js provider to interact with the blockchain.
      * @param orderbookAddress - The address of the order book contract.
      * @param orderId - The ID of the order.
+     * @param blockTag - Optional block to read at. Defaults to the latest block.
      * @returns A promise that resolves to an Order object containing order details.
      */
     static async getOrder(
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
         orderId: number,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<Order> {
         const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
 
-        const order: Order = await orderbook.s_orders(orderId, { from: ethers.constants.AddressZero });
+        const order: Order = await orderbook.s_orders(orderId, { from: ethers.constants.AddressZero, blockTag });
 
         return order;
     }
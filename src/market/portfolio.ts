@@ -0,0 +1,352 @@
+// ============ External Imports ============
+import { BigNumber, ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import {
+    CostBasisMethod,
+    MarginTransfer,
+    MarketParams,
+    OrderBookData,
+    PortfolioPosition,
+    PortfolioLot,
+} from '../types';
+import { getProvider, log10BigNumber } from '../utils';
+import { OrderBook } from './orderBook';
+
+// ============ Config Imports ============
+import orderbookAbi from '../../abi/OrderBook.json';
+import marginAccountAbi from '../../abi/MarginAccount.json';
+
+const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+const marginAccountInterface = new ethers.utils.Interface(marginAccountAbi.abi);
+
+export interface PortfolioLedgerOptions {
+    /** Defaults to 'fifo'. */
+    method?: CostBasisMethod;
+    /** Margin account whose Deposit and Withdrawal events are tracked. */
+    marginAccountAddress?: string;
+    /** Maximum number of blocks per getLogs request when syncing. Defaults to 10000. */
+    maxBlockRange?: number;
+}
+
+interface LedgerMarket {
+    marketParams: MarketParams;
+    position: PortfolioPosition;
+    /** The open lots in sizePrecision units. */
+    lots: PortfolioLot[];
+}
+
+/**
+ * @dev Tracks the positions, PnL and fees of a wallet from the Trade events of the markets it trades, where it is
+ *      either maker or taker, and its margin account transfers.
+ */
+export class PortfolioLedger {
+    private markets: Map<string, LedgerMarket> = new Map();
+    private transfers: MarginTransfer[] = [];
+    private seenLogs: Map<string, number> = new Map();
+    private blockNumber: number = 0;
+    private readonly walletAddress: string;
+    private readonly method: CostBasisMethod;
+    private readonly marginAccountAddress?: string;
+    private readonly maxBlockRange: number;
+
+    constructor(
+        private readonly providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        walletAddress: string,
+        options: PortfolioLedgerOptions = {},
+    ) {
+        this.walletAddress = walletAddress.toLowerCase();
+        this.method = options.method ?? 'fifo';
+        this.marginAccountAddress = options.marginAccountAddress?.toLowerCase();
+        this.maxBlockRange = options.maxBlockRange ?? 10000;
+    }
+
+    /**
+     * @dev Starts tracking a market. Trades on markets that were not added are ignored.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param marketParams - The market parameters, used to scale sizes and charge fees.
+     */
+    addMarket(orderbookAddress: string, marketParams: MarketParams) {
+        const key = orderbookAddress.toLowerCase();
+        if (this.markets.has(key)) {
+            return;
+        }
+
+        this.markets.set(key, {
+            marketParams,
+            position: {
+                marketAddress: orderbookAddress,
+                size: 0,
+                averageEntryPrice: 0,
+                lots: [],
+                realizedPnl: 0,
+                unrealizedPnl: 0,
+                feesPaid: 0,
+                volume: 0,
+            },
+            lots: [],
+        });
+    }
+
+    /**
+     * @dev Replays the wallet's trades and margin transfers over a block range.
+     * @param fromBlock - The first block to scan, e.g. the block before the wallet's first trade.
+     * @param toBlock - The last block to scan. Defaults to the latest block.
+     */
+    async sync(fromBlock: number, toBlock?: number): Promise<void> {
+        const provider = getProvider(this.providerOrSigner);
+        const endBlock = toBlock ?? (await provider.getBlockNumber());
+
+        const sources: { address: string; topics: string[][] }[] = Array.from(this.markets.values()).map(
+            ({ position }) => ({
+                address: position.marketAddress,
+                topics: [[orderbookInterface.getEventTopic('Trade')]],
+            }),
+        );
+        if (this.marginAccountAddress) {
+            sources.push({
+                address: this.marginAccountAddress,
+                topics: [['Deposit', 'Withdrawal'].map((name) => marginAccountInterface.getEventTopic(name))],
+            });
+        }
+
+        for (const { address, topics } of sources) {
+            for (let start = fromBlock; start <= endBlock; start += this.maxBlockRange) {
+                const logs = await provider.getLogs({
+                    address,
+                    fromBlock: start,
+                    toBlock: Math.min(start + this.maxBlockRange - 1, endBlock),
+                    topics,
+                });
+                this.handleLogs(logs);
+            }
+        }
+    }
+
+    /**
+     * @dev Applies Trade, Deposit and Withdrawal logs, e.g. from a transaction receipt. Logs already applied within
+     *      the last 128 blocks, logs of untracked contracts and events of other wallets are skipped. Trades must be
+     *      applied in order.
+     * @param logs - The logs to apply.
+     */
+    handleLogs(logs: ethers.providers.Log[]) {
+        const sortedLogs = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+        for (const log of sortedLogs) {
+            const address = log.address.toLowerCase();
+            const market = this.markets.get(address);
+            const isMarginAccount = address === this.marginAccountAddress;
+            if (!market && !isMarginAccount) {
+                continue;
+            }
+
+            const logKey = `${log.transactionHash}:${log.logIndex}`;
+            if (this.seenLogs.has(logKey)) {
+                continue;
+            }
+
+            let parsed: ethers.utils.LogDescription;
+            try {
+                parsed = (market ? orderbookInterface : marginAccountInterface).parseLog(log);
+            } catch {
+                continue;
+            }
+
+            this.seenLogs.set(logKey, log.blockNumber);
+            this.blockNumber = Math.max(this.blockNumber, log.blockNumber);
+            const { args } = parsed;
+            if (market && parsed.name === 'Trade') {
+                this.applyTrade(market, args);
+            } else if (isMarginAccount && (parsed.name === 'Deposit' || parsed.name === 'Withdrawal')) {
+                if (!this.isWallet(args.owner)) {
+                    continue;
+                }
+
+                this.transfers.push({
+                    tokenAddress: args.token,
+                    amount: BigNumber.from(args.amount),
+                    isDeposit: parsed.name === 'Deposit',
+                    blockNumber: log.blockNumber,
+                    transactionHash: log.transactionHash,
+                });
+            }
+        }
+
+        this.pruneSeenLogs();
+    }
+
+    /**
+     * @dev Marks every position to the mid price of its market's order book.
+     * @param blockTag - Optional block to read the books at. Defaults to the latest block.
+     * @returns A promise that resolves to the marked positions.
+     */
+    async markToMarket(blockTag?: ethers.providers.BlockTag): Promise<PortfolioPosition[]> {
+        const provider = getProvider(this.providerOrSigner);
+
+        await Promise.all(
+            Array.from(this.markets.values()).map(async ({ marketParams, position }) => {
+                const orderBook = await OrderBook.getL2OrderBook(
+                    provider,
+                    position.marketAddress,
+                    marketParams,
+                    undefined,
+                    undefined,
+                    blockTag,
+                );
+                const midPrice = PortfolioLedger.getMidPrice(orderBook);
+                if (midPrice !== undefined) {
+                    this.setMarkPrice(position.marketAddress, midPrice);
+                }
+            }),
+        );
+
+        return this.getPositions();
+    }
+
+    /**
+     * @dev Marks a position to a price, e.g. from a LocalOrderBook or MarketHub.getTopOfBook.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param markPrice - The price in quote per base.
+     */
+    setMarkPrice(orderbookAddress: string, markPrice: number) {
+        const position = this.getMarket(orderbookAddress).position;
+        position.markPrice = markPrice;
+        position.unrealizedPnl = position.lots.reduce((pnl, lot) => pnl + lot.size * (markPrice - lot.price), 0);
+    }
+
+    getPosition(orderbookAddress: string): PortfolioPosition {
+        return this.getMarket(orderbookAddress).position;
+    }
+
+    getPositions(): PortfolioPosition[] {
+        return Array.from(this.markets.values()).map(({ position }) => position);
+    }
+
+    /**
+     * @dev Returns the wallet's margin account deposits and withdrawals in the order they were applied.
+     * @param tokenAddress - Optional token to filter by.
+     */
+    getTransfers(tokenAddress?: string): MarginTransfer[] {
+        return tokenAddress
+            ? this.transfers.filter((transfer) => transfer.tokenAddress.toLowerCase() === tokenAddress.toLowerCase())
+            : [...this.transfers];
+    }
+
+    /**
+     * @dev Returns the deposits minus the withdrawals of a token, in token decimals.
+     */
+    getNetDeposits(tokenAddress: string): BigNumber {
+        return this.getTransfers(tokenAddress).reduce(
+            (total, transfer) => (transfer.isDeposit ? total.add(transfer.amount) : total.sub(transfer.amount)),
+            BigNumber.from(0),
+        );
+    }
+
+    /**
+     * @dev Returns the mid price of an order book, or undefined if either side is empty.
+     *      Bids are sorted best first and asks worst first.
+     */
+    static getMidPrice(orderBook: OrderBookData): number | undefined {
+        const bestBid = orderBook.bids[0];
+        const bestAsk = orderBook.asks[orderBook.asks.length - 1];
+
+        return bestBid && bestAsk ? (bestBid[0] + bestAsk[0]) / 2 : undefined;
+    }
+
+    // ======================== INTERNAL HELPER FUNCTIONS ========================
+
+    private pruneSeenLogs() {
+        // Trades are applied in order, so old keys are only needed to absorb small reorgs and overlapping ranges
+        const minBlock = this.blockNumber - 128;
+        for (const [logKey, blockNumber] of this.seenLogs) {
+            if (blockNumber < minBlock) {
+                this.seenLogs.delete(logKey);
+            }
+        }
+    }
+
+    private getMarket(orderbookAddress: string): LedgerMarket {
+        const market = this.markets.get(orderbookAddress.toLowerCase());
+        if (!market) {
+            throw new Error(`Market ${orderbookAddress} is not tracked by the ledger`);
+        }
+        return market;
+    }
+
+    private isWallet(address: string): boolean {
+        return address.toLowerCase() === this.walletAddress;
+    }
+
+    private applyTrade(market: LedgerMarket, args: ethers.utils.Result) {
+        const isMaker = this.isWallet(args.makerAddress);
+        const isTaker = this.isWallet(args.takerAddress) || this.isWallet(args.txOrigin);
+        if (!isMaker && !isTaker) {
+            return;
+        }
+
+        const { marketParams, position } = market;
+        // Trade prices are always emitted with 18 decimals, and isBuy is the taker's side
+        const price = parseFloat(ethers.utils.formatUnits(args.price, 18));
+        // Sizes go through formatUnits, so fills above 2^53 units lose precision instead of throwing
+        const units = parseFloat(ethers.utils.formatUnits(args.filledSize, 0));
+        const size = parseFloat(ethers.utils.formatUnits(args.filledSize, log10BigNumber(marketParams.sizePrecision)));
+
+        // A self-trade applies both sides
+        const fills: { isBuy: boolean; feeBps: BigNumber }[] = [];
+        if (isTaker) {
+            fills.push({ isBuy: args.isBuy, feeBps: marketParams.takerFeeBps });
+        }
+        if (isMaker) {
+            fills.push({ isBuy: !args.isBuy, feeBps: marketParams.makerFeeBps });
+        }
+
+        for (const { isBuy, feeBps } of fills) {
+            // Fees are charged on the received asset, so both sides pay the same share of the notional
+            position.feesPaid += (size * price * feeBps.toNumber()) / 10000;
+            position.volume += size;
+            this.fill(market, isBuy ? units : -units, price);
+        }
+
+        if (position.markPrice !== undefined) {
+            this.setMarkPrice(position.marketAddress, position.markPrice);
+        }
+    }
+
+    /**
+     * @dev Applies a fill to the lots, which are kept in sizePrecision units so that closing a lot leaves no dust.
+     * @param delta - The signed fill in sizePrecision units, positive for buys.
+     */
+    private fill({ marketParams, position, lots }: LedgerMarket, delta: number, price: number) {
+        const sizePrecision = marketParams.sizePrecision.toNumber();
+        let remaining = delta;
+
+        // Close lots of the opposite side, oldest first
+        while (remaining !== 0 && lots.length > 0 && Math.sign(lots[0].size) !== Math.sign(remaining)) {
+            const lot = lots[0];
+            const closed = Math.min(Math.abs(remaining), Math.abs(lot.size)) * Math.sign(lot.size);
+
+            position.realizedPnl += (closed / sizePrecision) * (price - lot.price);
+            lot.size -= closed;
+            remaining += closed;
+            if (lot.size === 0) {
+                lots.shift();
+            }
+        }
+
+        if (remaining !== 0) {
+            if (this.method === 'average' && lots.length > 0) {
+                const lot = lots[0];
+                lot.price = (lot.size * lot.price + remaining * price) / (lot.size + remaining);
+                lot.size += remaining;
+            } else {
+                lots.push({ size: remaining, price });
+            }
+        }
+
+        const size = lots.reduce((total, lot) => total + lot.size, 0);
+        position.lots = lots.map((lot) => ({ size: lot.size / sizePrecision, price: lot.price }));
+        position.size = size / sizePrecision;
+        position.averageEntryPrice =
+            size === 0 ? 0 : lots.reduce((total, lot) => total + lot.size * lot.price, 0) / size;
+    }
+}
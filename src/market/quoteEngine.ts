@@ -0,0 +1,295 @@
+// ============ External Imports ============
+import { BigNumber, ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import { BATCH, LIMIT, MarketParams, OrderReceipt, TrackedOrder, TransactionOptions } from '../types';
+import { alignToStep, getProvider, log10BigNumber, toPricePrecision, toSizePrecision } from '../utils';
+import { OrderBatcher } from './batch';
+import { OpenOrderTracker } from './openOrders';
+
+/**
+ * A source of reference prices, e.g. an external exchange or an oracle.
+ */
+export interface PriceFeed {
+    /** Returns the reference price in quote per base. */
+    getPrice(): Promise<number>;
+}
+
+export interface QuoteLadderConfig {
+    /** Number of orders on each side. */
+    levels: number;
+    /** Distance between consecutive orders, in ticks. */
+    spacingTicks: number;
+    /** Distance of the first order on each side from the reference price, in ticks. Defaults to spacingTicks. */
+    offsetTicks?: number;
+    /** Size of every order, in base. */
+    sizePerLevel: string;
+    /** Inventory, in base, at which the ladder is centered on the reference price. Defaults to 0. */
+    targetInventory?: number;
+    /** Ticks the ladder moves down per unit of base held above the target, and up per unit below. Defaults to 0. */
+    skewTicksPerUnit?: number;
+    /** Resting orders within this many ticks of a desired price are kept instead of replaced. Defaults to 0. */
+    toleranceTicks?: number;
+    /** Defaults to true. */
+    postOnly?: boolean;
+}
+
+export interface QuoteEngineOptions {
+    /**
+     * Tracker of the signer's orders. Feed it order book events to keep fills and cancels in sync between updates.
+     * Defaults to a tracker that is synced from the chain before every update.
+     */
+    tracker?: OpenOrderTracker;
+    /**
+     * First block the default tracker scans for the signer's orders, e.g. the block before its first order on this
+     * market. Defaults to the latest block on first use, so orders resting from before are not seen.
+     */
+    fromBlock?: number;
+    /** Transaction options for every batchUpdate. */
+    txOptions?: TransactionOptions;
+}
+
+/** A desired order in on-chain units: pricePrecision for the price and sizePrecision for the size. */
+export interface QuoteLevel {
+    isBuy: boolean;
+    price: BigNumber;
+    size: BigNumber;
+}
+
+/**
+ * @dev Keeps a two-sided ladder of limit orders around a reference price. Each update diffs the desired ladder
+ *      against the resting orders and sends a single batchUpdate that only cancels and places what changed.
+ */
+export class QuoteEngine {
+    private tracker: OpenOrderTracker | null;
+    private readonly ownsTracker: boolean;
+    private updatePromise: Promise<OrderReceipt | undefined> | null = null;
+    private queuedUpdate: Promise<OrderReceipt | undefined> | null = null;
+    private queuedInventory?: number;
+    private readonly fromBlock?: number;
+    private readonly txOptions?: TransactionOptions;
+
+    constructor(
+        private readonly signer: ethers.Signer,
+        private readonly orderbookAddress: string,
+        private readonly marketParams: MarketParams,
+        private readonly priceFeed: PriceFeed,
+        private readonly config: QuoteLadderConfig,
+        options: QuoteEngineOptions = {},
+    ) {
+        this.tracker = options.tracker ?? null;
+        this.ownsTracker = !options.tracker;
+        this.fromBlock = options.fromBlock;
+        this.txOptions = options.txOptions;
+    }
+
+    /**
+     * @dev Builds the desired ladder around a reference price. Bids are rounded down and asks up to the tick size.
+     * @param marketParams - The market parameters including price and size precision and tick size.
+     * @param config - The ladder configuration.
+     * @param referencePrice - The reference price in quote per base.
+     * @param inventory - The base held, used to skew the ladder. Defaults to the target inventory.
+     * @returns The desired orders, bids then asks, each best first.
+     */
+    static buildLadder(
+        marketParams: MarketParams,
+        config: QuoteLadderConfig,
+        referencePrice: number,
+        inventory: number = config.targetInventory ?? 0,
+    ): QuoteLevel[] {
+        const tickSize = marketParams.tickSize;
+        const size = toSizePrecision(config.sizePerLevel, marketParams);
+        const offsetTicks = config.offsetTicks ?? config.spacingTicks;
+        const skewTicks = Math.round((inventory - (config.targetInventory ?? 0)) * (config.skewTicksPerUnit ?? 0));
+        const center = toPricePrecision(referencePrice, marketParams, true, 'nearest').sub(tickSize.mul(skewTicks));
+
+        const bids: QuoteLevel[] = [];
+        const asks: QuoteLevel[] = [];
+        for (let level = 0; level < config.levels; level++) {
+            const distance = tickSize.mul(offsetTicks + level * config.spacingTicks);
+
+            const bidPrice = alignToStep(center.sub(distance), tickSize, 'floor');
+            if (bidPrice.gt(0)) {
+                bids.push({ isBuy: true, price: bidPrice, size });
+            }
+            asks.push({ isBuy: false, price: alignToStep(center.add(distance), tickSize, 'ceil'), size });
+        }
+
+        return [...bids, ...asks];
+    }
+
+    /**
+     * @dev Computes the smallest batch that turns the resting orders into the desired ladder. A resting order is kept
+     *      if it is on the same side, within the tolerance of a desired price and has at least the desired size left.
+     * @param marketParams - The market parameters including price and size precision and tick size.
+     * @param desired - The desired orders returned by buildLadder.
+     * @param resting - The open orders, e.g. from OpenOrderTracker.getOpenOrders.
+     * @param toleranceTicks - How far from a desired price a resting order may be and still be kept. Defaults to 0.
+     * @returns The orders to place and the order IDs to cancel.
+     */
+    static diff(
+        marketParams: MarketParams,
+        desired: QuoteLevel[],
+        resting: TrackedOrder[],
+        toleranceTicks: number = 0,
+    ): { place: QuoteLevel[]; cancel: BigNumber[] } {
+        const tolerance = marketParams.tickSize.mul(toleranceTicks);
+        const remaining = resting.map((order) => ({
+            orderId: order.orderId,
+            isBuy: order.isBuy,
+            price: toPricePrecision(order.price, marketParams, order.isBuy, 'nearest'),
+            size: toSizePrecision(order.remainingSize, marketParams, 'nearest'),
+        }));
+
+        const place: QuoteLevel[] = [];
+        for (const level of desired) {
+            const index = remaining.findIndex(
+                (order) =>
+                    order.isBuy === level.isBuy &&
+                    order.price.sub(level.price).abs().lte(tolerance) &&
+                    order.size.gte(level.size),
+            );
+
+            if (index === -1) {
+                place.push(level);
+            } else {
+                remaining.splice(index, 1);
+            }
+        }
+
+        return { place, cancel: remaining.map((order) => order.orderId) };
+    }
+
+    /**
+     * @dev Reads the reference price and computes the batch for the next update without sending it.
+     * @param inventory - The base held, used to skew the ladder. Defaults to the target inventory.
+     * @returns A promise that resolves to the batch, with empty lists when the resting orders already match.
+     */
+    async plan(inventory?: number): Promise<BATCH> {
+        const [referencePrice, tracker] = await Promise.all([this.priceFeed.getPrice(), this.getSyncedTracker()]);
+
+        const desired = QuoteEngine.buildLadder(this.marketParams, this.config, referencePrice, inventory);
+        const { place, cancel } = QuoteEngine.diff(
+            this.marketParams,
+            desired,
+            tracker.getOpenOrders(),
+            this.config.toleranceTicks,
+        );
+
+        return this.toBatch(place, cancel);
+    }
+
+    /**
+     * @dev Moves the ladder to the current reference price. Updates never overlap: calls made while one is in flight
+     *      queue a single next update, which runs once it settles with the inventory of the latest call.
+     * @param inventory - The base held, used to skew the ladder. Defaults to the target inventory.
+     * @returns A promise that resolves to the receipt, or undefined if nothing had to change.
+     */
+    update(inventory?: number): Promise<OrderReceipt | undefined> {
+        if (!this.updatePromise && !this.queuedUpdate) {
+            return this.startUpdate(inventory);
+        }
+
+        this.queuedInventory = inventory;
+        if (!this.queuedUpdate) {
+            // The in-flight update's error belongs to its own callers
+            this.queuedUpdate = this.updatePromise!.catch(() => undefined).then(() => {
+                this.queuedUpdate = null;
+                return this.startUpdate(this.queuedInventory);
+            });
+        }
+        return this.queuedUpdate;
+    }
+
+    /**
+     * @dev Cancels every resting order of the ladder.
+     * @returns A promise that resolves to the receipt, or undefined if no order was resting.
+     */
+    async cancelAll(): Promise<OrderReceipt | undefined> {
+        const tracker = await this.getSyncedTracker();
+        const cancel = tracker.getOpenOrders().map((order) => order.orderId);
+
+        return this.send(this.toBatch([], cancel));
+    }
+
+    /**
+     * @dev Returns the orders currently resting according to the tracker.
+     */
+    async getRestingOrders(): Promise<TrackedOrder[]> {
+        const tracker = await this.getSyncedTracker();
+        return tracker.getOpenOrders();
+    }
+
+    // ======================== INTERNAL HELPER FUNCTIONS ========================
+
+    private async getTracker(): Promise<OpenOrderTracker> {
+        if (!this.tracker) {
+            this.tracker = new OpenOrderTracker(
+                this.signer,
+                this.orderbookAddress,
+                this.marketParams,
+                await this.signer.getAddress(),
+            );
+        }
+
+        return this.tracker;
+    }
+
+    private startUpdate(inventory?: number): Promise<OrderReceipt | undefined> {
+        this.updatePromise = this.plan(inventory)
+            .then((batch) => this.send(batch))
+            .finally(() => {
+                this.updatePromise = null;
+            });
+
+        return this.updatePromise;
+    }
+
+    /**
+     * @dev Catches the default tracker up on fills and cancels since the last block it handled, so orders
+     *      filled by other traders are neither kept on the ladder nor canceled. Logs it already applied are skipped.
+     *      The first sync starts at fromBlock.
+     */
+    private async getSyncedTracker(): Promise<OpenOrderTracker> {
+        const tracker = await this.getTracker();
+        if (!this.ownsTracker) {
+            return tracker;
+        }
+
+        const { blockNumber } = tracker.getActiveOrders();
+        if (blockNumber > 0) {
+            await tracker.sync(blockNumber);
+        } else {
+            const latestBlock = await getProvider(this.signer).getBlockNumber();
+            await tracker.sync(this.fromBlock ?? latestBlock, latestBlock);
+        }
+        return tracker;
+    }
+
+    private toBatch(place: QuoteLevel[], cancel: BigNumber[]): BATCH {
+        const postOnly = this.config.postOnly ?? true;
+        const priceDecimals = log10BigNumber(this.marketParams.pricePrecision);
+        const sizeDecimals = log10BigNumber(this.marketParams.sizePrecision);
+
+        const limitOrders: LIMIT[] = place.map((level) => ({
+            price: ethers.utils.formatUnits(level.price, priceDecimals),
+            size: ethers.utils.formatUnits(level.size, sizeDecimals),
+            isBuy: level.isBuy,
+            postOnly,
+        }));
+
+        return { limitOrders, cancelOrders: cancel, postOnly, txOptions: this.txOptions };
+    }
+
+    private async send(batch: BATCH): Promise<OrderReceipt | undefined> {
+        if (batch.limitOrders.length === 0 && batch.cancelOrders.length === 0) {
+            return undefined;
+        }
+
+        const receipt = await OrderBatcher.batchUpdate(this.signer, this.orderbookAddress, this.marketParams, batch);
+        const tracker = await this.getTracker();
+        tracker.handleLogs(receipt.logs);
+
+        return receipt;
+    }
+}
@@ -0,0 +1,228 @@
+// ============ External Imports ============
+import { BigNumber, ContractReceipt, ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import { DecodedOrderBookEvent, DecodedReceipt, MarketParams, OrderReceipt, OrderResult } from '../types';
+import { log10BigNumber } from '../utils';
+
+// ============ Config Imports ============
+import orderbookAbi from '../../abi/OrderBook.json';
+
+const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
+export abstract class ReceiptDecoder {
+    /**
+     * @dev Decodes the order book events emitted in a transaction receipt.
+     * @param receipt - The transaction receipt.
+     * @param marketParams - The market parameters used to scale prices and sizes.
+     * @param orderbookAddress - Optional order book address; logs emitted by other contracts are ignored when set.
+     * @returns The decoded events, both in emission order and grouped by event name.
+     */
+    static decode(receipt: ContractReceipt, marketParams: MarketParams, orderbookAddress?: string): DecodedReceipt {
+        const pricePrecision = log10BigNumber(marketParams.pricePrecision);
+        const sizePrecision = log10BigNumber(marketParams.sizePrecision);
+
+        const formatPrice = (price: BigNumber): number => parseFloat(ethers.utils.formatUnits(price, pricePrecision));
+        const formatSize = (size: BigNumber): number => parseFloat(ethers.utils.formatUnits(size, sizePrecision));
+
+        const decoded: DecodedReceipt = {
+            events: [],
+            ordersCreated: [],
+            trades: [],
+            ordersCanceled: [],
+            flipOrdersCreated: [],
+            flipOrdersUpdated: [],
+            flipOrdersCanceled: [],
+        };
+
+        for (const log of receipt.logs) {
+            if (orderbookAddress && log.address.toLowerCase() !== orderbookAddress.toLowerCase()) {
+                continue;
+            }
+
+            let parsed: ethers.utils.LogDescription;
+            try {
+                parsed = orderbookInterface.parseLog(log);
+            } catch {
+                // Not an order book event (e.g. ERC20 transfers or margin account events)
+                continue;
+            }
+
+            const { args } = parsed;
+            let event: DecodedOrderBookEvent;
+
+            switch (parsed.name) {
+                case 'OrderCreated':
+                    event = {
+                        name: 'OrderCreated',
+                        logIndex: log.logIndex,
+                        orderId: BigNumber.from(args.orderId),
+                        ownerAddress: args.owner,
+                        size: formatSize(args.size),
+                        price: formatPrice(args.price),
+                        isBuy: args.isBuy,
+                    };
+                    decoded.ordersCreated.push(event);
+                    break;
+                case 'Trade':
+                    event = {
+                        name: 'Trade',
+                        logIndex: log.logIndex,
+                        orderId: BigNumber.from(args.orderId),
+                        makerAddress: args.makerAddress,
+                        takerAddress: args.takerAddress,
+                        txOrigin: args.txOrigin,
+                        isBuy: args.isBuy,
+                        // Trade prices are always emitted with 18 decimals
+                        price: parseFloat(ethers.utils.formatUnits(args.price, 18)),
+                        updatedSize: formatSize(args.updatedSize),
+                        filledSize: formatSize(args.filledSize),
+                    };
+                    decoded.trades.push(event);
+                    break;
+                case 'OrdersCanceled':
+                    event = {
+                        name: 'OrdersCanceled',
+                        logIndex: log.logIndex,
+                        orderIds: args.orderId.map((orderId: BigNumber) => BigNumber.from(orderId)),
+                        ownerAddress: args.owner,
+                    };
+                    decoded.ordersCanceled.push(event);
+                    break;
+                case 'FlipOrderCreated':
+                case 'FlippedOrderCreated':
+                    event = {
+                        name: parsed.name,
+                        logIndex: log.logIndex,
+                        orderId: BigNumber.from(args.orderId),
+                        flippedId: BigNumber.from(args.flippedId),
+                        ownerAddress: args.owner,
+                        size: formatSize(args.size),
+                        price: formatPrice(args.price),
+                        flippedPrice: formatPrice(args.flippedPrice),
+                        isBuy: args.isBuy,
+                    };
+                    decoded.flipOrdersCreated.push(event);
+                    break;
+                case 'FlipOrderUpdated':
+                    event = {
+                        name: 'FlipOrderUpdated',
+                        logIndex: log.logIndex,
+                        orderId: BigNumber.from(args.orderId),
+                        size: formatSize(args.size),
+                    };
+                    decoded.flipOrdersUpdated.push(event);
+                    break;
+                case 'FlipOrdersCanceled':
+                    event = {
+                        name: 'FlipOrdersCanceled',
+                        logIndex: log.logIndex,
+                        orderIds: args.orderIds.map((orderId: BigNumber) => BigNumber.from(orderId)),
+                        ownerAddress: args.owner,
+                    };
+                    decoded.flipOrdersCanceled.push(event);
+                    break;
+                default:
+                    continue;
+            }
+
+            decoded.events.push(event);
+        }
+
+        return decoded;
+    }
+
+    /**
+     * @dev Summarizes a placement receipt from the point of view of the account that sent it.
+     *      Fees are the taker fees charged on the asset received: base for buys, quote for sells.
+     * @param receipt - The transaction receipt.
+     * @param marketParams - The market parameters used to scale prices and sizes.
+     * @param userAddress - Optional address of the account that placed the orders; all events are counted when omitted.
+     * @param orderbookAddress - Optional order book address; logs emitted by other contracts are ignored when set.
+     * @returns The created order IDs, filled size, average fill price and fees paid.
+     */
+    static summarize(
+        receipt: ContractReceipt,
+        marketParams: MarketParams,
+        userAddress?: string,
+        orderbookAddress?: string,
+    ): OrderResult {
+        const decoded = ReceiptDecoder.decode(receipt, marketParams, orderbookAddress);
+        const user = userAddress?.toLowerCase();
+        const isUser = (address: string) => !user || address.toLowerCase() === user;
+
+        const orderIds = [
+            ...decoded.ordersCreated.filter((event) => isUser(event.ownerAddress)),
+            ...decoded.flipOrdersCreated.filter(
+                (event) => event.name === 'FlipOrderCreated' && isUser(event.ownerAddress),
+            ),
+        ]
+            .sort((a, b) => a.logIndex - b.logIndex)
+            .map((event) => event.orderId);
+
+        const takerFee = marketParams.takerFeeBps.toNumber() / 10000;
+        let filledSize = 0;
+        let filledNotional = 0;
+        let feesPaid = 0;
+
+        for (const trade of decoded.trades) {
+            if (!isUser(trade.takerAddress) && !isUser(trade.txOrigin)) {
+                continue;
+            }
+
+            filledSize += trade.filledSize;
+            filledNotional += trade.filledSize * trade.price;
+            feesPaid += trade.isBuy ? trade.filledSize * takerFee : trade.filledSize * trade.price * takerFee;
+        }
+
+        return {
+            orderIds,
+            filledSize,
+            averagePrice: filledSize > 0 ? filledNotional / filledSize : 0,
+            feesPaid,
+            decoded,
+        };
+    }
+
+    /**
+     * @dev Extends a transaction receipt with the summary returned by summarize.
+     */
+    static toOrderReceipt(
+        receipt: ContractReceipt,
+        marketParams: MarketParams,
+        userAddress?: string,
+        orderbookAddress?: string,
+    ): OrderReceipt {
+        return {
+            ...receipt,
+            ...ReceiptDecoder.summarize(receipt, marketParams, userAddress, orderbookAddress),
+        };
+    }
+
+    /**
+     * @dev Returns the IDs of the orders cancelled in a transaction receipt, including flip orders.
+     *      Does not require market parameters since cancel events carry no prices or sizes.
+     * @param receipt - The transaction receipt returned by OrderCanceler.
+     * @returns The cancelled order IDs.
+     */
+    static getCanceledOrderIds(receipt: ContractReceipt): BigNumber[] {
+        const orderIds: BigNumber[] = [];
+
+        for (const log of receipt.logs) {
+            let parsed: ethers.utils.LogDescription;
+            try {
+                parsed = orderbookInterface.parseLog(log);
+            } catch {
+                continue;
+            }
+
+            if (parsed.name === 'OrdersCanceled') {
+                orderIds.push(...parsed.args.orderId.map((orderId: BigNumber) => BigNumber.from(orderId)));
+            } else if (parsed.name === 'FlipOrdersCanceled') {
+                orderIds.push(...parsed.args.orderIds.map((orderId: BigNumber) => BigNumber.from(orderId)));
+            }
+        }
+
+        return orderIds;
+    }
+}
@@ -0,0 +1,183 @@
+// ============ External Imports ============
+import { BigNumber, ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import { MarketParams, MarketSimulation, OrderBookData, PriceLevel, SimulatedFill, WssTradeEvent } from '../types';
+import { log10BigNumber, parseDecimal, toSizePrecision } from '../utils';
+import { OrderBook } from './orderBook';
+
+export abstract class MarketSimulator {
+    /**
+     * @dev Simulates a market buy against an order book snapshot without calling the chain.
+     *      Manual asks and the AMM vault ladder are matched best price first, with manual orders first at equal prices.
+     * @param orderBook - The order book returned by getL2OrderBook.
+     * @param marketParams - The market parameters including price and size precision and the taker fee.
+     * @param quoteAmount - The amount of quote tokens to spend.
+     * @param limitPrice - Optional highest price to buy at. Matching stops at the first level above it.
+     * @returns The simulated fills, amounts, fees and the post-trade order book.
+     */
+    static simulateMarketBuy(
+        orderBook: OrderBookData,
+        marketParams: MarketParams,
+        quoteAmount: number,
+        limitPrice?: string | number,
+    ): MarketSimulation {
+        const pricePrecision = log10BigNumber(marketParams.pricePrecision);
+        const quote = parseDecimal(quoteAmount, pricePrecision)
+            .mul(ethers.constants.WeiPerEther)
+            .div(marketParams.pricePrecision);
+
+        return simulate(orderBook, marketParams, true, quote, toPreciseLimit(limitPrice));
+    }
+
+    /**
+     * @dev Simulates a market sell against an order book snapshot without calling the chain.
+     *      Manual bids and the AMM vault ladder are matched best price first, with manual orders first at equal prices.
+     * @param orderBook - The order book returned by getL2OrderBook.
+     * @param marketParams - The market parameters including price and size precision and the taker fee.
+     * @param size - The size of the base asset to sell.
+     * @param limitPrice - Optional lowest price to sell at. Matching stops at the first level below it.
+     * @returns The simulated fills, amounts, fees and the post-trade order book.
+     */
+    static simulateMarketSell(
+        orderBook: OrderBookData,
+        marketParams: MarketParams,
+        size: number,
+        limitPrice?: string | number,
+    ): MarketSimulation {
+        const sizeBn = toSizePrecision(size, marketParams);
+
+        return simulate(orderBook, marketParams, false, sizeBn, toPreciseLimit(limitPrice));
+    }
+}
+
+/**
+ * @dev Matches a market order against the manual orders and the AMM ladder of the opposite side.
+ * @param isBuy - Whether the taker is buying.
+ * @param amount - Quote in 18 decimals for buys, base in sizePrecision units for sells.
+ * @param limitPrice - Optional worst price in 18 decimals.
+ */
+function simulate(
+    orderBook: OrderBookData,
+    marketParams: MarketParams,
+    isBuy: boolean,
+    amount: BigNumber,
+    limitPrice?: BigNumber,
+): MarketSimulation {
+    const { precise, vaultParams } = orderBook;
+    const ammPrices = OrderBook.getAmmPrices(vaultParams);
+
+    const manualLevels = sortBestFirst(isBuy ? precise.manualOrders.asks : precise.manualOrders.bids, isBuy);
+    const ammLevels = isBuy ? ammPrices.asks : ammPrices.bids;
+    const isBetter = (a: BigNumber, b: BigNumber) => (isBuy ? a.lte(b) : a.gte(b));
+
+    let manualIndex = 0;
+    let ammIndex = 0;
+    let remaining = amount;
+    let filled = BigNumber.from(0);
+    let quote = BigNumber.from(0);
+    const fills: { level: PriceLevel; isAmm: boolean }[] = [];
+    const tradeEvents: WssTradeEvent[] = [];
+    let isBookExhausted = false;
+    let isLimitReached = false;
+
+    while (remaining.gt(0)) {
+        const manualLevel = manualLevels[manualIndex];
+        const ammLevel = ammLevels[ammIndex];
+        if (!manualLevel && !ammLevel) {
+            isBookExhausted = true;
+            break;
+        }
+
+        const isAmm = !manualLevel || (!!ammLevel && !isBetter(manualLevel.price, ammLevel.price));
+        const level = isAmm ? ammLevel : manualLevel;
+        if (isAmm) {
+            ammIndex++;
+        } else {
+            manualIndex++;
+        }
+
+        if (level.size.isZero()) {
+            continue;
+        }
+
+        // Levels are matched best first, so every level after one past the limit is past it too
+        if (limitPrice && (isBuy ? level.price.gt(limitPrice) : level.price.lt(limitPrice))) {
+            isLimitReached = true;
+            break;
+        }
+
+        // Buys are bounded by the quote left, sells by the base left
+        const maxSize = isBuy ? remaining.mul(marketParams.sizePrecision).div(level.price) : remaining;
+        const size = level.size.lt(maxSize) ? level.size : maxSize;
+        if (size.isZero()) {
+            break;
+        }
+
+        const cost = size.mul(level.price).div(marketParams.sizePrecision);
+        remaining = remaining.sub(isBuy ? cost : size);
+        filled = filled.add(size);
+        quote = quote.add(cost);
+
+        fills.push({ level: { price: level.price, size }, isAmm });
+        tradeEvents.push({
+            // Manual orders are aggregated by price, so any non-zero ID marks a manual fill
+            orderId: isAmm ? 0 : 1,
+            makerAddress: isAmm ? vaultParams.kuruAmmVault : ethers.constants.AddressZero,
+            isBuy,
+            price: level.price.toString(),
+            updatedSize: level.size.sub(size).toString(),
+            takerAddress: ethers.constants.AddressZero,
+            filledSize: size.toString(),
+            blockNumber: orderBook.blockNumber.toString(),
+            transactionHash: ethers.constants.HashZero,
+            triggerTime: 0,
+        });
+
+        if (size.lt(level.size)) {
+            // The remaining amount is too small to fill another size unit
+            break;
+        }
+    }
+
+    const sizePrecision = log10BigNumber(marketParams.sizePrecision);
+    const takerFeeBps = marketParams.takerFeeBps;
+
+    // Fees are charged on the received asset: base for buys, quote for sells
+    const fee = (isBuy ? filled : quote).mul(takerFeeBps).div(10000);
+    const output = (isBuy ? filled : quote).sub(fee);
+
+    const filledSize = parseFloat(ethers.utils.formatUnits(filled, sizePrecision));
+    const quoteAmount = parseFloat(ethers.utils.formatUnits(quote, 18));
+
+    const simulatedFills: SimulatedFill[] = fills.map(({ level, isAmm }) => {
+        const [price, size] = OrderBook.toFloatLevels([level], marketParams)[0];
+        return { price, size, isAmm };
+    });
+
+    return {
+        input: isBuy ? quoteAmount : filledSize,
+        output: parseFloat(ethers.utils.formatUnits(output, isBuy ? sizePrecision : 18)),
+        preciseOutput: output,
+        filledSize,
+        averagePrice: filled.isZero() ? 0 : quoteAmount / filledSize,
+        feePaid: parseFloat(ethers.utils.formatUnits(fee, isBuy ? sizePrecision : 18)),
+        fills: simulatedFills,
+        isFullyFilled: !isBookExhausted && !isLimitReached,
+        orderBook: tradeEvents.reduce(
+            (book, tradeEvent) => OrderBook.reconcileTradeEvent(book, marketParams, tradeEvent),
+            orderBook,
+        ),
+    };
+}
+
+function sortBestFirst(levels: PriceLevel[], ascending: boolean): PriceLevel[] {
+    return [...levels].sort((a, b) => {
+        const [first, second] = ascending ? [a, b] : [b, a];
+        return first.price.lt(second.price) ? -1 : first.price.gt(second.price) ? 1 : 0;
+    });
+}
+
+function toPreciseLimit(limitPrice?: string | number): BigNumber | undefined {
+    return limitPrice === undefined ? undefined : parseDecimal(limitPrice, 18);
+}
@@ -0,0 +1,271 @@
+// ============ External Imports ============
+import { BigNumber, ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import {
+    BATCH,
+    LIMIT,
+    MARKET,
+    MarketParams,
+    OrderValidationCode,
+    OrderValidationContext,
+    OrderValidationError,
+} from '../types';
+import { getProvider, log10BigNumber, parseDecimal, toPricePrecision, toSizePrecision } from '../utils';
+import { MarginBalance } from '../margin';
+import { OrderBook } from './orderBook';
+
+// Widths of the price and size arguments of the order book contract
+const MAX_UINT32 = BigNumber.from(2).pow(32).sub(1);
+const MAX_UINT96 = BigNumber.from(2).pow(96).sub(1);
+
+export abstract class OrderValidator {
+    /**
+     * @dev Checks a limit order against the market params, and against the book and balances if given,
+     *      so that it is rejected before gas is spent on a transaction that would revert.
+     * @param marketParams - The market parameters including precisions, tick size and size bounds.
+     * @param order - The limit order.
+     * @param context - Optional book and margin balances for the post-only and balance checks.
+     * @returns The errors found, empty if the order is valid.
+     */
+    static validateLimit(
+        marketParams: MarketParams,
+        order: LIMIT,
+        context: OrderValidationContext = {},
+    ): OrderValidationError[] {
+        const { errors, required } = checkLimitOrder(marketParams, order, order.postOnly, context);
+        return [...errors, ...checkBalances(marketParams, required, context)];
+    }
+
+    /**
+     * @dev Checks a market order against the market params, and against the margin balances if given.
+     * @param marketParams - The market parameters including precisions.
+     * @param order - The market order. Its size is in quote for buys and base for sells.
+     * @param context - Optional margin balances, checked for margin orders.
+     * @returns The errors found, empty if the order is valid.
+     */
+    static validateMarket(
+        marketParams: MarketParams,
+        order: MARKET,
+        context: OrderValidationContext = {},
+    ): OrderValidationError[] {
+        // Market buys are sized in pricePrecision units of quote, market sells in sizePrecision units of base
+        const precision = log10BigNumber(order.isBuy ? marketParams.pricePrecision : marketParams.sizePrecision);
+        const size = tryParse(() => parseDecimal(order.size, precision));
+
+        if (!size || size.lte(0)) {
+            return [createError('Size Error', `Size ${order.size} must be a positive number`)];
+        }
+        if (size.gt(MAX_UINT96)) {
+            return [createError('Size Error', `Size ${order.size} exceeds the largest size the market can represent`)];
+        }
+        if (!order.isMargin) {
+            return [];
+        }
+
+        const decimals = (order.isBuy ? marketParams.quoteAssetDecimals : marketParams.baseAssetDecimals).toNumber();
+        const amount = parseDecimal(order.size, decimals);
+        return checkBalances(
+            marketParams,
+            order.isBuy ? { base: BigNumber.from(0), quote: amount } : { base: amount, quote: BigNumber.from(0) },
+            context,
+        );
+    }
+
+    /**
+     * @dev Checks every order of a batch update. Balances are only checked when the batch cancels nothing,
+     *      since cancelled orders release balance that cannot be known in advance.
+     * @param marketParams - The market parameters including precisions, tick size and size bounds.
+     * @param batchUpdate - The batch update.
+     * @param context - Optional book and margin balances for the post-only and balance checks.
+     * @returns The errors found, each with the index of its order, empty if the batch is valid.
+     */
+    static validateBatch(
+        marketParams: MarketParams,
+        batchUpdate: BATCH,
+        context: OrderValidationContext = {},
+    ): OrderValidationError[] {
+        const errors: OrderValidationError[] = [];
+        const required = { base: BigNumber.from(0), quote: BigNumber.from(0) };
+
+        batchUpdate.limitOrders.forEach((order, orderIndex) => {
+            const result = checkLimitOrder(marketParams, order, batchUpdate.postOnly, context);
+            errors.push(...result.errors.map((error) => ({ ...error, orderIndex })));
+            required.base = required.base.add(result.required.base);
+            required.quote = required.quote.add(result.required.quote);
+        });
+
+        if (batchUpdate.cancelOrders.length > 0) {
+            return errors;
+        }
+        return [...errors, ...checkBalances(marketParams, required, context)];
+    }
+
+    /**
+     * @dev Fetches the book and margin balances needed for the post-only and balance checks.
+     * @param providerOrSigner - The ethers.js provider or signer to interact with the blockchain.
+     * @param orderbookAddress - The address of the order book contract.
+     * @param marketParams - The market parameters including price and size precision.
+     * @param marginAccountAddress - Optional margin account. Balances are only fetched if given.
+     * @param userAddress - The trader. Defaults to the signer's address.
+     * @returns A promise that resolves to the validation context.
+     */
+    static async fetchContext(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        orderbookAddress: string,
+        marketParams: MarketParams,
+        marginAccountAddress?: string,
+        userAddress?: string,
+    ): Promise<OrderValidationContext> {
+        const provider = getProvider(providerOrSigner);
+
+        const fetchBalances = async () => {
+            if (!marginAccountAddress) {
+                return undefined;
+            }
+
+            const signer = providerOrSigner instanceof ethers.Signer ? providerOrSigner : providerOrSigner.getSigner();
+            const user = userAddress ?? (await signer.getAddress());
+            const [base, quote] = await Promise.all([
+                MarginBalance.getBalance(provider, marginAccountAddress, user, marketParams.baseAssetAddress),
+                MarginBalance.getBalance(provider, marginAccountAddress, user, marketParams.quoteAssetAddress),
+            ]);
+            return { base, quote };
+        };
+
+        const [orderBook, marginBalances] = await Promise.all([
+            OrderBook.getL2OrderBook(provider, orderbookAddress, marketParams),
+            fetchBalances(),
+        ]);
+
+        return { orderBook, marginBalances };
+    }
+
+    /**
+     * @dev Throws if any errors were found. The thrown object has the shape of extractErrorMessage results,
+     *      with the first error code as its message and every error under validationErrors.
+     * @param errors - The errors returned by a validate function.
+     */
+    static assertValid(errors: OrderValidationError[]) {
+        if (errors.length === 0) {
+            return;
+        }
+
+        throw {
+            message: errors[0].code,
+            details: errors.map((error) => error.message).join('; '),
+            validationErrors: errors,
+        };
+    }
+}
+
+// ======================== INTERNAL HELPER FUNCTIONS ========================
+
+function checkLimitOrder(
+    marketParams: MarketParams,
+    order: LIMIT,
+    postOnly: boolean,
+    context: OrderValidationContext,
+): { errors: OrderValidationError[]; required: { base: BigNumber; quote: BigNumber } } {
+    const errors: OrderValidationError[] = [];
+    const required = { base: BigNumber.from(0), quote: BigNumber.from(0) };
+
+    const price = tryParse(() => toPricePrecision(order.price, marketParams, order.isBuy, order.priceRounding));
+    const size = tryParse(() => toSizePrecision(order.size, marketParams, order.sizeRounding));
+
+    if (!price || price.lte(0)) {
+        errors.push(createError('Price Error', `Price ${order.price} must be a positive number`));
+    } else if (price.gt(MAX_UINT32)) {
+        errors.push(
+            createError('Price Error', `Price ${order.price} exceeds the largest price the market can represent`),
+        );
+    } else if (!price.mod(marketParams.tickSize).isZero()) {
+        errors.push(createError('Tick Size Error', `Price ${order.price} is not a multiple of the tick size`));
+    }
+
+    if (!size || size.lte(0)) {
+        errors.push(createError('Size Error', `Size ${order.size} must be a positive number`));
+    } else if (size.lt(marketParams.minSize) || size.gt(marketParams.maxSize) || size.gt(MAX_UINT96)) {
+        errors.push(createError('Size Error', `Size ${order.size} is outside the market's size bounds`));
+    }
+
+    if (errors.length > 0 || !price || !size) {
+        return { errors, required };
+    }
+
+    if (postOnly && context.orderBook && crossesBook(marketParams, order.isBuy, price, context)) {
+        errors.push(createError('Post Only Error', `Post-only order at ${order.price} would cross the book`));
+    }
+
+    if (order.isBuy) {
+        required.quote = price
+            .mul(size)
+            .mul(BigNumber.from(10).pow(marketParams.quoteAssetDecimals))
+            .div(marketParams.pricePrecision.mul(marketParams.sizePrecision));
+    } else {
+        required.base = size
+            .mul(BigNumber.from(10).pow(marketParams.baseAssetDecimals))
+            .div(marketParams.sizePrecision);
+    }
+
+    return { errors, required };
+}
+
+function crossesBook(
+    marketParams: MarketParams,
+    isBuy: boolean,
+    price: BigNumber,
+    context: OrderValidationContext,
+): boolean {
+    // Book prices are scaled to 18 decimals, and both sides are sorted descending
+    const { asks, bids } = context.orderBook!.precise;
+    const price18 = price.mul(ethers.constants.WeiPerEther).div(marketParams.pricePrecision);
+
+    if (isBuy) {
+        return asks.length > 0 && price18.gte(asks[asks.length - 1].price);
+    }
+    return bids.length > 0 && price18.lte(bids[0].price);
+}
+
+function checkBalances(
+    marketParams: MarketParams,
+    required: { base: BigNumber; quote: BigNumber },
+    context: OrderValidationContext,
+): OrderValidationError[] {
+    const balances = context.marginBalances;
+    if (!balances) {
+        return [];
+    }
+
+    const errors: OrderValidationError[] = [];
+    if (required.base.gt(balances.base)) {
+        errors.push(
+            createError(
+                'Insufficient Balance',
+                `Order needs ${ethers.utils.formatUnits(required.base, marketParams.baseAssetDecimals)} base but the margin account holds ${ethers.utils.formatUnits(balances.base, marketParams.baseAssetDecimals)}`,
+            ),
+        );
+    }
+    if (required.quote.gt(balances.quote)) {
+        errors.push(
+            createError(
+                'Insufficient Balance',
+                `Order needs ${ethers.utils.formatUnits(required.quote, marketParams.quoteAssetDecimals)} quote but the margin account holds ${ethers.utils.formatUnits(balances.quote, marketParams.quoteAssetDecimals)}`,
+            ),
+        );
+    }
+    return errors;
+}
+
+// Converts the same way as the order paths, returning null for values that are not decimals
+function tryParse(convert: () => BigNumber): BigNumber | null {
+    try {
+        return convert();
+    } catch (e) {
+        return null;
+    }
+}
+
+function createError(code: OrderValidationCode, message: string): OrderValidationError {
+    return { code, message };
+}
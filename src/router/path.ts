@@ -2,10 +2,11 @@
 import { ethers } from 'ethers';
 
 // ============ Internal Imports ============
-import { ParamFetcher, CostEstimator } from '../market';
+import { ParamFetcher, CostEstimator, MarketParamsCache } from '../market';
 import { PoolFetcher } from '../pools';
 import { Pool, Route, RouteOutput } from '../types/pool';
 import { MarketParams } from '../types';
+import { getReadProvider } from '../utils';
 import orderbookAbi from '../../abi/OrderBook.json';
 import utilsAbi from '../../abi/KuruUtils.json';
 
@@ -19,6 +20,7 @@ export abstract class PathFinder {
         poolFetcher?: PoolFetcher,
         pools?: Pool[],
         estimatorContractAddress?: string,
+        marketParamsCache?: MarketParamsCache,
     ): Promise<RouteOutput> {
         // Normalize input addresses to lowercase
         const normalizedTokenIn = tokenIn.toLowerCase();
@@ -54,12 +56,14 @@ export abstract class PathFinder {
             feeInBase: 0,
         };
 
+        // Every route is read at once through one batching provider
+        const readProvider = getReadProvider(providerOrSigner);
         let bestOutput = 0;
         const routeOutputs = await Promise.all(
             routes.map(async (route) =>
                 amountType === 'amountOut'
-                    ? await computeRouteInput(providerOrSigner, route, amountIn)
-                    : await computeRouteOutput(providerOrSigner, route, amountIn),
+                    ? await computeRouteInput(readProvider, route, amountIn, marketParamsCache)
+                    : await computeRouteOutput(readProvider, route, amountIn, marketParamsCache),
             ),
         );
 
@@ -71,7 +75,7 @@ export abstract class PathFinder {
         }
         if (estimatorContractAddress) {
             bestRoute.priceImpact = await calculatePriceImpact(
-                providerOrSigner,
+                readProvider,
                 estimatorContractAddress,
                 bestRoute,
                 amountIn,
@@ -126,7 +130,7 @@ async function computeRouteInput(
     providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
     route: Route,
     amountOut: number,
-    marketParamsMap?: Map<string, MarketParams>,
+    marketParamsCache?: MarketParamsCache,
 ) {
     let currentToken = route.tokenIn;
     let output: number = amountOut;
@@ -134,23 +138,29 @@ async function computeRouteInput(
     let isBuy: boolean[] = [];
     let nativeSend: boolean[] = [];
     let priceImpact: number = 0;
-    for (const pool of route.path) {
-        const orderbookAddress = pool.orderbook;
 
-        // Get market parameters from map if available, otherwise fetch them
-        let poolMarketParams = marketParamsMap?.get(orderbookAddress);
-        if (!poolMarketParams) {
-            poolMarketParams = await ParamFetcher.getMarketParams(providerOrSigner, orderbookAddress);
-        }
+    // Read every pool up front so the reads can be batched
+    const poolStates = await Promise.all(
+        route.path.map(async (pool) => {
+            const orderbook = new ethers.Contract(pool.orderbook, orderbookAbi.abi, providerOrSigner);
 
-        const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
+            // Get market parameters from the cache if available, otherwise fetch them
+            const [marketParams, l2Book, vaultParams] = await Promise.all([
+                getMarketParams(providerOrSigner, pool.orderbook, marketParamsCache),
+                orderbook.getL2Book({
+                    from: ethers.constants.AddressZero,
+                }),
+                orderbook.getVaultParams({
+                    from: ethers.constants.AddressZero,
+                }),
+            ]);
+            return { marketParams, l2Book, vaultParams };
+        }),
+    );
 
-        const l2Book = await orderbook.getL2Book({
-            from: ethers.constants.AddressZero,
-        });
-        const vaultParams = await orderbook.getVaultParams({
-            from: ethers.constants.AddressZero,
-        });
+    for (const [index, pool] of route.path.entries()) {
+        const orderbookAddress = pool.orderbook;
+        const { marketParams: poolMarketParams, l2Book, vaultParams } = poolStates[index];
 
         currentToken === ethers.constants.AddressZero ? nativeSend.push(true) : nativeSend.push(false);
         if (currentToken === pool.baseToken) {
@@ -197,7 +207,7 @@ async function computeRouteOutput(
     providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
     route: Route,
     amountIn: number,
-    marketParamsMap?: Map<string, MarketParams>,
+    marketParamsCache?: MarketParamsCache,
 ): Promise<RouteOutput> {
     let currentToken = route.tokenIn;
     let output: number = amountIn;
@@ -206,14 +216,14 @@ async function computeRouteOutput(
     let nativeSend: boolean[] = [];
     let priceImpact: number = 1;
 
-    for (const pool of route.path) {
-        const orderbookAddress = pool.orderbook;
+    // Get market parameters from the cache if available, otherwise fetch them all at once so the reads can be batched
+    const routeMarketParams = await Promise.all(
+        route.path.map((pool) => getMarketParams(providerOrSigner, pool.orderbook, marketParamsCache)),
+    );
 
-        // Get market parameters from map if available, otherwise fetch them
-        let poolMarketParams = marketParamsMap?.get(orderbookAddress);
-        if (!poolMarketParams) {
-            poolMarketParams = await ParamFetcher.getMarketParams(providerOrSigner, orderbookAddress);
-        }
+    for (const [index, pool] of route.path.entries()) {
+        const orderbookAddress = pool.orderbook;
+        const poolMarketParams = routeMarketParams[index];
 
         currentToken === ethers.constants.AddressZero ? nativeSend.push(true) : nativeSend.push(false);
         if (currentToken === pool.baseToken) {
@@ -246,6 +256,16 @@ async function computeRouteOutput(
     };
 }
 
+function getMarketParams(
+    providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+    orderbookAddress: string,
+    marketParamsCache?: MarketParamsCache,
+): Promise<MarketParams> {
+    return marketParamsCache
+        ? marketParamsCache.get(orderbookAddress)
+        : ParamFetcher.getMarketParams(providerOrSigner, orderbookAddress);
+}
+
 function involvesToken(pool: Pool, token: string): boolean {
     // Make comparison case insensitive
     const normalizedToken = token.toLowerCase();
@@ -3,14 +3,14 @@ import { ContractReceipt, ethers, BigNumber } from 'ethers';
 
 // ============ Internal Imports ============
 import { TransactionOptions, SlippageOptions } from '../types';
-import { extractErrorMessage, approveToken, estimateApproveGas } from '../utils';
+import { extractErrorMessage, approveToken, estimateApproveGas, parseDecimal } from '../utils';
 import { RouteOutput } from '../types/pool';
 import { calculateDynamicSlippage } from '../utils';
 
 // ============ Config Imports ============
 import erc20Abi from '../../abi/IERC20.json';
 import routerAbi from '../../abi/Router.json';
-import buildTransactionRequest from '../utils/txConfig';
+import buildTransactionRequest, { sendTransactionRequest } from '../utils/txConfig';
 
 export abstract class TokenSwap {
     /**
@@ -89,7 +89,7 @@ export abstract class TokenSwap {
 
             const tokenContract = new ethers.Contract(routeOutput.route.tokenIn, erc20Abi.abi, providerOrSigner);
 
-            const tokenInAmount = ethers.utils.parseUnits(amountIn.toString(), inTokenDecimals);
+            const tokenInAmount = parseDecimal(amountIn, inTokenDecimals);
 
             slippageTolerance = slippageOptions
                 ? calculateDynamicSlippage(
@@ -100,12 +100,11 @@ export abstract class TokenSwap {
                   )
                 : slippageTolerance;
 
-            const clippedOutput = Number((routeOutput.output * (100 - slippageTolerance)) / 100).toFixed(
+            const minTokenOutAmount = parseDecimal(
+                (routeOutput.output * (100 - slippageTolerance)) / 100,
                 outTokenDecimals,
             );
 
-            const minTokenOutAmount = ethers.utils.parseUnits(clippedOutput.toString(), outTokenDecimals);
-
             if (approveTokens) {
                 const txHash = await approveToken(tokenContract, routerAddress, tokenInAmount, providerOrSigner);
 
@@ -124,7 +123,7 @@ export abstract class TokenSwap {
             );
             console.log(tx);
 
-            const transaction = await router.signer.sendTransaction(tx);
+            const transaction = await sendTransactionRequest(router.signer, tx, txOptions);
             return await transaction.wait();
         } catch (e: any) {
             console.error({ e });
@@ -147,7 +146,7 @@ export abstract class TokenSwap {
     ): Promise<ethers.BigNumber> {
         try {
             const tokenContract = new ethers.Contract(routeOutput.route.tokenIn, erc20Abi.abi, providerOrSigner);
-            const tokenInAmount = ethers.utils.parseUnits(amountIn.toString(), inTokenDecimals);
+            const tokenInAmount = parseDecimal(amountIn, inTokenDecimals);
 
             if (approveTokens) {
                 return estimateApproveGas(tokenContract, routerAddress, tokenInAmount);
@@ -155,8 +154,8 @@ export abstract class TokenSwap {
 
             const router = new ethers.Contract(routerAddress, routerAbi.abi, providerOrSigner);
 
-            const minTokenOutAmount = ethers.utils.parseUnits(
-                ((routeOutput.output * (100 - slippageTolerance)) / 100).toString(),
+            const minTokenOutAmount = parseDecimal(
+                (routeOutput.output * (100 - slippageTolerance)) / 100,
                 outTokenDecimals,
             );
 
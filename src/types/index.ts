@@ -1,3 +1,7 @@
 export * from './types';
 export * from './order';
 export * from './pool';
+export * from './receipt';
+export * from './simulation';
+export * from './validation';
+export * from './portfolio';
@@ -1,4 +1,6 @@
 import { BigNumber } from 'ethers';
+import { FeeStrategy } from '../utils/feeStrategy';
+import { TxSender } from '../utils/txSender';
 
 export interface TransactionOptions {
     nonce?: number;
@@ -7,13 +9,32 @@ export interface TransactionOptions {
     maxFeePerGas?: BigNumber;
     maxPriorityFeePerGas?: BigNumber;
     priorityFee?: number;
+    /** Prices the transaction when neither gasPrice nor maxFeePerGas is set. Defaults to the SDK-wide strategy. */
+    feeStrategy?: FeeStrategy;
+    /** Percentage added to the estimated gas limit when gasLimit is not set. Defaults to the SDK-wide buffer. */
+    gasLimitBufferPercent?: number;
+    /** Sends the transaction with a nonce allocated by the sender, unless a nonce is given. */
+    txSender?: TxSender;
 }
 
+/** How digits beyond the market precision are dropped. 'nearest' rounds halves away from zero. */
+export type RoundingMode = 'floor' | 'ceil' | 'nearest';
+
+/**
+ * Price rounding. On top of the plain modes, prices can be aligned to the tick size either toward the spread,
+ * i.e. up for buys and down for sells, which is more likely to fill, or away from it, which never pays more.
+ */
+export type PriceRoundingMode = RoundingMode | 'towardSpread' | 'awayFromSpread';
+
 export interface LIMIT {
     price: string;
     size: string;
     isBuy: boolean;
     postOnly: boolean;
+    /** Defaults to 'floor'. */
+    priceRounding?: PriceRoundingMode;
+    /** Defaults to 'floor'. */
+    sizeRounding?: RoundingMode;
     txOptions?: TransactionOptions;
 }
 
@@ -27,9 +48,82 @@ export interface MARKET {
     txOptions?: TransactionOptions;
 }
 
+/**
+ * Which amount of a market order is fixed. 'spendQuote' spends exactly the amount of quote, 'receiveBase' buys
+ * at least the amount of base, 'sellBase' sells exactly the amount of base and 'receiveQuote' sells enough base to
+ * receive at least the amount of quote.
+ */
+export type MarketOrderMode = 'spendQuote' | 'receiveBase' | 'sellBase' | 'receiveQuote';
+
+export interface SIZED_MARKET {
+    approveTokens: boolean;
+    mode: MarketOrderMode;
+    /** Quote for 'spendQuote' and 'receiveQuote', base for 'receiveBase' and 'sellBase'. */
+    amount: string;
+    /** Slippage tolerance in percent, applied to the estimated output or, for the fixed-output modes, to the input. */
+    slippageTolerance: number;
+    isMargin: boolean;
+    fillOrKill: boolean;
+    txOptions?: TransactionOptions;
+}
+
+export interface PRICE_LIMITED_MARKET {
+    approveTokens: boolean;
+    isBuy: boolean;
+    /** Quote to spend for buys, base to sell for sells. */
+    size: string;
+    /** The worst price to fill at, highest for buys and lowest for sells. */
+    limitPrice: string;
+    /** Slippage tolerance in percent, applied to the simulated output. */
+    slippageTolerance: number;
+    isMargin: boolean;
+    fillOrKill: boolean;
+    txOptions?: TransactionOptions;
+}
+
+export interface MarginShortfall {
+    /** The token the order spends, quote for buys and base for sells. */
+    tokenAddress: string;
+    /** Amount the order spends, in token decimals. */
+    required: BigNumber;
+    /** Margin account balance, in token decimals. */
+    balance: BigNumber;
+    /** Amount missing from the margin account, zero if the balance covers the order. */
+    shortfall: BigNumber;
+}
+
 export interface BATCH {
     limitOrders: LIMIT[];
     cancelOrders: BigNumber[];
     postOnly: boolean;
     txOptions?: TransactionOptions;
 }
+
+export interface AMEND {
+    /** The new price. Defaults to the current price. */
+    price?: string;
+    /** The new size. Defaults to the size left on the order. */
+    size?: string;
+    /** Defaults to false. */
+    postOnly?: boolean;
+    /** Defaults to 'floor'. */
+    priceRounding?: PriceRoundingMode;
+    /** Defaults to 'floor'. */
+    sizeRounding?: RoundingMode;
+    /** Whether to resolve without sending anything when the order is already filled or canceled, instead of throwing. */
+    skipIfFilled?: boolean;
+    txOptions?: TransactionOptions;
+}
+
+export interface FLIP {
+    price: string;
+    flippedPrice: string;
+    size: string;
+    isBuy: boolean;
+    provisionOrRevert: boolean;
+    /** Applied to both prices, the flipped price as an order on the opposite side. Defaults to 'floor'. */
+    priceRounding?: PriceRoundingMode;
+    /** Defaults to 'floor'. */
+    sizeRounding?: RoundingMode;
+    txOptions?: TransactionOptions;
+}
@@ -0,0 +1,36 @@
+import { BigNumber } from 'ethers';
+
+/** How closing trades pick the entry price they realize PnL against. */
+export type CostBasisMethod = 'fifo' | 'average';
+
+export interface PortfolioLot {
+    /** Base held, positive for long lots and negative for short lots. */
+    size: number;
+    price: number;
+}
+
+export interface PortfolioPosition {
+    marketAddress: string;
+    /** Base held, positive when long and negative when short. */
+    size: number;
+    /** Size-weighted entry price of the open lots, 0 when flat. */
+    averageEntryPrice: number;
+    lots: PortfolioLot[];
+    /** PnL of closed size in quote, before fees. */
+    realizedPnl: number;
+    /** PnL of the open size at the mark price in quote, 0 until the position is marked. */
+    unrealizedPnl: number;
+    markPrice?: number;
+    /** Fees paid in quote. Fees charged in base are converted at the trade price. */
+    feesPaid: number;
+    /** Base traded, both sides. */
+    volume: number;
+}
+
+export interface MarginTransfer {
+    tokenAddress: string;
+    amount: BigNumber;
+    isDeposit: boolean;
+    blockNumber: number;
+    transactionHash: string;
+}
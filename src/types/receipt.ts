@@ -0,0 +1,106 @@
+import { BigNumber, ContractReceipt } from 'ethers';
+
+export interface DecodedOrderCreatedEvent {
+    name: 'OrderCreated';
+    logIndex: number;
+    orderId: BigNumber;
+    ownerAddress: string;
+    size: number;
+    price: number;
+    isBuy: boolean;
+}
+
+export interface DecodedTradeEvent {
+    name: 'Trade';
+    logIndex: number;
+    orderId: BigNumber;
+    makerAddress: string;
+    takerAddress: string;
+    txOrigin: string;
+    isBuy: boolean;
+    price: number;
+    updatedSize: number;
+    filledSize: number;
+}
+
+export interface DecodedOrdersCanceledEvent {
+    name: 'OrdersCanceled';
+    logIndex: number;
+    orderIds: BigNumber[];
+    ownerAddress: string;
+}
+
+export interface DecodedFlipOrderCreatedEvent {
+    name: 'FlipOrderCreated' | 'FlippedOrderCreated';
+    logIndex: number;
+    orderId: BigNumber;
+    flippedId: BigNumber;
+    ownerAddress: string;
+    size: number;
+    price: number;
+    flippedPrice: number;
+    isBuy: boolean;
+}
+
+export interface DecodedFlipOrderUpdatedEvent {
+    name: 'FlipOrderUpdated';
+    logIndex: number;
+    orderId: BigNumber;
+    size: number;
+}
+
+export interface DecodedFlipOrdersCanceledEvent {
+    name: 'FlipOrdersCanceled';
+    logIndex: number;
+    orderIds: BigNumber[];
+    ownerAddress: string;
+}
+
+export type DecodedOrderBookEvent =
+    | DecodedOrderCreatedEvent
+    | DecodedTradeEvent
+    | DecodedOrdersCanceledEvent
+    | DecodedFlipOrderCreatedEvent
+    | DecodedFlipOrderUpdatedEvent
+    | DecodedFlipOrdersCanceledEvent;
+
+export interface DecodedReceipt {
+    events: DecodedOrderBookEvent[];
+    ordersCreated: DecodedOrderCreatedEvent[];
+    trades: DecodedTradeEvent[];
+    ordersCanceled: DecodedOrdersCanceledEvent[];
+    flipOrdersCreated: DecodedFlipOrderCreatedEvent[];
+    flipOrdersUpdated: DecodedFlipOrderUpdatedEvent[];
+    flipOrdersCanceled: DecodedFlipOrdersCanceledEvent[];
+}
+
+export interface OrderResult {
+    orderIds: BigNumber[];
+    filledSize: number;
+    averagePrice: number;
+    feesPaid: number;
+    decoded: DecodedReceipt;
+}
+
+export interface OrderReceipt extends ContractReceipt, OrderResult {}
+
+export interface CancelReceipt extends ContractReceipt {
+    /** The IDs of the orders the transaction canceled. */
+    canceledOrderIds: BigNumber[];
+}
+
+export interface AmendedOrderReceipt {
+    /** The receipt of the cancel-replace, undefined when the order was already filled and skipped. */
+    receipt?: OrderReceipt;
+    /** The ID of the replacement order, undefined when skipped or when the replacement filled immediately. */
+    orderId?: BigNumber;
+}
+
+export interface PriceLimitedOrderReceipt {
+    /** The receipt of the trade, undefined when nothing is fillable up to the limit price. */
+    receipt?: OrderReceipt;
+    /** The size submitted, quote for buys and base for sells. */
+    submittedSize: string;
+    /** The size left unfilled because the book runs past the limit price. */
+    unfilledSize: string;
+}
@@ -0,0 +1,26 @@
+import { BigNumber } from 'ethers';
+
+import { OrderBookData } from './types';
+
+export interface SimulatedFill {
+    price: number;
+    size: number;
+    isAmm: boolean;
+}
+
+export interface MarketSimulation {
+    /** Quote spent for buys, base sold for sells. */
+    input: number;
+    /** Base received for buys, quote received for sells, net of the taker fee. */
+    output: number;
+    /** The output without float rounding, in sizePrecision units for buys and 18 decimals for sells. */
+    preciseOutput: BigNumber;
+    filledSize: number;
+    averagePrice: number;
+    /** Taker fee charged on the received asset. */
+    feePaid: number;
+    fills: SimulatedFill[];
+    isFullyFilled: boolean;
+    /** The order book after the trade. */
+    orderBook: OrderBookData;
+}
@@ -9,6 +9,25 @@ export interface OrderBookData {
         bids: number[][];
         asks: number[][];
     };
+    precise: PreciseOrderBookData;
+}
+
+export interface PriceLevel {
+    /** Price scaled to 18 decimals, the precision used by AMM prices and Trade events. */
+    price: BigNumber;
+    /** Size in sizePrecision units. */
+    size: BigNumber;
+}
+
+export interface PreciseOrderBookData {
+    asks: PriceLevel[];
+    bids: PriceLevel[];
+    manualOrders: {
+        bids: PriceLevel[];
+        asks: PriceLevel[];
+    };
+    /** Whether the levels are rounded to the tick size, so their prices may not be contract price points. */
+    isFormatted?: boolean;
 }
 
 export interface WssOrderEvent {
@@ -60,6 +79,25 @@ export interface ActiveOrders {
     blockNumber: number;
 }
 
+export interface OrderFill {
+    price: number;
+    filledSize: number;
+    takerAddress: string;
+    blockNumber?: number;
+    transactionHash?: string;
+}
+
+export interface TrackedOrder {
+    orderId: BigNumber;
+    price: number;
+    isBuy: boolean;
+    size: number;
+    remainingSize: number;
+    isCanceled: boolean;
+    isFlip: boolean;
+    fills: OrderFill[];
+}
+
 export interface Order {
     ownerAddress: string;
     size: number;
@@ -69,6 +107,34 @@ export interface Order {
     isBuy: boolean;
 }
 
+export interface L3Order {
+    orderId: BigNumber;
+    ownerAddress: string;
+    price: number;
+    size: number;
+    isBuy: boolean;
+    flippedId: BigNumber;
+    flippedPrice: number;
+    /** Position in the price level's queue, 0 being the next order to be filled. */
+    queuePosition: number;
+    /** Total size resting ahead of this order at the same price. */
+    sizeAhead: number;
+}
+
+export interface L3PriceLevel {
+    price: number;
+    size: number;
+    orders: L3Order[];
+}
+
+export interface L3OrderBookData {
+    /** Bid levels, best (highest) price first. */
+    bids: L3PriceLevel[];
+    /** Ask levels, best (lowest) price first. */
+    asks: L3PriceLevel[];
+    blockNumber: number;
+}
+
 export interface MarketParams {
     pricePrecision: BigNumber;
     sizePrecision: BigNumber;
@@ -111,6 +177,16 @@ export interface TradeEvent {
     filledSize: BigNumber;
 }
 
+export interface FlipOrderEvent {
+    orderId: BigNumber;
+    flippedId: BigNumber;
+    ownerAddress: string;
+    size: BigNumber;
+    price: BigNumber;
+    flippedPrice: BigNumber;
+    isBuy: boolean;
+}
+
 export interface TokenInfo {
     name: string;
     symbol: string;
@@ -118,3 +194,14 @@ export interface TokenInfo {
     decimals: number;
     totalSupply: string;
 }
+
+export interface TopOfBook {
+    marketAddress: string;
+    /** Best bid as a [price, size] pair. */
+    bestBid?: number[];
+    /** Best ask as a [price, size] pair. */
+    bestAsk?: number[];
+    midPrice?: number;
+    spread?: number;
+    blockNumber: number;
+}
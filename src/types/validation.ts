@@ -0,0 +1,28 @@
+import { BigNumber } from 'ethers';
+
+import { OrderBookData } from './types';
+
+/** Named after the contract errors in errors.json that the order would otherwise revert with. */
+export type OrderValidationCode =
+    | 'Tick Size Error'
+    | 'Size Error'
+    | 'Price Error'
+    | 'Post Only Error'
+    | 'Insufficient Balance';
+
+export interface OrderValidationError {
+    code: OrderValidationCode;
+    message: string;
+    /** Position of the offending order in a batch. */
+    orderIndex?: number;
+}
+
+export interface OrderValidationContext {
+    /** Current book, used to reject post-only orders that would cross. */
+    orderBook?: OrderBookData;
+    /** Margin account balances of the trader in token decimals, used to reject orders they cannot fund. */
+    marginBalances?: {
+        base: BigNumber;
+        quote: BigNumber;
+    };
+}
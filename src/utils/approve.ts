@@ -7,7 +7,7 @@ import { TransactionOptions } from '../types';
 // ============ Internal Imports ============
 import erc20Abi from '../../abi/IERC20.json';
 import { extractErrorMessage } from '../utils';
-import buildTransactionRequest from './txConfig';
+import buildTransactionRequest, { sendTransactionRequest } from './txConfig';
 
 const getOwnerAddress = async (providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer): Promise<string> => {
     if (providerOrSigner instanceof ethers.providers.JsonRpcProvider) {
@@ -75,7 +75,7 @@ export async function approveToken(
         }
 
         const tx = await constructApproveTransaction(signer, tokenContract.address, approveTo, size, txOptions);
-        const transaction = await signer.sendTransaction(tx);
+        const transaction = await sendTransactionRequest(signer, tx, txOptions);
 
         if (!waitForReceipt) {
             return transaction.hash;
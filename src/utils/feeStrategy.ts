@@ -0,0 +1,112 @@
+// ============ External Imports ============
+import { BigNumber, ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import { TransactionOptions } from '../types';
+
+/** Either a legacy gas price or EIP-1559 fees. */
+export interface TransactionFees {
+    gasPrice?: BigNumber;
+    maxFeePerGas?: BigNumber;
+    maxPriorityFeePerGas?: BigNumber;
+}
+
+/**
+ * @dev Prices the transactions built by buildTransactionRequest that have no gasPrice or maxFeePerGas set.
+ */
+export interface FeeStrategy {
+    getFees(provider: ethers.providers.Provider, txOptions?: TransactionOptions): Promise<TransactionFees>;
+}
+
+/**
+ * @dev Pays the node's gas price plus txOptions.priorityFee, in gwei.
+ */
+export class LegacyFeeStrategy implements FeeStrategy {
+    async getFees(provider: ethers.providers.Provider, txOptions?: TransactionOptions): Promise<TransactionFees> {
+        const gasPrice = await provider.getGasPrice();
+
+        return {
+            gasPrice: txOptions?.priorityFee
+                ? gasPrice.add(ethers.utils.parseUnits(txOptions.priorityFee.toString(), 'gwei'))
+                : gasPrice,
+        };
+    }
+}
+
+export interface Eip1559FeeStrategyOptions {
+    /** Number of recent blocks the priority fee is averaged over. Defaults to 10. */
+    blockCount?: number;
+    /** Percentile of each block's priority fees that is averaged. Defaults to 50. */
+    rewardPercentile?: number;
+    /** Multiple of the next block's base fee the max fee covers, so it stays valid while the base fee rises. Defaults to 2. */
+    baseFeeMultiplier?: number;
+}
+
+/**
+ * @dev Prices EIP-1559 transactions from eth_feeHistory. The priority fee is the average of a percentile of the
+ *      recent blocks' priority fees, unless txOptions sets maxPriorityFeePerGas or priorityFee, in gwei.
+ */
+export class Eip1559FeeStrategy implements FeeStrategy {
+    private readonly blockCount: number;
+    private readonly rewardPercentile: number;
+    private readonly baseFeeMultiplier: number;
+
+    constructor(options: Eip1559FeeStrategyOptions = {}) {
+        this.blockCount = options.blockCount ?? 10;
+        this.rewardPercentile = options.rewardPercentile ?? 50;
+        this.baseFeeMultiplier = options.baseFeeMultiplier ?? 2;
+    }
+
+    async getFees(provider: ethers.providers.Provider, txOptions?: TransactionOptions): Promise<TransactionFees> {
+        const feeHistory: { baseFeePerGas: string[]; reward?: string[][] } = await (
+            provider as ethers.providers.JsonRpcProvider
+        ).send('eth_feeHistory', [ethers.utils.hexValue(this.blockCount), 'latest', [this.rewardPercentile]]);
+
+        // The last base fee is the one of the next block
+        const nextBaseFee = BigNumber.from(feeHistory.baseFeePerGas[feeHistory.baseFeePerGas.length - 1]);
+        const rewards = (feeHistory.reward ?? []).map(([reward]) => BigNumber.from(reward));
+        const averageReward =
+            rewards.length > 0
+                ? rewards.reduce((total, reward) => total.add(reward), BigNumber.from(0)).div(rewards.length)
+                : BigNumber.from(0);
+
+        const maxPriorityFeePerGas =
+            txOptions?.maxPriorityFeePerGas ??
+            (txOptions?.priorityFee
+                ? ethers.utils.parseUnits(txOptions.priorityFee.toString(), 'gwei')
+                : averageReward);
+
+        return {
+            maxFeePerGas: nextBaseFee
+                .mul(Math.round(this.baseFeeMultiplier * 100))
+                .div(100)
+                .add(maxPriorityFeePerGas),
+            maxPriorityFeePerGas,
+        };
+    }
+}
+
+/**
+ * @dev Pays the same fees for every transaction.
+ */
+export class FixedFeeStrategy implements FeeStrategy {
+    constructor(private readonly fees: TransactionFees) {}
+
+    async getFees(): Promise<TransactionFees> {
+        return { ...this.fees };
+    }
+}
+
+let defaultFeeStrategy: FeeStrategy = new LegacyFeeStrategy();
+
+/**
+ * @dev Sets the strategy used by every SDK call whose txOptions set no feeStrategy. Defaults to LegacyFeeStrategy.
+ * @param feeStrategy - The fee strategy.
+ */
+export function setDefaultFeeStrategy(feeStrategy: FeeStrategy) {
+    defaultFeeStrategy = feeStrategy;
+}
+
+export function getDefaultFeeStrategy(): FeeStrategy {
+    return defaultFeeStrategy;
+}
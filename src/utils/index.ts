@@ -1,8 +1,14 @@
 export * from './approve';
 export * from './decimals';
 export * from './errorExtractor';
+export * from './feeStrategy';
 export * from './math';
+export * from './multicall';
+export * from './multicallProvider';
+export * from './precise';
 export * from './slippage';
+export * from './snapshot';
 export * from './txConfig';
+export * from './txSender';
 export { default as buildTransactionRequest } from './txConfig';
 export * from './unwrap';
@@ -0,0 +1,61 @@
+// ============ External Imports ============
+import { ethers } from 'ethers';
+
+// ============ Config Imports ============
+import multicallAbi from '../../abi/Multicall3.json';
+
+/** Multicall3 is deployed at the same address on every supported chain. */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const multicallInterface = new ethers.utils.Interface(multicallAbi.abi);
+
+export interface MulticallCall {
+    target: string;
+    callData: string;
+    /** Return a failed result instead of reverting the whole batch. Defaults to true. */
+    allowFailure?: boolean;
+}
+
+export interface MulticallResult {
+    success: boolean;
+    returnData: string;
+}
+
+export abstract class Multicall {
+    /**
+     * @dev Executes view calls in a single eth_call, so every result is read at the same block.
+     * @param providerOrSigner - The ethers.js provider to interact with the blockchain.
+     * @param calls - The calls to execute, in order.
+     * @param blockTag - Optional block to read at. Defaults to the latest block.
+     * @param multicallAddress - Optional Multicall3 deployment. Defaults to MULTICALL3_ADDRESS.
+     * @returns A promise that resolves to one result per call, in order.
+     */
+    static async aggregate(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        calls: MulticallCall[],
+        blockTag?: ethers.providers.BlockTag,
+        multicallAddress: string = MULTICALL3_ADDRESS,
+    ): Promise<MulticallResult[]> {
+        if (calls.length === 0) {
+            return [];
+        }
+
+        const data = await providerOrSigner.call(
+            {
+                to: multicallAddress,
+                data: multicallInterface.encodeFunctionData('aggregate3', [
+                    calls.map((call) => ({
+                        target: call.target,
+                        allowFailure: call.allowFailure ?? true,
+                        callData: call.callData,
+                    })),
+                ]),
+                from: ethers.constants.AddressZero,
+            },
+            blockTag,
+        );
+
+        const [results] = multicallInterface.decodeFunctionResult('aggregate3', data);
+        return results.map((result: any) => ({ success: result.success, returnData: result.returnData }));
+    }
+}
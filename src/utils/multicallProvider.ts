@@ -0,0 +1,260 @@
+// ============ External Imports ============
+import { ethers } from 'ethers';
+import { Deferrable } from 'ethers/lib/utils';
+
+// ============ Internal Imports ============
+import { Multicall, MULTICALL3_ADDRESS } from './multicall';
+
+// ============ Config Imports ============
+import activeVaultAbi from '../../abi/ActiveVault.json';
+import erc20Abi from '../../abi/IERC20.json';
+import kuruAmmVaultAbi from '../../abi/KuruAMMVault.json';
+import kuruUtilsAbi from '../../abi/KuruUtils.json';
+import marginAccountAbi from '../../abi/MarginAccount.json';
+import monadDeployerAbi from '../../abi/MonadDeployer.json';
+import orderbookAbi from '../../abi/OrderBook.json';
+import rewardVaultAbi from '../../abi/RewardVault.json';
+import routerAbi from '../../abi/Router.json';
+import vaultAbi from '../../abi/Vault.json';
+import wmonAbi from '../../abi/WMon.json';
+
+export interface MulticallProviderOptions {
+    /** Multicall3 deployment used to aggregate calls. Defaults to MULTICALL3_ADDRESS. */
+    multicallAddress?: string;
+    /** Maximum number of calls aggregated into one eth_call. Defaults to 50. */
+    maxBatchSize?: number;
+    /** Time in milliseconds to wait for more calls before sending a batch. Defaults to 0. */
+    batchWindowMs?: number;
+    /** ABIs of other contracts whose view functions may be batched. */
+    abis?: any[];
+}
+
+interface PendingCall {
+    transaction: ethers.providers.TransactionRequest;
+    resolve: (result: string) => void;
+    reject: (error: any) => void;
+}
+
+/**
+ * @dev Provider that collapses concurrent eth_calls at the same block into a single Multicall3 request.
+ *      Only view functions of known ABIs are batched: Multicall3 is the caller of each aggregated call, and
+ *      state changes of one call would be visible to the next, so callStatic simulations are sent as is.
+ *      If Multicall3 is not deployed, batched calls fall back to individual requests; wrapping an ethers
+ *      JsonRpcBatchProvider then still sends them as one JSON-RPC batch.
+ *      The router, vault and margin reads wrap JSON-RPC providers in one automatically, see getReadProvider.
+ */
+export class MulticallProvider extends ethers.providers.JsonRpcProvider {
+    private pendingCalls: Map<string, PendingCall[]> = new Map();
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+    private multicallAvailable: boolean = true;
+    private readonly viewSelectors: Set<string>;
+    private readonly multicallAddress: string;
+    private readonly maxBatchSize: number;
+    private readonly batchWindowMs: number;
+
+    constructor(
+        readonly provider: ethers.providers.JsonRpcProvider,
+        options: MulticallProviderOptions = {},
+    ) {
+        super(provider.connection);
+        this.multicallAddress = options.multicallAddress ?? MULTICALL3_ADDRESS;
+        this.maxBatchSize = options.maxBatchSize ?? 50;
+        this.batchWindowMs = options.batchWindowMs ?? 0;
+        this.viewSelectors = getViewSelectors([...SDK_ABIS, ...(options.abis ?? [])]);
+    }
+
+    detectNetwork(): Promise<ethers.providers.Network> {
+        return this.provider.getNetwork();
+    }
+
+    send(method: string, params: Array<any>): Promise<any> {
+        return this.provider.send(method, params);
+    }
+
+    async call(
+        transaction: Deferrable<ethers.providers.TransactionRequest>,
+        blockTag?: ethers.providers.BlockTag | Promise<ethers.providers.BlockTag>,
+    ): Promise<string> {
+        const [tx, resolvedBlockTag] = await Promise.all([ethers.utils.resolveProperties(transaction), blockTag]);
+
+        if (!this.multicallAvailable || !this.isBatchable(tx)) {
+            return super.call(tx, resolvedBlockTag);
+        }
+
+        const key = toBlockKey(resolvedBlockTag);
+        return new Promise((resolve, reject) => {
+            const calls = this.pendingCalls.get(key) ?? [];
+            calls.push({ transaction: tx, resolve, reject });
+            this.pendingCalls.set(key, calls);
+            this.scheduleFlush();
+        });
+    }
+
+    // ======================== INTERNAL HELPER FUNCTIONS ========================
+
+    private isBatchable(tx: ethers.providers.TransactionRequest): boolean {
+        if (!tx.to || !tx.data || !ethers.utils.isAddress(tx.to)) {
+            return false;
+        }
+
+        // Calls that depend on the sender, value or gas cannot be made from the multicall contract
+        if (tx.from && tx.from !== ethers.constants.AddressZero) {
+            return false;
+        }
+        if ((tx.value && !ethers.BigNumber.from(tx.value).isZero()) || tx.gasLimit || tx.gasPrice) {
+            return false;
+        }
+
+        return this.viewSelectors.has(ethers.utils.hexlify(tx.data).slice(0, 10));
+    }
+
+    private scheduleFlush() {
+        if (this.flushTimer) {
+            return;
+        }
+
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flush();
+        }, this.batchWindowMs);
+    }
+
+    private flush() {
+        const pendingCalls = this.pendingCalls;
+        this.pendingCalls = new Map();
+
+        for (const [key, calls] of pendingCalls) {
+            const blockTag = key === 'latest' ? undefined : key;
+            for (let i = 0; i < calls.length; i += this.maxBatchSize) {
+                this.executeBatch(calls.slice(i, i + this.maxBatchSize), blockTag);
+            }
+        }
+    }
+
+    private async executeBatch(calls: PendingCall[], blockTag?: ethers.providers.BlockTag) {
+        if (calls.length === 1 || !this.multicallAvailable) {
+            calls.forEach((call) => this.executeDirect(call, blockTag));
+            return;
+        }
+
+        let results;
+        try {
+            results = await Multicall.aggregate(
+                this.provider,
+                calls.map(({ transaction }) => ({
+                    target: transaction.to!,
+                    callData: ethers.utils.hexlify(transaction.data!),
+                })),
+                blockTag,
+                this.multicallAddress,
+            );
+        } catch (error: any) {
+            // An empty result means there is no multicall contract on this chain
+            if (error.code === ethers.errors.CALL_EXCEPTION && error.data === '0x') {
+                this.multicallAvailable = false;
+            }
+            calls.forEach((call) => this.executeDirect(call, blockTag));
+            return;
+        }
+
+        calls.forEach((call, index) => {
+            // Repeat failed calls on their own so they reject with the provider's usual revert error
+            if (results[index].success) {
+                call.resolve(results[index].returnData);
+            } else {
+                this.executeDirect(call, blockTag);
+            }
+        });
+    }
+
+    private executeDirect(call: PendingCall, blockTag?: ethers.providers.BlockTag) {
+        super.call(call.transaction, blockTag).then(call.resolve, call.reject);
+    }
+}
+
+let readBatching: boolean = true;
+const readProviders: WeakMap<ethers.providers.JsonRpcProvider, MulticallProvider> = new WeakMap();
+
+/**
+ * @dev Turns the batching of SDK reads on or off for every call. Defaults to on.
+ * @param enabled - Whether reads go through a MulticallProvider.
+ */
+export function setReadBatching(enabled: boolean) {
+    readBatching = enabled;
+}
+
+/**
+ * @dev Returns the provider behind a signer. Reads go through it, since contracts connected to a signer
+ *      cannot call from the zero address.
+ * @param providerOrSigner - The provider or signer passed to the SDK.
+ * @returns The signer's provider, or providerOrSigner if it is a provider.
+ */
+export function getProvider(
+    providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+): ethers.providers.JsonRpcProvider {
+    return providerOrSigner instanceof ethers.Signer
+        ? (providerOrSigner.provider as ethers.providers.JsonRpcProvider)
+        : providerOrSigner;
+}
+
+/**
+ * @dev Returns the provider the SDK read paths use. Reads on the same JSON-RPC provider share one
+ *      MulticallProvider, so concurrent reads are batched without the caller wrapping its provider.
+ *      A signer is replaced by its provider, as reads are made from the zero address.
+ * @param providerOrSigner - The provider or signer passed to the SDK.
+ * @returns The shared MulticallProvider, or providerOrSigner if it has no JSON-RPC provider or batching is off.
+ */
+export function getReadProvider(
+    providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+): ethers.providers.JsonRpcProvider | ethers.Signer {
+    const provider = getProvider(providerOrSigner);
+    if (provider instanceof MulticallProvider) {
+        return provider;
+    }
+    if (!readBatching || !(provider instanceof ethers.providers.JsonRpcProvider)) {
+        return providerOrSigner;
+    }
+
+    let readProvider = readProviders.get(provider);
+    if (!readProvider) {
+        readProvider = new MulticallProvider(provider);
+        readProviders.set(provider, readProvider);
+    }
+    return readProvider;
+}
+
+const SDK_ABIS = [
+    activeVaultAbi.abi,
+    erc20Abi.abi,
+    kuruAmmVaultAbi.abi,
+    kuruUtilsAbi.abi,
+    marginAccountAbi.abi,
+    monadDeployerAbi.abi,
+    orderbookAbi.abi,
+    rewardVaultAbi.abi,
+    routerAbi.abi,
+    vaultAbi.abi,
+    wmonAbi,
+];
+
+function getViewSelectors(abis: any[]): Set<string> {
+    const selectors = new Set<string>();
+
+    for (const abi of abis) {
+        const contractInterface = new ethers.utils.Interface(abi);
+        for (const fragment of Object.values(contractInterface.functions)) {
+            if (fragment.constant) {
+                selectors.add(contractInterface.getSighash(fragment));
+            }
+        }
+    }
+
+    return selectors;
+}
+
+function toBlockKey(blockTag?: ethers.providers.BlockTag): string {
+    if (blockTag === undefined || blockTag === null) {
+        return 'latest';
+    }
+    return typeof blockTag === 'number' ? ethers.utils.hexValue(blockTag) : blockTag;
+}
@@ -0,0 +1,114 @@
+// ============ External Imports ============
+import { BigNumber } from 'ethers';
+
+// ============ Internal Imports ============
+import { MarketParams, PriceRoundingMode, RoundingMode } from '../types';
+import { log10BigNumber } from './math';
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * @dev Converts a decimal to an integer with the given number of decimals using string arithmetic,
+ *      so that large, tiny and exponent-notation values convert exactly.
+ * @param value - The decimal, e.g. '1.5', 1.5 or 1e-7.
+ * @param decimals - The number of decimals of the result.
+ * @param rounding - How extra digits are dropped. Defaults to 'floor'.
+ * @returns The value scaled by 10^decimals.
+ */
+export function parseDecimal(value: string | number, decimals: number, rounding: RoundingMode = 'floor'): BigNumber {
+    const match = DECIMAL_PATTERN.exec(String(value).trim());
+    if (!match || (!match[2] && !match[3])) {
+        throw new Error(`Invalid decimal value: ${value}`);
+    }
+
+    const [, sign, integer = '', fraction = '', exponent = '0'] = match;
+    const digits = integer + fraction;
+    // Position of the decimal point within the digits once scaled by 10^decimals
+    const point = integer.length + Number(exponent) + decimals;
+
+    let kept: string;
+    let dropped: string;
+    if (point <= 0) {
+        kept = '0';
+        dropped = '0'.repeat(-point) + digits;
+    } else if (point >= digits.length) {
+        kept = digits + '0'.repeat(point - digits.length);
+        dropped = '';
+    } else {
+        kept = digits.slice(0, point);
+        dropped = digits.slice(point);
+    }
+
+    const negative = sign === '-';
+    const hasRemainder = /[1-9]/.test(dropped);
+    let magnitude = BigNumber.from(kept || '0');
+
+    if (
+        (rounding === 'nearest' && dropped.length > 0 && dropped[0] >= '5') ||
+        (rounding === 'floor' && negative && hasRemainder) ||
+        (rounding === 'ceil' && !negative && hasRemainder)
+    ) {
+        magnitude = magnitude.add(1);
+    }
+
+    return negative ? magnitude.mul(-1) : magnitude;
+}
+
+/**
+ * @dev Rounds a value to a multiple of a step.
+ * @param value - The value, in the same units as the step.
+ * @param step - The step, e.g. the tick size.
+ * @param rounding - Which multiple to pick.
+ * @returns The aligned value.
+ */
+export function alignToStep(value: BigNumber, step: BigNumber, rounding: RoundingMode): BigNumber {
+    const remainder = value.mod(step);
+    if (remainder.isZero()) {
+        return value;
+    }
+
+    const lower = value.sub(remainder);
+    if (rounding === 'ceil' || (rounding === 'nearest' && remainder.mul(2).gte(step))) {
+        return lower.add(step);
+    }
+    return lower;
+}
+
+/**
+ * @dev Converts a price to pricePrecision units, the unit of order prices on chain.
+ * @param price - The price in quote per base.
+ * @param marketParams - The market parameters including price precision and tick size.
+ * @param isBuy - The side of the order, used by the spread-relative modes.
+ * @param rounding - How the price is rounded. Defaults to 'floor'.
+ * @returns The price in pricePrecision units.
+ */
+export function toPricePrecision(
+    price: string | number,
+    marketParams: MarketParams,
+    isBuy: boolean,
+    rounding: PriceRoundingMode = 'floor',
+): BigNumber {
+    const decimals = log10BigNumber(marketParams.pricePrecision);
+    if (rounding !== 'towardSpread' && rounding !== 'awayFromSpread') {
+        return parseDecimal(price, decimals, rounding);
+    }
+
+    // Rounding to whole units first does not change the tick a price aligns to
+    const direction: RoundingMode = (rounding === 'towardSpread') === isBuy ? 'ceil' : 'floor';
+    return alignToStep(parseDecimal(price, decimals, direction), marketParams.tickSize, direction);
+}
+
+/**
+ * @dev Converts a size to sizePrecision units, the unit of order sizes on chain.
+ * @param size - The size in base.
+ * @param marketParams - The market parameters including size precision.
+ * @param rounding - How the size is rounded. Defaults to 'floor'.
+ * @returns The size in sizePrecision units.
+ */
+export function toSizePrecision(
+    size: string | number,
+    marketParams: MarketParams,
+    rounding: RoundingMode = 'floor',
+): BigNumber {
+    return parseDecimal(size, log10BigNumber(marketParams.sizePrecision), rounding);
+}
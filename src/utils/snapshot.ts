@@ -0,0 +1,57 @@
+// ============ External Imports ============
+import { ethers } from 'ethers';
+
+/**
+ * @dev Pins a block so that a set of reads returns mutually consistent state.
+ *      Every read API accepts an optional blockTag, which the snapshot passes to each read.
+ */
+export class Snapshot {
+    private constructor(
+        readonly providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        readonly blockNumber: number,
+    ) {}
+
+    /**
+     * @dev Creates a snapshot at a block.
+     * @param providerOrSigner - The ethers.js provider to interact with the blockchain.
+     * @param blockTag - The block to pin, e.g. a block number or 'finalized'. Defaults to the latest block.
+     * @returns A promise that resolves to the snapshot.
+     */
+    static async at(
+        providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag: ethers.providers.BlockTag = 'latest',
+    ): Promise<Snapshot> {
+        const provider = providerOrSigner instanceof ethers.Signer ? providerOrSigner.provider! : providerOrSigner;
+
+        let blockNumber: number;
+        if (typeof blockTag === 'number') {
+            blockNumber = blockTag;
+        } else if (ethers.utils.isHexString(blockTag)) {
+            blockNumber = ethers.BigNumber.from(blockTag).toNumber();
+        } else if (blockTag === 'latest') {
+            blockNumber = await provider.getBlockNumber();
+        } else {
+            // Resolve named tags once so that every read sees the same block
+            blockNumber = (await provider.getBlock(blockTag)).number;
+        }
+
+        return new Snapshot(providerOrSigner, blockNumber);
+    }
+
+    /**
+     * @dev Runs a read at the snapshot block.
+     * @param read - Called with the snapshot block, which it passes as the blockTag of a read API.
+     */
+    read<T>(read: (blockTag: number) => Promise<T>): Promise<T> {
+        return read(this.blockNumber);
+    }
+
+    /**
+     * @dev Runs reads concurrently at the snapshot block.
+     * @param reads - Each is called with the snapshot block, which it passes as the blockTag of a read API.
+     * @returns A promise that resolves to the results, in order.
+     */
+    readAll<T extends unknown[]>(reads: [...{ [K in keyof T]: (blockTag: number) => Promise<T[K]> }]): Promise<T> {
+        return Promise.all(reads.map((read) => read(this.blockNumber))) as Promise<T>;
+    }
+}
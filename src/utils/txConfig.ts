@@ -1,5 +1,30 @@
-import { ethers } from 'ethers';
+import { BigNumber, BigNumberish, ethers } from 'ethers';
 import { TransactionOptions } from '../types';
+import { getDefaultFeeStrategy } from './feeStrategy';
+
+let defaultGasLimitBufferPercent = 20;
+
+/**
+ * @dev Sets the percentage added to estimated gas limits by every SDK call whose txOptions set no
+ *      gasLimitBufferPercent. Defaults to 20.
+ * @param percent - The buffer in percent.
+ */
+export function setDefaultGasLimitBuffer(percent: number) {
+    defaultGasLimitBufferPercent = percent;
+}
+
+/**
+ * @dev Adds the gas limit buffer of txOptions, or the SDK-wide default, to an estimated gas limit.
+ * @param estimatedGas - The estimated gas limit.
+ * @param txOptions - Optional transaction parameters.
+ * @returns The buffered gas limit.
+ */
+export function applyGasLimitBuffer(estimatedGas: BigNumberish, txOptions?: TransactionOptions): BigNumber {
+    const percent = txOptions?.gasLimitBufferPercent ?? defaultGasLimitBufferPercent;
+    return BigNumber.from(estimatedGas)
+        .mul(100 + percent)
+        .div(100);
+}
 
 export default async function buildTransactionRequest({
     from,
@@ -32,31 +57,49 @@ export default async function buildTransactionRequest({
         }),
     };
 
-    const [gasLimit, baseGasPrice] = await Promise.all([
+    // Fees set by the caller are kept as they are, and the strategy prices the rest
+    const feeStrategy = txOptions?.feeStrategy ?? getDefaultFeeStrategy();
+    const [estimatedGas, fees] = await Promise.all([
         !tx.gasLimit
             ? signer.estimateGas({
                   ...tx,
                   gasPrice: ethers.utils.parseUnits('1', 'gwei'),
+                  maxFeePerGas: undefined,
+                  maxPriorityFeePerGas: undefined,
               })
-            : Promise.resolve(tx.gasLimit),
-        !tx.gasPrice && !tx.maxFeePerGas ? signer.provider!.getGasPrice() : Promise.resolve(undefined),
+            : Promise.resolve(undefined),
+        !tx.gasPrice && !tx.maxFeePerGas
+            ? feeStrategy.getFees(signer.provider!, txOptions)
+            : Promise.resolve(undefined),
     ]);
 
-    if (!tx.gasLimit) {
-        tx.gasLimit = gasLimit;
+    // A caller's gas limit is used as is, and only estimates are buffered
+    if (estimatedGas) {
+        tx.gasLimit = applyGasLimitBuffer(estimatedGas, txOptions);
     }
 
-    const increasedGasLimit = ethers.BigNumber.from(gasLimit).mul(120).div(100);
-    tx.gasLimit = increasedGasLimit;
-
-    if (!tx.gasPrice && !tx.maxFeePerGas && baseGasPrice) {
-        if (txOptions?.priorityFee) {
-            const priorityFeeWei = ethers.utils.parseUnits(txOptions.priorityFee.toString(), 'gwei');
-            tx.gasPrice = baseGasPrice.add(priorityFeeWei);
-        } else {
-            tx.gasPrice = baseGasPrice;
-        }
+    if (fees?.gasPrice) {
+        tx.gasPrice = fees.gasPrice;
+        delete tx.maxPriorityFeePerGas;
+    } else if (fees) {
+        tx.maxFeePerGas = fees.maxFeePerGas;
+        tx.maxPriorityFeePerGas = fees.maxPriorityFeePerGas;
     }
 
     return tx;
 }
+
+/**
+ * @dev Sends a transaction through txOptions.txSender when one is set, and through the signer otherwise.
+ * @param signer - The signer instance. Ignored when a txSender is set, which sends with its own signer.
+ * @param tx - The transaction request.
+ * @param txOptions - The transaction options the request was built with.
+ * @returns A promise that resolves to the transaction response.
+ */
+export function sendTransactionRequest(
+    signer: ethers.Signer,
+    tx: ethers.providers.TransactionRequest,
+    txOptions?: TransactionOptions,
+): Promise<ethers.providers.TransactionResponse> {
+    return txOptions?.txSender ? txOptions.txSender.sendTransaction(tx) : signer.sendTransaction(tx);
+}
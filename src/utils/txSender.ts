@@ -0,0 +1,259 @@
+// ============ External Imports ============
+import { BigNumber, ethers } from 'ethers';
+
+// ============ Internal Imports ============
+import { TransactionOptions } from '../types';
+import { LegacyFeeStrategy } from './feeStrategy';
+import buildTransactionRequest from './txConfig';
+
+export interface TxSenderOptions {
+    /** Interval in milliseconds between checks that a sent transaction is still known to the node. Defaults to 2000. */
+    pollIntervalMs?: number;
+    /** Consecutive checks a transaction may be missing for before it is considered dropped. Defaults to 3. */
+    maxMissedPolls?: number;
+    /** Percentage a replacement's fees are bumped by in speedUp and cancelPending. Defaults to 10. */
+    feeBumpPercent?: number;
+}
+
+/**
+ * @dev Sends the transactions of one signer with locally allocated nonces, so that concurrent sends neither collide
+ *      nor wait for each other to be mined. Sends are queued and submitted in order, and stuck ones can be sped up or
+ *      canceled. Pass it as txOptions.txSender to any SDK call to route its transactions through it.
+ */
+export class TxSender {
+    private nextNonce: number | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+    /** Pending transactions sent through this sender, by hash. */
+    private sent: Map<string, ethers.providers.TransactionResponse> = new Map();
+    /** The hash of the latest replacement of each replaced transaction. */
+    private replacedBy: Map<string, string> = new Map();
+    private readonly pollIntervalMs: number;
+    private readonly maxMissedPolls: number;
+    private readonly feeBumpPercent: number;
+
+    constructor(
+        readonly signer: ethers.Signer,
+        options: TxSenderOptions = {},
+    ) {
+        this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+        this.maxMissedPolls = options.maxMissedPolls ?? 3;
+        this.feeBumpPercent = options.feeBumpPercent ?? 10;
+    }
+
+    /**
+     * @dev Resets the next nonce to the signer's pending transaction count.
+     * @returns A promise that resolves to the next nonce.
+     */
+    async sync(): Promise<number> {
+        this.nextNonce = await this.signer.getTransactionCount('pending');
+        return this.nextNonce;
+    }
+
+    /**
+     * @dev Queues a transaction and submits it with the next nonce, unless it already has one. The returned response's
+     *      wait rejects if the transaction is dropped, and resolves to the replacement's receipt if it is repriced.
+     * @param tx - The transaction request, e.g. from a construct*Transaction function.
+     * @returns A promise that resolves once the transaction is submitted.
+     */
+    async sendTransaction(tx: ethers.providers.TransactionRequest): Promise<ethers.providers.TransactionResponse> {
+        const [response] = await this.sendTransactions([tx]);
+        return response;
+    }
+
+    /**
+     * @dev Submits transactions back to back with consecutive nonces, with no other send in between.
+     * @param txs - The transaction requests, in nonce order.
+     * @returns A promise that resolves once every transaction is submitted.
+     */
+    sendTransactions(txs: ethers.providers.TransactionRequest[]): Promise<ethers.providers.TransactionResponse[]> {
+        const result = this.queue.then(async () => {
+            const responses: ethers.providers.TransactionResponse[] = [];
+            for (const tx of txs) {
+                responses.push(await this.submit(tx));
+            }
+            return responses;
+        });
+
+        // A failed send must not block the sends queued behind it
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * @dev Resends a pending transaction with the same nonce and bumped fees. The original's wait resolves to the
+     *      replacement's receipt once it is mined.
+     * @param txHash - The hash of the pending transaction.
+     * @param feeBumpPercent - Optional percentage to bump the fees by. Defaults to the sender's feeBumpPercent.
+     * @returns A promise that resolves once the replacement is submitted.
+     */
+    async speedUp(txHash: string, feeBumpPercent?: number): Promise<ethers.providers.TransactionResponse> {
+        const original = await this.getPending(txHash);
+
+        return this.replace(
+            original,
+            { to: original.to!, data: original.data, value: original.value, gasLimit: original.gasLimit },
+            feeBumpPercent,
+        );
+    }
+
+    /**
+     * @dev Replaces a pending transaction with an empty transfer to the signer itself, with the same nonce and
+     *      bumped fees. The original's wait rejects with a TRANSACTION_REPLACED error once the transfer is mined.
+     * @param txHash - The hash of the pending transaction.
+     * @param feeBumpPercent - Optional percentage to bump the fees by. Defaults to the sender's feeBumpPercent.
+     * @returns A promise that resolves once the transfer is submitted.
+     */
+    async cancelPending(txHash: string, feeBumpPercent?: number): Promise<ethers.providers.TransactionResponse> {
+        const original = await this.getPending(txHash);
+
+        return this.replace(
+            original,
+            { to: original.from, data: '0x', value: BigNumber.from(0), gasLimit: BigNumber.from(21000) },
+            feeBumpPercent,
+        );
+    }
+
+    // ======================== INTERNAL HELPER FUNCTIONS ========================
+
+    private async getPending(txHash: string): Promise<ethers.providers.TransactionResponse> {
+        const provider = this.signer.provider!;
+        const [original, receipt] = await Promise.all([
+            this.sent.get(txHash) ?? provider.getTransaction(txHash),
+            provider.getTransactionReceipt(txHash),
+        ]);
+
+        if (receipt) {
+            throw new Error(`Transaction ${txHash} is already mined`);
+        }
+        if (!original) {
+            throw new Error(`Transaction ${txHash} is not pending`);
+        }
+        return original;
+    }
+
+    private async replace(
+        original: ethers.providers.TransactionResponse,
+        request: { to: string; data: string; value: BigNumber; gasLimit: BigNumber },
+        feeBumpPercent: number = this.feeBumpPercent,
+    ): Promise<ethers.providers.TransactionResponse> {
+        const bump = (fee: BigNumber) => fee.mul(100 + feeBumpPercent).div(100);
+        const max = (a: BigNumber, b?: BigNumber | null) => (b && b.gt(a) ? b : a);
+        const isEip1559 = original.maxFeePerGas !== undefined && original.maxFeePerGas !== null;
+
+        // Priced like any other SDK transaction, and never below what the original pays
+        let txOptions: TransactionOptions = { feeStrategy: new LegacyFeeStrategy() };
+        if (isEip1559) {
+            const feeData = await this.signer.provider!.getFeeData();
+            txOptions = {
+                maxFeePerGas: bump(max(original.maxFeePerGas!, feeData.maxFeePerGas)),
+                maxPriorityFeePerGas: bump(max(original.maxPriorityFeePerGas!, feeData.maxPriorityFeePerGas)),
+            };
+        }
+
+        const tx = await buildTransactionRequest({
+            ...request,
+            from: original.from,
+            signer: this.signer,
+            txOptions: { ...txOptions, nonce: original.nonce, gasLimit: request.gasLimit },
+        });
+        if (!isEip1559) {
+            tx.gasPrice = bump(max(original.gasPrice!, tx.gasPrice ? BigNumber.from(tx.gasPrice) : undefined));
+        }
+
+        const replacement = await this.sendTransaction(tx);
+        this.sent.delete(original.hash);
+        for (const [hash, latest] of this.replacedBy) {
+            if (latest === original.hash) {
+                this.replacedBy.set(hash, replacement.hash);
+            }
+        }
+        this.replacedBy.set(original.hash, replacement.hash);
+        return replacement;
+    }
+
+    private async submit(
+        tx: ethers.providers.TransactionRequest,
+        isRetry: boolean = false,
+    ): Promise<ethers.providers.TransactionResponse> {
+        const nextNonce = this.nextNonce ?? (await this.sync());
+        const nonce = tx.nonce !== undefined ? BigNumber.from(tx.nonce).toNumber() : nextNonce;
+
+        try {
+            const response = await this.signer.sendTransaction({ ...tx, nonce });
+            // The nonce is only consumed once the node accepts the transaction
+            this.nextNonce = Math.max(this.nextNonce ?? 0, nonce + 1);
+            this.sent.set(response.hash, response);
+            return this.track(response);
+        } catch (e: any) {
+            if (tx.nonce === undefined && !isRetry && isNonceError(e)) {
+                await this.sync();
+                return this.submit(tx, true);
+            }
+            throw e;
+        }
+    }
+
+    private track(response: ethers.providers.TransactionResponse): ethers.providers.TransactionResponse {
+        const wait = response.wait.bind(response);
+        const provider = this.signer.provider!;
+
+        response.wait = (confirmations?: number) => {
+            let isSettled = false;
+            let timer: ReturnType<typeof setTimeout> | undefined;
+
+            // A transaction the node no longer knows, whose nonce is still unused, was dropped from the mempool
+            const dropped = new Promise<never>((_, reject) => {
+                let missedPolls = 0;
+                const check = async () => {
+                    try {
+                        // A replaced transaction is pending for as long as its latest replacement is
+                        const [known, minedCount] = await Promise.all([
+                            provider.getTransaction(this.replacedBy.get(response.hash) ?? response.hash),
+                            this.signer.getTransactionCount('latest'),
+                        ]);
+                        missedPolls = !known && minedCount <= response.nonce ? missedPolls + 1 : 0;
+                    } catch {
+                        // Check again on the next poll
+                    }
+
+                    if (isSettled) {
+                        return;
+                    }
+                    if (missedPolls >= this.maxMissedPolls) {
+                        // Later nonces are stuck behind the gap, so the next send starts from the chain again
+                        this.nextNonce = null;
+                        reject(new Error(`Transaction ${response.hash} was dropped`));
+                        return;
+                    }
+                    timer = setTimeout(check, this.pollIntervalMs);
+                };
+                timer = setTimeout(check, this.pollIntervalMs);
+            });
+
+            const mined = wait(confirmations).catch((e: any) => {
+                // A repriced replacement does the same thing, so its receipt stands in for the original's
+                if (e.code === ethers.errors.TRANSACTION_REPLACED && !e.cancelled) {
+                    return e.receipt as ethers.providers.TransactionReceipt;
+                }
+                throw e;
+            });
+
+            return Promise.race([mined, dropped]).finally(() => {
+                isSettled = true;
+                clearTimeout(timer);
+                this.sent.delete(response.hash);
+                this.replacedBy.delete(response.hash);
+            });
+        };
+
+        return response;
+    }
+}
+
+function isNonceError(e: any): boolean {
+    return (
+        e.code === ethers.errors.NONCE_EXPIRED ||
+        e.code === ethers.errors.REPLACEMENT_UNDERPRICED ||
+        /nonce too low|already known/i.test(e.message ?? '')
+    );
+}
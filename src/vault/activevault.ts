@@ -27,14 +27,16 @@ export class ActiveVault {
      * Get the vault context including base and quote token addresses
      * @param vaultAddress The address of the active vault contract
      * @param providerOrSigner The provider or signer to use
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise that resolves to the vault context
      */
     static async getVaultContext(
         vaultAddress: string,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<VaultContext> {
         const vaultContract = new ethers.Contract(vaultAddress, activeVaultAbi.abi, providerOrSigner);
-        const ctx = await vaultContract.ctx();
+        const ctx = await vaultContract.ctx({ blockTag });
 
         return {
             book: ctx.book,
@@ -53,14 +55,16 @@ export class ActiveVault {
      * Get the current notional values of the vault
      * @param vaultAddress The address of the active vault contract
      * @param providerOrSigner The provider or signer to use
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise that resolves to base and quote notional values
      */
     static async getNotionalValues(
         vaultAddress: string,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<{ baseNotional: BigNumber; quoteNotional: BigNumber }> {
         const vaultContract = new ethers.Contract(vaultAddress, activeVaultAbi.abi, providerOrSigner);
-        const [baseNotional, quoteNotional] = await vaultContract.calculateNotionalValue();
+        const [baseNotional, quoteNotional] = await vaultContract.calculateNotionalValue({ blockTag });
 
         return { baseNotional, quoteNotional };
     }
@@ -70,14 +74,16 @@ export class ActiveVault {
      * @param baseAmount The amount of base token
      * @param vaultAddress The address of the active vault contract
      * @param providerOrSigner The provider or signer to use
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise that resolves to the required quote amount
      */
     static async calculateQuoteForBase(
         baseAmount: BigNumber,
         vaultAddress: string,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<BigNumber> {
-        const { baseNotional, quoteNotional } = await this.getNotionalValues(vaultAddress, providerOrSigner);
+        const { baseNotional, quoteNotional } = await this.getNotionalValues(vaultAddress, providerOrSigner, blockTag);
 
         // If vault is empty, return 0
         if (baseNotional.isZero() || quoteNotional.isZero()) {
@@ -94,14 +100,16 @@ export class ActiveVault {
      * @param quoteAmount The amount of quote token
      * @param vaultAddress The address of the active vault contract
      * @param providerOrSigner The provider or signer to use
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise that resolves to the required base amount
      */
     static async calculateBaseForQuote(
         quoteAmount: BigNumber,
         vaultAddress: string,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<BigNumber> {
-        const { baseNotional, quoteNotional } = await this.getNotionalValues(vaultAddress, providerOrSigner);
+        const { baseNotional, quoteNotional } = await this.getNotionalValues(vaultAddress, providerOrSigner, blockTag);
 
         // If vault is empty, return 0
         if (baseNotional.isZero() || quoteNotional.isZero()) {
@@ -119,6 +127,7 @@ export class ActiveVault {
      * @param quoteAmount The amount of quote token to deposit
      * @param vaultAddress The address of the active vault contract
      * @param providerOrSigner The provider or signer to use
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise that resolves to the number of shares
      */
     static async previewDeposit(
@@ -126,9 +135,10 @@ export class ActiveVault {
         quoteAmount: BigNumber,
         vaultAddress: string,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<BigNumber> {
         const vaultContract = new ethers.Contract(vaultAddress, activeVaultAbi.abi, providerOrSigner);
-        return await vaultContract.previewDepositInShares(baseAmount, quoteAmount);
+        return await vaultContract.previewDepositInShares(baseAmount, quoteAmount, { blockTag });
     }
 
     /**
@@ -136,15 +146,17 @@ export class ActiveVault {
      * @param shares The number of shares to withdraw
      * @param vaultAddress The address of the active vault contract
      * @param providerOrSigner The provider or signer to use
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise that resolves to base and quote amounts
      */
     static async previewWithdraw(
         shares: BigNumber,
         vaultAddress: string,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<{ baseAmount: BigNumber; quoteAmount: BigNumber }> {
         const vaultContract = new ethers.Contract(vaultAddress, activeVaultAbi.abi, providerOrSigner);
-        const [baseAmount, quoteAmount] = await vaultContract.previewWithdrawInAmounts(shares);
+        const [baseAmount, quoteAmount] = await vaultContract.previewWithdrawInAmounts(shares, { blockTag });
 
         return { baseAmount, quoteAmount };
     }
@@ -154,15 +166,17 @@ export class ActiveVault {
      * @param vaultAddress The address of the active vault contract
      * @param userAddress The address of the user
      * @param providerOrSigner The provider or signer to use
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise that resolves to the share balance
      */
     static async getShareBalance(
         vaultAddress: string,
         userAddress: string,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<BigNumber> {
         const vaultContract = new ethers.Contract(vaultAddress, activeVaultAbi.abi, providerOrSigner);
-        return await vaultContract.balanceOf(userAddress);
+        return await vaultContract.balanceOf(userAddress, { blockTag });
     }
 
     /**
@@ -324,8 +338,10 @@ export class ActiveVault {
     ): Promise<[BigNumber, BigNumber]> {
         const ctx = context ?? (await this.getVaultContext(vaultAddress, providerOrSigner));
         const { book } = ctx;
-        const mp = marketParams ?? (await ParamFetcher.getMarketParams(providerOrSigner, book));
-        const { baseAmount, quoteAmount } = await ActiveVault.previewWithdraw(shares, vaultAddress, providerOrSigner);
+        const [mp, { baseAmount, quoteAmount }] = await Promise.all([
+            marketParams ?? ParamFetcher.getMarketParams(providerOrSigner, book),
+            ActiveVault.previewWithdraw(shares, vaultAddress, providerOrSigner),
+        ]);
         const size = isBaseForSwap
             ? baseAmount.mul(mp.sizePrecision).div(ethers.utils.parseUnits('1', mp.baseAssetDecimals))
             : quoteAmount.mul(mp.pricePrecision).div(ethers.utils.parseUnits('1', mp.quoteAssetDecimals));
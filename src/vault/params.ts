@@ -12,15 +12,17 @@ export abstract class VaultParamFetcher {
      * @dev Retrieves the vault parameters from the order book contract.
      * @param providerOrSigner - The ethers.js provider to interact with the blockchain.
      * @param orderbookAddress - The address of the order book contract.
+     * @param blockTag - Optional block to read at. Defaults to the latest block.
      * @returns A promise that resolves to the vault parameters.
      */
     static async getVaultParams(
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
         orderbookAddress: string,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<VaultParams> {
         const orderbook = new ethers.Contract(orderbookAddress, orderbookAbi.abi, providerOrSigner);
 
-        const vaultParamsData = await orderbook.getVaultParams({ from: ethers.constants.AddressZero });
+        const vaultParamsData = await orderbook.getVaultParams({ from: ethers.constants.AddressZero, blockTag });
         return {
             kuruAmmVault: vaultParamsData[0],
             vaultBestBid: BigNumber.from(vaultParamsData[1]),
@@ -1,11 +1,11 @@
 // ============ External Imports ============
 import { BigNumber, ContractReceipt, ethers } from 'ethers';
 import { VaultParamFetcher } from './params';
-import { MarketParams, TransactionOptions, VaultParams } from 'src/types';
+import { MarketParams, TransactionOptions } from 'src/types';
 import { parseUnits } from 'ethers/lib/utils';
 
 // ============ Internal Imports ============
-import { getTokenDecimals, approveToken } from '../utils';
+import { getTokenDecimals, approveToken, getReadProvider } from '../utils';
 import vaultAbi from '../../abi/Vault.json';
 import marginAbi from '../../abi/MarginAccount.json';
 import erc20Abi from '../../abi/IERC20.json';
@@ -45,6 +45,7 @@ export abstract class Vault {
      * Return the shares owned by an address in a vault
      * @param vaultAddress The address of vault contract
      * @param signer The signer to use for the transaction
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise resolving to the number of shares of an address in a vault
      */
 
@@ -52,10 +53,12 @@ export abstract class Vault {
         vaultAddress: string,
         userAddress: string,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<BigNumber> {
-        const vaultContract = new ethers.Contract(vaultAddress, vaultAbi.abi, providerOrSigner);
+        const vaultContract = new ethers.Contract(vaultAddress, vaultAbi.abi, getReadProvider(providerOrSigner));
         return await vaultContract.balanceOf(userAddress, {
             from: ethers.constants.AddressZero,
+            blockTag,
         });
     }
 
@@ -65,6 +68,7 @@ export abstract class Vault {
      * @param marketAddress The address of the market contract
      * @param marginAccountAddress The address of the margin account contract
      * @param providerOrSigner The provider or signer to use for the transaction
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise that resolves to an object containing token1 and token2 address and balance
      */
 
@@ -74,15 +78,24 @@ export abstract class Vault {
         quoteAssetAddress: string,
         marginAccountAddress: string,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ) {
-        const marginAccountContract = new ethers.Contract(marginAccountAddress, marginAbi.abi, providerOrSigner);
-
-        const token1 = await marginAccountContract.getBalance(vaultAddress, baseAssetAddress, {
-            from: ethers.constants.AddressZero,
-        });
-        const token2 = await marginAccountContract.getBalance(vaultAddress, quoteAssetAddress, {
-            from: ethers.constants.AddressZero,
-        });
+        const marginAccountContract = new ethers.Contract(
+            marginAccountAddress,
+            marginAbi.abi,
+            getReadProvider(providerOrSigner),
+        );
+
+        const [token1, token2] = await Promise.all([
+            marginAccountContract.getBalance(vaultAddress, baseAssetAddress, {
+                from: ethers.constants.AddressZero,
+                blockTag,
+            }),
+            marginAccountContract.getBalance(vaultAddress, quoteAssetAddress, {
+                from: ethers.constants.AddressZero,
+                blockTag,
+            }),
+        ]);
 
         return {
             token1: {
@@ -101,16 +114,19 @@ export abstract class Vault {
      * @param shares The number of shares to mint
      * @param vaultAddress The address of the vault contract
      * @param providerOrSigner The provider or signer to use for the transaction
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise that resolves to an object containing amount1 and amount2
      */
     static async calculateDepositForShares(
         shares: BigNumber,
         vaultAddress: string,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<{ amount1: BigNumber; amount2: BigNumber }> {
-        const vaultContract = new ethers.Contract(vaultAddress, vaultAbi.abi, providerOrSigner);
+        const vaultContract = new ethers.Contract(vaultAddress, vaultAbi.abi, getReadProvider(providerOrSigner));
         const [amount1, amount2] = await vaultContract.previewMint(shares, {
             from: ethers.constants.AddressZero,
+            blockTag,
         });
         return { amount1, amount2 };
     }
@@ -120,16 +136,19 @@ export abstract class Vault {
      * @param shares The number of shares to burn
      * @param vaultAddress The address of the vault contract
      * @param providerOrSigner The provider or signer to use for the transaction
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise that resolves to an object containing amount1 and amount2
      */
     static async calculateWithdrawForShares(
         shares: BigNumber,
         vaultAddress: string,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<{ amount1: BigNumber; amount2: BigNumber }> {
-        const vaultContract = new ethers.Contract(vaultAddress, vaultAbi.abi, providerOrSigner);
+        const vaultContract = new ethers.Contract(vaultAddress, vaultAbi.abi, getReadProvider(providerOrSigner));
         const [amount1, amount2] = await vaultContract.previewWithdraw(shares, {
             from: ethers.constants.AddressZero,
+            blockTag,
         });
         return { amount1, amount2 };
     }
@@ -140,6 +159,7 @@ export abstract class Vault {
      * @param amount2 The amount of token2 to deposit
      * @param vaultAddress The address of the vault contract
      * @param providerOrSigner The provider or signer to use for the transaction
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise that resolves to the number of shares
      */
     static async calculateSharesForDeposit(
@@ -147,10 +167,12 @@ export abstract class Vault {
         amount2: BigNumber,
         vaultAddress: string,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<BigNumber> {
-        const vaultContract = new ethers.Contract(vaultAddress, vaultAbi.abi, providerOrSigner);
+        const vaultContract = new ethers.Contract(vaultAddress, vaultAbi.abi, getReadProvider(providerOrSigner));
         return await vaultContract.previewDeposit(amount1, amount2, {
             from: ethers.constants.AddressZero,
+            blockTag,
         });
     }
 
@@ -159,6 +181,7 @@ export abstract class Vault {
      * @param amount1 The amount of token1
      * @param marketAddress The address of the market contract
      * @param providerOrSigner The provider or signer to use for the transaction
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise that resolves to the amount of token2 needed
      */
     static async calculateAmount2ForAmount1(
@@ -166,14 +189,18 @@ export abstract class Vault {
         marketAddress: string,
         marketParams: MarketParams,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<BigNumber> {
-        const vaultParams: VaultParams = await VaultParamFetcher.getVaultParams(providerOrSigner, marketAddress);
+        const readProvider = getReadProvider(providerOrSigner);
+        const [vaultParams, token1Decimals, token2Decimals] = await Promise.all([
+            VaultParamFetcher.getVaultParams(readProvider, marketAddress, blockTag),
+            getTokenDecimals(marketParams.baseAssetAddress, readProvider),
+            getTokenDecimals(marketParams.quoteAssetAddress, readProvider),
+        ]);
         const price = vaultParams.vaultBestAsk;
         if (price.eq(ethers.constants.MaxUint256)) {
             throw new Error('Vault has no liquidity');
         }
-        const token1Decimals = await getTokenDecimals(marketParams.baseAssetAddress, providerOrSigner);
-        const token2Decimals = await getTokenDecimals(marketParams.quoteAssetAddress, providerOrSigner);
         //amount2 = (amount1 * price * 10^token2Decimals) / (10^token1Decimals * 10^18)
         return amount1
             .mul(price)
@@ -187,6 +214,7 @@ export abstract class Vault {
      * @param amount2 The amount of token2
      * @param marketAddress The address of the market contract
      * @param providerOrSigner The provider or signer to use for the transaction
+     * @param blockTag Optional block to read at. Defaults to the latest block
      * @returns A promise that resolves to the amount of token1 needed
      */
     static async calculateAmount1ForAmount2(
@@ -194,14 +222,18 @@ export abstract class Vault {
         marketAddress: string,
         marketParams: MarketParams,
         providerOrSigner: ethers.providers.JsonRpcProvider | ethers.Signer,
+        blockTag?: ethers.providers.BlockTag,
     ): Promise<BigNumber> {
-        const vaultParams: VaultParams = await VaultParamFetcher.getVaultParams(providerOrSigner, marketAddress);
+        const readProvider = getReadProvider(providerOrSigner);
+        const [vaultParams, token1Decimals, token2Decimals] = await Promise.all([
+            VaultParamFetcher.getVaultParams(readProvider, marketAddress, blockTag),
+            getTokenDecimals(marketParams.baseAssetAddress, readProvider),
+            getTokenDecimals(marketParams.quoteAssetAddress, readProvider),
+        ]);
         const price = vaultParams.vaultBestAsk;
         if (price.eq(ethers.constants.MaxUint256)) {
             throw new Error('Vault has no liquidity');
         }
-        const token1Decimals = await getTokenDecimals(marketParams.baseAssetAddress, providerOrSigner);
-        const token2Decimals = await getTokenDecimals(marketParams.quoteAssetAddress, providerOrSigner);
         //amount1 = (amount2 * 10^token1Decimals * 10^18) / (price * 10^token2Decimals)
         return amount2
             .mul(parseUnits('1', token1Decimals))
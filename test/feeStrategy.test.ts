@@ -0,0 +1,81 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+
+describe('FeeStrategy', () => {
+    // Well-known development key
+    const privateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+    const to = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    const gwei = (value: string) => ethers.utils.parseUnits(value, 'gwei');
+
+    const createSigner = () => {
+        const provider = new ethers.providers.JsonRpcProvider('http://localhost:8545', { chainId: 1, name: 'test' });
+        const signer = new ethers.Wallet(privateKey, provider);
+
+        provider.send = async (method: string) => {
+            switch (method) {
+                case 'eth_chainId':
+                    return '0x1';
+                case 'eth_gasPrice':
+                    return gwei('1').toHexString();
+                case 'eth_estimateGas':
+                    return '0x186a0';
+                case 'eth_feeHistory':
+                    return {
+                        oldestBlock: '0x1',
+                        baseFeePerGas: [gwei('1'), gwei('1.5'), gwei('2')].map((fee) => fee.toHexString()),
+                        reward: [[gwei('0.1').toHexString()], [gwei('0.3').toHexString()]],
+                    };
+            }
+            throw new Error(`Unexpected ${method}`);
+        };
+
+        return signer;
+    };
+
+    const build = (txOptions?: KuruSdk.TransactionOptions) => {
+        const signer = createSigner();
+        return KuruSdk.buildTransactionRequest({ from: signer.address, to, data: '0x', signer, txOptions });
+    };
+
+    afterEach(() => {
+        KuruSdk.setDefaultFeeStrategy(new KuruSdk.LegacyFeeStrategy());
+        KuruSdk.setDefaultGasLimitBuffer(20);
+    });
+
+    it('should only buffer estimated gas limits', async () => {
+        expect((await build()).gasLimit!.toString()).toBe('120000');
+        expect((await build({ gasLimitBufferPercent: 50 })).gasLimit!.toString()).toBe('150000');
+        expect((await build({ gasLimit: ethers.BigNumber.from(90000) })).gasLimit!.toString()).toBe('90000');
+
+        KuruSdk.setDefaultGasLimitBuffer(0);
+        expect((await build()).gasLimit!.toString()).toBe('100000');
+    });
+
+    it('should price legacy transactions with the priority fee on top', async () => {
+        const tx = await build({ priorityFee: 0.5 });
+
+        expect(tx.gasPrice!.toString()).toBe(gwei('1.5').toString());
+        expect(tx.maxFeePerGas).toBeUndefined();
+    });
+
+    it('should price EIP-1559 transactions from the fee history', async () => {
+        const feeStrategy = new KuruSdk.Eip1559FeeStrategy({ blockCount: 2, rewardPercentile: 25 });
+        const tx = await build({ feeStrategy });
+
+        // Twice the next base fee plus the average reward
+        expect(tx.maxFeePerGas!.toString()).toBe(gwei('4.2').toString());
+        expect(tx.maxPriorityFeePerGas!.toString()).toBe(gwei('0.2').toString());
+        expect(tx.gasPrice).toBeUndefined();
+
+        const tipped = await build({ feeStrategy, maxPriorityFeePerGas: gwei('1') });
+        expect(tipped.maxFeePerGas!.toString()).toBe(gwei('5').toString());
+    });
+
+    it('should use the SDK-wide strategy unless the caller sets fees', async () => {
+        KuruSdk.setDefaultFeeStrategy(new KuruSdk.FixedFeeStrategy({ gasPrice: gwei('7') }));
+
+        expect((await build()).gasPrice!.toString()).toBe(gwei('7').toString());
+        expect((await build({ gasPrice: gwei('3') })).gasPrice!.toString()).toBe(gwei('3').toString());
+    });
+});
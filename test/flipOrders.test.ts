@@ -0,0 +1,116 @@
+import { describe, it, expect } from '@jest/globals';
+import { ContractReceipt, ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+import { createMarketParams } from './helpers/fixtures';
+
+describe('FlipOrders', () => {
+    const orderbookAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    const userAddress = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+    // Well-known development key
+    const privateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+    const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+    const marketParams = createMarketParams();
+
+    // Gas limit and price are set, so building a transaction needs no RPC
+    const txOptions = { gasLimit: ethers.BigNumber.from(100000), gasPrice: ethers.BigNumber.from(1) };
+    const signer = new ethers.Wallet(privateKey);
+
+    const estimates: string[] = [];
+    const mockProvider = {
+        _isProvider: true,
+        getNetwork: () => Promise.resolve({ chainId: 1 }),
+        estimateGas: async (tx: any) => {
+            estimates.push(orderbookInterface.parseTransaction({ data: tx.data }).name);
+            return ethers.BigNumber.from(21000);
+        },
+    } as any;
+
+    const flipOrder = (isBuy: boolean, price: string, flippedPrice: string): KuruSdk.FLIP => ({
+        price,
+        flippedPrice,
+        size: '1.5',
+        isBuy,
+        provisionOrRevert: true,
+    });
+
+    it('should encode flip buy and sell orders', async () => {
+        const price = ethers.BigNumber.from(200);
+        const flippedPrice = ethers.BigNumber.from(210);
+        const size = ethers.BigNumber.from(1500);
+
+        const buy = await KuruSdk.FlipOrders.constructFlipBuyOrderTransaction(
+            signer,
+            orderbookAddress,
+            price,
+            flippedPrice,
+            size,
+            true,
+            txOptions,
+        );
+        const sell = await KuruSdk.FlipOrders.constructFlipSellOrderTransaction(
+            signer,
+            orderbookAddress,
+            flippedPrice,
+            price,
+            size,
+            false,
+            txOptions,
+        );
+
+        const buyCall = orderbookInterface.parseTransaction({ data: buy.data as string });
+        expect(buyCall.name).toBe('addFlipBuyOrder');
+        expect(buyCall.args.map(String)).toEqual(['200', '210', '1500', 'true']);
+        expect(buy.to).toBe(orderbookAddress);
+        expect(buy.from).toBe(userAddress);
+
+        const sellCall = orderbookInterface.parseTransaction({ data: sell.data as string });
+        expect(sellCall.name).toBe('addFlipSellOrder');
+        expect(sellCall.args.map(String)).toEqual(['210', '200', '1500', 'false']);
+    });
+
+    it('should require the flipped price on the other side of the price', async () => {
+        await expect(
+            KuruSdk.FlipOrders.estimateGas(mockProvider, orderbookAddress, marketParams, flipOrder(true, '2', '2')),
+        ).rejects.toThrow('Flipped price of a flip buy order must be above its price');
+        await expect(
+            KuruSdk.FlipOrders.estimateGas(mockProvider, orderbookAddress, marketParams, flipOrder(false, '2', '2.1')),
+        ).rejects.toThrow('Flipped price of a flip sell order must be below its price');
+        expect(estimates).toEqual([]);
+
+        await KuruSdk.FlipOrders.estimateGas(mockProvider, orderbookAddress, marketParams, flipOrder(true, '2', '2.1'));
+        await KuruSdk.FlipOrders.estimateGas(
+            mockProvider,
+            orderbookAddress,
+            marketParams,
+            flipOrder(false, '2.1', '2'),
+        );
+        expect(estimates).toEqual(['addFlipBuyOrder', 'addFlipSellOrder']);
+    });
+
+    it('should decode the created flip orders of a receipt', () => {
+        const makeLog = (eventName: string, values: any[]) =>
+            ({
+                ...orderbookInterface.encodeEventLog(orderbookInterface.getEvent(eventName), values),
+                address: orderbookAddress,
+            }) as ethers.providers.Log;
+
+        const receipt = {
+            logs: [
+                makeLog('FlipOrderCreated', [7, 0, userAddress, 1500, 200, 210, true]),
+                makeLog('OrderCreated', [8, userAddress, 1500, 200, true]),
+                makeLog('FlipOrderCreated', [9, 0, userAddress, 500, 220, 205, false]),
+            ],
+        } as ContractReceipt;
+
+        const flipOrders = KuruSdk.FlipOrders.parseFlipOrderCreatedEvents(receipt);
+        expect(flipOrders).toHaveLength(2);
+        expect(flipOrders[0].ownerAddress).toBe(userAddress);
+        expect(flipOrders[0].price.toNumber()).toBe(200);
+        expect(flipOrders[0].flippedPrice.toNumber()).toBe(210);
+        expect(flipOrders[0].size.toNumber()).toBe(1500);
+        expect(flipOrders[1].isBuy).toBe(false);
+
+        expect(KuruSdk.FlipOrders.getFlipOrderIds(receipt).map((id) => id.toNumber())).toEqual([7, 9]);
+    });
+});
@@ -0,0 +1,59 @@
+import { ethers } from 'ethers';
+import { MarketParams } from '../../src/types';
+
+// Bids at 244.64 and 244.885, asks at 245.375 and 245.62, at block 0x2915a1
+export const mockL2BookData =
+    '0x00000000000000000000000000000000000000000000000000000000002915a1000000000000000000000000000000000000000000000000000000000025544000000000000000000000000000000000000000000000000000000000000f42400000000000000000000000000000000000000000000000000000000000255dd200000000000000000000000000000000000000000000000000000000000f4240000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000002570f6000000000000000000000000000000000000000000000000000000000007b4b40000000000000000000000000000000000000000000000000000000000257a8800000000000000000000000000000000000000000000000000000000000f4240';
+
+export const mockVaultParams = [
+    '0x7d43103f26323c075B4D983F7F516b21592e2512',
+    { type: 'BigNumber', hex: '0x0d49dc7e16fd5bee0e' },
+    { type: 'BigNumber', hex: '0x030d40' },
+    { type: 'BigNumber', hex: '0x0d4d435e78cdff1805' },
+    { type: 'BigNumber', hex: '0x00' },
+    { type: 'BigNumber', hex: '0x078e83' },
+    { type: 'BigNumber', hex: '0x078d8b' },
+    { type: 'BigNumber', hex: '0x0a' },
+];
+
+export const emptyVaultParams = [
+    ethers.constants.AddressZero,
+    ethers.constants.Zero,
+    ethers.constants.Zero,
+    ethers.constants.Zero,
+    ethers.constants.Zero,
+    ethers.constants.Zero,
+    ethers.constants.Zero,
+    ethers.constants.Zero,
+];
+
+// The params of the market mockL2BookData was read from
+export const mockMarketParams: MarketParams = {
+    pricePrecision: ethers.BigNumber.from('0x2710'),
+    sizePrecision: ethers.BigNumber.from('0x0f4240'),
+    baseAssetAddress: '0xf4f7ca3c361cA2B457Ca6AC9E393B2dad5C6b78b',
+    baseAssetDecimals: ethers.BigNumber.from('0x12'),
+    quoteAssetAddress: '0x34084eAEbe9Cbc209A85FFe22fa387223CDFB3e8',
+    quoteAssetDecimals: ethers.BigNumber.from('0x12'),
+    tickSize: ethers.BigNumber.from('0x0a'),
+    minSize: ethers.BigNumber.from('0x64'),
+    maxSize: ethers.BigNumber.from('0xe8d4a51000'),
+    takerFeeBps: ethers.BigNumber.from('0x1e'),
+    makerFeeBps: ethers.BigNumber.from('0x14'),
+};
+
+// A market with round precisions, 2 price and 3 size decimals, for tests that build their own orders and fills
+export const createMarketParams = (overrides: Partial<MarketParams> = {}): MarketParams => ({
+    pricePrecision: ethers.BigNumber.from(100),
+    sizePrecision: ethers.BigNumber.from(1000),
+    baseAssetAddress: '0x0000000000000000000000000000000000000001',
+    baseAssetDecimals: ethers.BigNumber.from(18),
+    quoteAssetAddress: '0x0000000000000000000000000000000000000002',
+    quoteAssetDecimals: ethers.BigNumber.from(6),
+    tickSize: ethers.BigNumber.from(1),
+    minSize: ethers.BigNumber.from(1),
+    maxSize: ethers.BigNumber.from(1000000),
+    takerFeeBps: ethers.BigNumber.from(30),
+    makerFeeBps: ethers.BigNumber.from(10),
+    ...overrides,
+});
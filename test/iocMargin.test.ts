@@ -0,0 +1,119 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import { computeBalanceSlotForMarginAccount } from '../src/utils/storageSlots';
+import orderbookAbi from '../abi/OrderBook.json';
+import marginAccountAbi from '../abi/MarginAccount.json';
+import { createMarketParams } from './helpers/fixtures';
+
+describe('IOC from margin', () => {
+    const orderbookAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    const marginAccountAddress = '0x4B186949F31FCA0aD08497Df9169a6bEbF0e26ef';
+    // Well-known development key
+    const privateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+    const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+    const marginInterface = new ethers.utils.Interface(marginAccountAbi.abi);
+
+    const marketParams = createMarketParams();
+
+    const createSigner = (quoteBalance: string) => {
+        const estimates: any[][] = [];
+        const provider = new ethers.providers.JsonRpcProvider('http://localhost:8545', { chainId: 1, name: 'test' });
+
+        provider.send = async (method: string, params: any[]) => {
+            switch (method) {
+                case 'eth_chainId':
+                    return '0x1';
+                case 'eth_getTransactionCount':
+                    return '0x7';
+                case 'eth_gasPrice':
+                    return '0x3b9aca00';
+                case 'eth_estimateGas':
+                    estimates.push(params);
+                    return params.length > 2 ? '0x30d40' : '0x186a0';
+                case 'eth_call':
+                    marginInterface.parseTransaction({ data: params[0].data });
+                    return marginInterface.encodeFunctionResult('getBalance', [
+                        ethers.utils.parseUnits(quoteBalance, 6),
+                    ]);
+            }
+            throw new Error(`Unexpected ${method}`);
+        };
+
+        return { signer: new ethers.Wallet(privateKey, provider), estimates };
+    };
+
+    const order = {
+        isBuy: true,
+        size: '10',
+        minAmountOut: '1.5',
+        isMargin: false,
+        fillOrKill: false,
+        approveTokens: false,
+    };
+
+    it('should compute the shortfall of the margin balance', async () => {
+        const { signer } = createSigner('4');
+        const shortfall = await KuruSdk.IOC.getMarginShortfall(signer, marginAccountAddress, marketParams, order);
+
+        expect(shortfall.tokenAddress).toBe(marketParams.quoteAssetAddress);
+        expect(ethers.utils.formatUnits(shortfall.required, 6)).toBe('10.0');
+        expect(ethers.utils.formatUnits(shortfall.shortfall, 6)).toBe('6.0');
+    });
+
+    it('should deposit the shortfall before a trade estimated with overrides', async () => {
+        const { signer, estimates } = createSigner('4');
+        const shortfall = await KuruSdk.IOC.getMarginShortfall(signer, marginAccountAddress, marketParams, order);
+
+        const { deposit, trade } = await KuruSdk.IOC.constructMarginMarketTransactions(
+            signer,
+            orderbookAddress,
+            marketParams,
+            marginAccountAddress,
+            order,
+            shortfall,
+        );
+
+        const { name: depositName, args: depositArgs } = marginInterface.parseTransaction({
+            data: deposit!.data as string,
+        });
+        expect(depositName).toBe('deposit');
+        expect(depositArgs[1]).toBe(marketParams.quoteAssetAddress);
+        expect(ethers.utils.formatUnits(depositArgs[2], 6)).toBe('6.0');
+        expect(deposit!.nonce).toBe(7);
+
+        const { name, args } = orderbookInterface.parseTransaction({ data: trade.data as string });
+        expect(name).toBe('placeAndExecuteMarketBuy');
+        expect(args[0].toNumber()).toBe(1000);
+        expect(ethers.utils.formatUnits(args[1], 18)).toBe('1.5');
+        expect(args[2]).toBe(true);
+        expect(trade.nonce).toBe(8);
+
+        const [overrideEstimate] = estimates.filter((params) => params.length > 2);
+        const balanceSlot = computeBalanceSlotForMarginAccount(
+            await signer.getAddress(),
+            marketParams.quoteAssetAddress,
+        );
+        expect(overrideEstimate[0].to).toBe(orderbookAddress);
+        expect(Object.keys(overrideEstimate[2][marginAccountAddress].stateDiff)).toEqual([balanceSlot]);
+    });
+
+    it('should skip the deposit when the balance covers the order', async () => {
+        const { signer } = createSigner('25');
+        const shortfall = await KuruSdk.IOC.getMarginShortfall(signer, marginAccountAddress, marketParams, order);
+
+        const { deposit, trade } = await KuruSdk.IOC.constructMarginMarketTransactions(
+            signer,
+            orderbookAddress,
+            marketParams,
+            marginAccountAddress,
+            order,
+            shortfall,
+        );
+
+        expect(shortfall.shortfall.isZero()).toBe(true);
+        expect(deposit).toBeUndefined();
+        expect(trade.nonce).toBe(7);
+    });
+});
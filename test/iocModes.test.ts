@@ -0,0 +1,89 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+import { createMarketParams } from './helpers/fixtures';
+
+describe('IOC order modes', () => {
+    const orderbookAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+
+    const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
+    const marketParams = createMarketParams({
+        takerFeeBps: ethers.BigNumber.from(0),
+        makerFeeBps: ethers.BigNumber.from(0),
+    });
+
+    // One bid of 5 base at 2.00 and one ask of 5 base at 2.50, in price and size precision
+    const word = (value: number) => ethers.utils.hexZeroPad(ethers.utils.hexlify(value), 32).slice(2);
+    const l2Book = '0x' + [1, 200, 5000, 0, 250, 5000, 0].map(word).join('');
+
+    const createProvider = () => {
+        const calls: { name: string; args: ethers.utils.Result }[] = [];
+        const provider = {
+            _isProvider: true,
+            getNetwork: () => Promise.resolve({ chainId: 1 }),
+            estimateGas: async () => ethers.BigNumber.from(21000),
+            call: async (tx: any) => {
+                const { name, args } = orderbookInterface.parseTransaction({ data: tx.data });
+                calls.push({ name, args });
+
+                switch (name) {
+                    case 'placeAndExecuteMarketBuy':
+                        return orderbookInterface.encodeFunctionResult(name, [ethers.utils.parseUnits('4', 18)]);
+                    case 'placeAndExecuteMarketSell':
+                        return orderbookInterface.encodeFunctionResult(name, [ethers.utils.parseUnits('6', 6)]);
+                    case 'getL2Book':
+                        return orderbookInterface.encodeFunctionResult(name, [l2Book]);
+                    case 'getVaultParams':
+                        return orderbookInterface.encodeFunctionResult(name, [
+                            marketParams.baseAssetAddress,
+                            0,
+                            0,
+                            0,
+                            0,
+                            0,
+                            0,
+                            0,
+                        ]);
+                }
+                throw new Error(`Unexpected call to ${name}`);
+            },
+        } as any;
+
+        return { provider, calls };
+    };
+
+    const resolve = (provider: any, mode: KuruSdk.MarketOrderMode, amount: string) =>
+        KuruSdk.IOC.resolveMarketOrder(provider, orderbookAddress, marketParams, {
+            mode,
+            amount,
+            slippageTolerance: 1,
+            approveTokens: false,
+            isMargin: false,
+            fillOrKill: false,
+        });
+
+    it('should derive minAmountOut from the simulated fill for fixed inputs', async () => {
+        const { provider, calls } = createProvider();
+
+        const buy = await resolve(provider, 'spendQuote', '10');
+        expect(buy).toMatchObject({ isBuy: true, size: '10', minAmountOut: '3.96' });
+        expect(calls[0].args[0].toNumber()).toBe(1000);
+
+        const sell = await resolve(provider, 'sellBase', '3');
+        expect(sell).toMatchObject({ isBuy: false, size: '3', minAmountOut: '5.94' });
+        expect(calls[1].args[0].toNumber()).toBe(3000);
+    });
+
+    it('should size the input from the book for fixed outputs', async () => {
+        const { provider } = createProvider();
+
+        // Both modes add the slippage to the input and still require the full output
+        const buy = await resolve(provider, 'receiveBase', '2');
+        expect(buy).toMatchObject({ isBuy: true, size: '5.05', minAmountOut: '2.0' });
+
+        const sell = await resolve(provider, 'receiveQuote', '5');
+        expect(sell).toMatchObject({ isBuy: false, size: '2.525', minAmountOut: '5.0' });
+    });
+});
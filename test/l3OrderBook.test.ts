@@ -0,0 +1,113 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+import { mockL2BookData, emptyVaultParams, mockMarketParams } from './helpers/fixtures';
+
+describe('L3OrderBook', () => {
+    const alice = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+    const bob = '0x7d43103f26323c075B4D983F7F516b21592e2512';
+    const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
+    // Price points keyed by price in pricePrecision units, orders keyed by ID
+    const pricePoints: Record<string, [number, number]> = {
+        buy2448850: [1, 2],
+        buy2446400: [3, 3],
+        sell2453750: [4, 4],
+        sell2456200: [5, 5],
+    };
+    const orders: Record<number, any[]> = {
+        1: [bob, 400000, 0, 2, 0, 2448850, 0, true],
+        2: [alice, 600000, 1, 0, 0, 2448850, 0, true],
+        3: [alice, 1000000, 0, 0, 0, 2446400, 0, true],
+        4: [bob, 505012, 0, 0, 0, 2453750, 0, false],
+        5: [alice, 1000000, 0, 0, 9, 2456200, 2450000, false],
+    };
+
+    const blockTags: any[] = [];
+    const mockProvider = {
+        getNetwork: () => Promise.resolve({ chainId: 1 }),
+        _isProvider: true,
+        call: async (tx: any, blockTag: any) => {
+            blockTags.push(blockTag);
+            const { name, args } = orderbookInterface.parseTransaction({ data: tx.data });
+            switch (name) {
+                case 's_buyPricePoints':
+                    return orderbookInterface.encodeFunctionResult(name, pricePoints[`buy${args[0]}`] ?? [0, 0]);
+                case 's_sellPricePoints':
+                    return orderbookInterface.encodeFunctionResult(name, pricePoints[`sell${args[0]}`] ?? [0, 0]);
+                case 's_orders':
+                    return orderbookInterface.encodeFunctionResult(name, orders[Number(args[0])]);
+                case 'getL2Book':
+                    return orderbookInterface.encodeFunctionResult(name, [mockL2BookData]);
+                case 'getVaultParams':
+                    return orderbookInterface.encodeFunctionResult(name, emptyVaultParams);
+            }
+            throw new Error(`Unexpected call to ${name}`);
+        },
+    } as any;
+
+    it('should walk each price point queue in order at the snapshot block', async () => {
+        const l2Book = await KuruSdk.OrderBook.getL2OrderBook(
+            mockProvider,
+            '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083',
+            mockMarketParams,
+            mockL2BookData,
+            emptyVaultParams,
+        );
+
+        const l3Book = await KuruSdk.L3OrderBook.getL3OrderBook(
+            mockProvider,
+            '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083',
+            mockMarketParams,
+            l2Book,
+        );
+
+        expect(l3Book.blockNumber).toBe(l2Book.blockNumber);
+        expect(new Set(blockTags)).toEqual(new Set([l2Book.blockNumber]));
+
+        expect(l3Book.bids.map((level) => [level.price, level.size])).toEqual([
+            [244.885, 1],
+            [244.64, 1],
+        ]);
+        expect(l3Book.asks.map((level) => level.price)).toEqual([245.375, 245.62]);
+
+        const [first, second] = l3Book.bids[0].orders;
+        expect(first.orderId.toNumber()).toBe(1);
+        expect(first.ownerAddress).toBe(bob);
+        expect(first.queuePosition).toBe(0);
+        expect(first.sizeAhead).toBe(0);
+        expect(second.orderId.toNumber()).toBe(2);
+        expect(second.queuePosition).toBe(1);
+        expect(second.sizeAhead).toBe(0.4);
+
+        const aliceOrders = KuruSdk.L3OrderBook.getOrdersByOwner(l3Book, alice.toLowerCase());
+        expect(aliceOrders.map((order) => order.orderId.toNumber())).toEqual([2, 3, 5]);
+        expect(aliceOrders[2].flippedPrice).toBe(245);
+    });
+
+    it('should read a tick-rounded snapshot again unformatted at its block', async () => {
+        // A tick of 0.01 rounds the bid at 244.885 down to 244.88, which is not a price point
+        const marketParams = { ...mockMarketParams, tickSize: ethers.BigNumber.from(100) };
+        const formattedBook = await KuruSdk.OrderBook.getFormattedL2OrderBook(
+            mockProvider,
+            '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083',
+            marketParams,
+            mockL2BookData,
+            emptyVaultParams,
+        );
+        expect(formattedBook.manualOrders.bids[0][0]).toBe(244.88);
+        blockTags.length = 0;
+
+        const l3Book = await KuruSdk.L3OrderBook.getL3OrderBook(
+            mockProvider,
+            '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083',
+            marketParams,
+            formattedBook,
+        );
+
+        expect(new Set(blockTags)).toEqual(new Set([formattedBook.blockNumber]));
+        expect(l3Book.bids.map((level) => level.price)).toEqual([244.885, 244.64]);
+        expect(l3Book.bids[0].orders).toHaveLength(2);
+    });
+});
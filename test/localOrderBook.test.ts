@@ -0,0 +1,117 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import { OrderBookData, WssOrderEvent, WssTradeEvent } from '../src/types';
+import { mockL2BookData, emptyVaultParams, mockMarketParams } from './helpers/fixtures';
+
+describe('LocalOrderBook', () => {
+    const mockProvider = {
+        getNetwork: () => Promise.resolve({ chainId: 1 }),
+        _isProvider: true,
+    } as any;
+
+    const snapshotBlock = parseInt('2915a1', 16);
+
+    const getSnapshot = (): Promise<OrderBookData> =>
+        KuruSdk.OrderBook.getL2OrderBook(
+            mockProvider,
+            '0xcontractAddress',
+            mockMarketParams,
+            mockL2BookData,
+            emptyVaultParams,
+        );
+
+    const orderCreated = (blockNumber: number, price: number, size: number, isBuy = true): WssOrderEvent => ({
+        orderId: 100,
+        owner: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+        size: ethers.BigNumber.from(size),
+        price: ethers.BigNumber.from(price),
+        isBuy,
+        blockNumber: ethers.BigNumber.from(blockNumber),
+        transactionHash: '0x01',
+        triggerTime: 0,
+        marketAddress: '0xcontractAddress',
+    });
+
+    let localOrderBook: KuruSdk.LocalOrderBook;
+
+    afterEach(() => {
+        localOrderBook?.stop();
+        jest.restoreAllMocks();
+    });
+
+    it('should buffer events until their block is complete', async () => {
+        localOrderBook = new KuruSdk.LocalOrderBook(mockProvider, '0xcontractAddress', mockMarketParams, {
+            flushDelayMs: 60_000,
+        });
+        await localOrderBook.initialize(await getSnapshot());
+
+        const updates: OrderBookData[] = [];
+        localOrderBook.onUpdate((orderBook) => updates.push(orderBook));
+
+        localOrderBook.handleOrderCreated(orderCreated(snapshotBlock + 1, 2450000, 1000000));
+        expect(localOrderBook.getBestBid()).toEqual([244.885, 1]);
+        expect(updates.length).toBe(0);
+
+        localOrderBook.handleOrderCreated(orderCreated(snapshotBlock + 2, 2453000, 2000000, false));
+        expect(localOrderBook.getBestBid()).toEqual([245, 1]);
+        expect(localOrderBook.getBlockNumber()).toBe(snapshotBlock + 1);
+        expect(updates.length).toBe(1);
+
+        localOrderBook.flush();
+        expect(localOrderBook.getDepth(2)).toEqual({
+            bids: [
+                [245, 1],
+                [244.885, 1],
+            ],
+            asks: [
+                [245.3, 2],
+                [245.375, 0.505012],
+            ],
+        });
+    });
+
+    it('should discard events already included in the snapshot', async () => {
+        localOrderBook = new KuruSdk.LocalOrderBook(mockProvider, '0xcontractAddress', mockMarketParams, {
+            flushDelayMs: 60_000,
+        });
+        await localOrderBook.initialize(await getSnapshot());
+
+        localOrderBook.handleOrderCreated(orderCreated(snapshotBlock, 2450000, 1000000));
+        localOrderBook.flush();
+
+        expect(localOrderBook.getBestBid()).toEqual([244.885, 1]);
+    });
+
+    it('should resync when an event arrives for a block that was already applied', async () => {
+        const snapshot = await getSnapshot();
+        const getL2OrderBook = jest.spyOn(KuruSdk.OrderBook, 'getL2OrderBook').mockResolvedValue(snapshot);
+
+        localOrderBook = new KuruSdk.LocalOrderBook(mockProvider, '0xcontractAddress', mockMarketParams, {
+            flushDelayMs: 60_000,
+        });
+        await localOrderBook.initialize(snapshot);
+
+        localOrderBook.handleOrderCreated(orderCreated(snapshotBlock + 2, 2450000, 1000000));
+        localOrderBook.flush();
+        expect(getL2OrderBook).not.toHaveBeenCalled();
+
+        const lateTrade: WssTradeEvent = {
+            orderId: 1,
+            makerAddress: '0x7d43103f26323c075B4D983F7F516b21592e2512',
+            isBuy: false,
+            price: '245000000000000000000',
+            updatedSize: '0',
+            takerAddress: '0xecc442E88Cd6B71FCcb256A5Fc838AdeE941a97e',
+            filledSize: '1000000',
+            blockNumber: (snapshotBlock + 1).toString(),
+            transactionHash: '0x02',
+            triggerTime: 0,
+        };
+        localOrderBook.handleTrade(lateTrade);
+
+        expect(getL2OrderBook).toHaveBeenCalledTimes(1);
+        await localOrderBook.resync();
+        expect(localOrderBook.getBlockNumber()).toBe(snapshotBlock);
+    });
+});
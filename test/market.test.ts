@@ -0,0 +1,104 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+import marginAccountAbi from '../abi/MarginAccount.json';
+
+describe('Market', () => {
+    const orderbookAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    const marginAccountAddress = '0x4B186949F31FCA0aD08497Df9169a6bEbF0e26ef';
+    const userAddress = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+    const baseToken = '0x0000000000000000000000000000000000000001';
+    const quoteToken = '0x0000000000000000000000000000000000000002';
+
+    const interfaces: Record<string, ethers.utils.Interface> = {
+        [orderbookAddress]: new ethers.utils.Interface(orderbookAbi.abi),
+        [marginAccountAddress]: new ethers.utils.Interface(marginAccountAbi.abi),
+    };
+
+    const createProvider = () => {
+        const calls: { name: string; args: ethers.utils.Result }[] = [];
+        const provider = {
+            _isProvider: true,
+            getNetwork: () => Promise.resolve({ chainId: 1 }),
+            estimateGas: async () => ethers.BigNumber.from(21000),
+            call: async (tx: any) => {
+                const contractInterface = interfaces[ethers.utils.getAddress(tx.to)];
+                const { name, args } = contractInterface.parseTransaction({ data: tx.data });
+                calls.push({ name, args });
+
+                switch (name) {
+                    case 'getMarketParams':
+                        return contractInterface.encodeFunctionResult(name, [
+                            100,
+                            1000,
+                            baseToken,
+                            18,
+                            quoteToken,
+                            6,
+                            1,
+                            1,
+                            1000000,
+                            30,
+                            10,
+                        ]);
+                    case 'placeAndExecuteMarketSell':
+                        return contractInterface.encodeFunctionResult(name, [ethers.utils.parseUnits('3.25', 6)]);
+                    case 'placeAndExecuteMarketBuy':
+                        return contractInterface.encodeFunctionResult(name, [ethers.utils.parseUnits('0.5', 18)]);
+                    case 'getBalance':
+                        return contractInterface.encodeFunctionResult(name, [
+                            args[1] === baseToken
+                                ? ethers.utils.parseUnits('1.5', 18)
+                                : ethers.utils.parseUnits('20', 6),
+                        ]);
+                }
+                throw new Error(`Unexpected call to ${name}`);
+            },
+        } as any;
+
+        return { provider, calls };
+    };
+
+    it('should load params once and quote in token units', async () => {
+        const { provider, calls } = createProvider();
+        const market = await KuruSdk.Market.create(provider, orderbookAddress);
+
+        const sell = await market.quote(false, '1.23456');
+        expect(sell.amountOut).toBe('3.25');
+        expect(sell.estimatedGas.toNumber()).toBe(21000);
+
+        const buy = await market.quote(true, '10.123');
+        expect(buy.amountOut).toBe('0.5');
+
+        expect(calls.map((call) => call.name)).toEqual([
+            'getMarketParams',
+            'placeAndExecuteMarketSell',
+            'placeAndExecuteMarketBuy',
+        ]);
+        // Sells are sized in sizePrecision, buys in pricePrecision, and extra decimals are clipped
+        expect(calls[1].args[0].toNumber()).toBe(1234);
+        expect(calls[2].args[0].toNumber()).toBe(1012);
+    });
+
+    it('should read margin balances in token units', async () => {
+        const { provider, calls } = createProvider();
+        const cache = new KuruSdk.MarketParamsCache(provider);
+        await cache.get(orderbookAddress);
+
+        const market = await KuruSdk.Market.create(provider, orderbookAddress, {
+            marginAccountAddress,
+            marketParams: cache,
+        });
+
+        expect(await market.balance(userAddress)).toEqual({ base: '1.5', quote: '20.0' });
+        expect(calls.filter((call) => call.name === 'getMarketParams')).toHaveLength(1);
+    });
+
+    it('should require a margin account to read balances', async () => {
+        const { provider } = createProvider();
+        const market = await KuruSdk.Market.create(provider, orderbookAddress);
+
+        await expect(market.balance(userAddress)).rejects.toThrow('marginAccountAddress');
+    });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { Server, Socket } from 'socket.io';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+import multicallAbi from '../abi/Multicall3.json';
+import { mockL2BookData } from './helpers/fixtures';
+
+describe('MarketHub', () => {
+    const marketA = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    const marketB = '0x7d43103f26323c075B4D983F7F516b21592e2512';
+    const marketC = '0x0000000000000000000000000000000000000003';
+    const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+    const multicallInterface = new ethers.utils.Interface(multicallAbi.abi);
+
+    const emptyL2BookData = '0x00000000000000000000000000000000000000000000000000000000002915a1';
+
+    const emptyVaultParams = [ethers.constants.AddressZero, 0, 0, 0, 0, 0, 0, 0];
+    const marketParams = [10000, 1000000, marketA, 18, marketB, 18, 10, 100, 1000000000000, 30, 20];
+
+    const l2Books: Record<string, string> = {
+        [marketA.toLowerCase()]: mockL2BookData,
+        [marketB.toLowerCase()]: emptyL2BookData,
+        [marketC.toLowerCase()]: emptyL2BookData,
+    };
+
+    const multicalls: number[] = [];
+    const mockProvider = {
+        _isProvider: true,
+        getNetwork: () => Promise.resolve({ chainId: 1 }),
+        call: async (tx: any) => {
+            expect(tx.to).toBe(KuruSdk.MULTICALL3_ADDRESS);
+            const [calls] = multicallInterface.decodeFunctionData('aggregate3', tx.data);
+            multicalls.push(calls.length);
+
+            const results = calls.map((call: any) => {
+                const { name } = orderbookInterface.parseTransaction({ data: call.callData });
+                const values =
+                    name === 'getMarketParams'
+                        ? marketParams
+                        : name === 'getVaultParams'
+                          ? emptyVaultParams
+                          : [l2Books[call.target.toLowerCase()]];
+                return { success: true, returnData: orderbookInterface.encodeFunctionResult(name, values) };
+            });
+            return multicallInterface.encodeFunctionResult('aggregate3', [results]);
+        },
+    } as any;
+
+    let hub: KuruSdk.MarketHub | undefined;
+    let server: Server | undefined;
+
+    afterEach(() => {
+        hub?.stop();
+        server?.close();
+        hub = undefined;
+        server = undefined;
+        multicalls.length = 0;
+    });
+
+    it('should batch params and snapshots through multicall', async () => {
+        hub = new KuruSdk.MarketHub(mockProvider);
+        await hub.addMarkets([marketA, marketB, marketA.toLowerCase()]);
+
+        // One call for both markets' params, one for both markets' L2 books and vault params
+        expect(multicalls).toEqual([2, 4]);
+        expect(hub.getMarkets()).toEqual([marketA, marketB]);
+        expect(hub.getMarketParams(marketB).pricePrecision.toNumber()).toBe(10000);
+        expect(hub.getMarketParams(marketB).takerFeeBps.toNumber()).toBe(30);
+
+        const [topA, topB] = hub.getTopOfBook();
+        expect(topA.marketAddress).toBe(marketA);
+        expect(topA.bestBid).toEqual([244.885, 1]);
+        expect(topA.bestAsk).toEqual([245.375, 0.505012]);
+        expect(topA.spread).toBeCloseTo(0.49);
+        expect(topA.midPrice).toBeCloseTo(245.13);
+        expect(topA.blockNumber).toBe(0x2915a1);
+
+        expect(topB.bestBid).toBeUndefined();
+        expect(topB.midPrice).toBeUndefined();
+
+        // Markets already in the hub are not reloaded
+        await hub.addMarkets([marketA]);
+        expect(multicalls).toEqual([2, 4]);
+    });
+
+    it('should split markets into multicall batches', async () => {
+        hub = new KuruSdk.MarketHub(mockProvider, { batchSize: 1 });
+        await hub.addMarkets([marketA, marketB]);
+
+        expect(multicalls).toEqual([1, 1, 2, 2]);
+        expect(() => hub!.getLocalOrderBook('0x0000000000000000000000000000000000000001')).toThrow('is not in the hub');
+
+        hub.removeMarket(marketB);
+        expect(hub.getMarkets()).toEqual([marketA]);
+    });
+
+    it('should share one socket between markets and route events by market', async () => {
+        const httpServer = createServer();
+        server = new Server(httpServer);
+        const connections: Socket[] = [];
+        server.on('connection', (socket) => connections.push(socket));
+        await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+
+        hub = new KuruSdk.MarketHub(mockProvider, { flushDelayMs: 60_000 });
+        await hub.addMarkets([marketA, marketB]);
+        await hub.connect(`http://localhost:${(httpServer.address() as AddressInfo).port}`);
+
+        expect(connections).toHaveLength(1);
+        expect(connections[0].handshake.query.marketAddress).toBe(`${marketA},${marketB}`);
+
+        connections[0].emit('OrderCreated', {
+            orderId: 1,
+            owner: marketA,
+            size: '1000000',
+            price: '2450000',
+            isBuy: true,
+            blockNumber: 0x2915a2,
+            transactionHash: '0x01',
+            triggerTime: 0,
+            marketAddress: marketB,
+        });
+
+        const bookB = hub.getLocalOrderBook(marketB);
+        for (let i = 0; i < 200 && !bookB.getBestBid(); i++) {
+            bookB.flush();
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        hub.getLocalOrderBook(marketA).flush();
+
+        expect(bookB.getBestBid()).toEqual([245, 1]);
+        expect(hub.getLocalOrderBook(marketA).getBestBid()).toEqual([244.885, 1]);
+
+        // A market added later reopens the same client with the new subscription
+        await hub.addMarkets([marketC]);
+        for (let i = 0; i < 200 && connections.length < 2; i++) {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        expect(connections).toHaveLength(2);
+        expect(connections[1].handshake.query.marketAddress).toBe(`${marketA},${marketB},${marketC}`);
+
+        // The reconnect resyncs every book in one multicall
+        for (let i = 0; i < 200 && !multicalls.includes(6); i++) {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        expect(multicalls).toContain(6);
+    });
+});
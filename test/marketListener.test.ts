@@ -0,0 +1,129 @@
+import { describe, it, expect } from '@jest/globals';
+import { BigNumber, ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+
+describe('MarketListener', () => {
+    const orderbookAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    const userAddress = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+    const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
+    const makeLog = (eventName: string, values: any[], blockNumber: number, logIndex: number) => {
+        const { data, topics } = orderbookInterface.encodeEventLog(orderbookInterface.getEvent(eventName), values);
+        return {
+            address: orderbookAddress,
+            data,
+            topics,
+            blockNumber,
+            logIndex,
+            transactionHash: ethers.utils.hexZeroPad(ethers.utils.hexlify(blockNumber), 32),
+        } as ethers.providers.Log;
+    };
+
+    const createMockProvider = (logs: ethers.providers.Log[], latestBlock: number) => {
+        const blockHandlers = new Set<(blockNumber: number) => void>();
+        const getLogsCalls: number[][] = [];
+        const provider = {
+            _isProvider: true,
+            latestBlock,
+            getBlockNumber: async () => provider.latestBlock,
+            getLogs: async (filter: any) => {
+                getLogsCalls.push([filter.fromBlock, filter.toBlock]);
+                return logs.filter((log) => log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock);
+            },
+            on: (_: string, handler: (blockNumber: number) => void) => blockHandlers.add(handler),
+            off: (_: string, handler: (blockNumber: number) => void) => blockHandlers.delete(handler),
+            emitBlock: (blockNumber: number) => {
+                provider.latestBlock = blockNumber;
+                blockHandlers.forEach((handler) => handler(blockNumber));
+            },
+            blockHandlers,
+            getLogsCalls,
+        };
+        return provider;
+    };
+
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it('should backfill from the checkpoint and deliver every event type in order', async () => {
+        const provider = createMockProvider(
+            [
+                makeLog('OrdersCanceled', [[1, 2], userAddress], 12, 1),
+                makeLog('OrderCreated', [7, userAddress, 1000000, 2450000, true], 12, 0),
+                makeLog('FlipOrderCreated', [9, 0, userAddress, 2000000, 2400000, 2500000, true], 25, 0),
+                makeLog('OrderCreated', [8, userAddress, 1000000, 2450000, false], 5, 0),
+            ],
+            30,
+        );
+        const listener = new KuruSdk.MarketListener(provider as any, orderbookAddress, {
+            fromBlock: 10,
+            maxBlockRange: 10,
+        });
+
+        const names: string[] = [];
+        const canceled: number[] = [];
+        listener.on('*', (event) => names.push(event.name));
+        await listener.listenForCancels((orderIds) => canceled.push(...orderIds.map((id) => id.toNumber())));
+        await flush();
+
+        expect(provider.getLogsCalls).toEqual([
+            [11, 20],
+            [21, 30],
+        ]);
+        expect(names).toEqual(['OrderCreated', 'OrdersCanceled', 'FlipOrderCreated']);
+        expect(canceled).toEqual([1, 2]);
+        expect(listener.getCheckpoint()).toBe(30);
+
+        listener.stop();
+        expect(provider.blockHandlers.size).toBe(0);
+    });
+
+    it('should follow new blocks and not redeliver logs', async () => {
+        const logs = [makeLog('OrderCreated', [7, userAddress, 1000000, 2450000, true], 31, 0)];
+        const provider = createMockProvider(logs, 30);
+        const listener = new KuruSdk.MarketListener(provider as any, orderbookAddress);
+
+        const orders: BigNumber[] = [];
+        await listener.listenForOrders((order) => orders.push(order.orderId));
+        await flush();
+        expect(listener.getCheckpoint()).toBe(30);
+
+        provider.emitBlock(31);
+        provider.emitBlock(31);
+        await flush();
+
+        expect(orders).toEqual([BigNumber.from(7)]);
+        expect(provider.getLogsCalls).toEqual([[31, 31]]);
+
+        listener.stop();
+    });
+
+    it('should reconnect a closed WebSocket and backfill the missed blocks', async () => {
+        const first = createMockProvider([], 30) as any;
+        first.websocket = {};
+        const second = createMockProvider(
+            [makeLog('OrderCreated', [7, userAddress, 1000000, 2450000, true], 33, 0)],
+            35,
+        );
+
+        const listener = new KuruSdk.MarketListener(first, orderbookAddress, {
+            reconnectDelayMs: 0,
+            createProvider: () => second as any,
+        });
+
+        const orders: number[] = [];
+        await listener.listenForOrders((order) => orders.push(order.orderId.toNumber()));
+        await flush();
+
+        first.websocket.onclose();
+        await flush();
+        await flush();
+
+        expect(first.blockHandlers.size).toBe(0);
+        expect(second.blockHandlers.size).toBe(1);
+        expect(orders).toEqual([7]);
+        expect(listener.getCheckpoint()).toBe(35);
+
+        listener.stop();
+    });
+});
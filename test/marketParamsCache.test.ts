@@ -0,0 +1,164 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+
+describe('MarketParamsCache', () => {
+    const orderbookAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    const token = '0x0000000000000000000000000000000000000001';
+    const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
+    // Keeps the saved JSON in memory and counts the saves
+    const createStorage = (data: string | null = null) => {
+        const storage = {
+            data,
+            saves: 0,
+            load: async () => storage.data,
+            save: async (saved: string) => {
+                storage.saves++;
+                storage.data = saved;
+            },
+        };
+        return storage;
+    };
+
+    const createProvider = () => {
+        const state = { calls: 0, takerFeeBps: 30 };
+        const provider = {
+            _isProvider: true,
+            getNetwork: () => Promise.resolve({ chainId: 1 }),
+            call: async () => {
+                state.calls++;
+                return orderbookInterface.encodeFunctionResult('getMarketParams', [
+                    10000,
+                    1000000,
+                    token,
+                    18,
+                    token,
+                    18,
+                    10,
+                    100,
+                    1,
+                    state.takerFeeBps,
+                    20,
+                ]);
+            },
+        } as any;
+
+        return { provider, state };
+    };
+
+    const log = (eventName: string, address: string = orderbookAddress) =>
+        ({ address, topics: [orderbookInterface.getEventTopic(eventName)], data: '0x' }) as any;
+
+    it('should fetch each market once until the TTL expires', async () => {
+        const { provider, state } = createProvider();
+        const cache = new KuruSdk.MarketParamsCache(provider, { ttlMs: 50 });
+
+        await Promise.all([cache.get(orderbookAddress), cache.get(orderbookAddress.toLowerCase())]);
+        await cache.get(orderbookAddress);
+        expect(state.calls).toBe(1);
+
+        await new Promise((resolve) => setTimeout(resolve, 60));
+        state.takerFeeBps = 40;
+        expect((await cache.get(orderbookAddress)).takerFeeBps.toNumber()).toBe(40);
+        expect(state.calls).toBe(2);
+    });
+
+    it('should invalidate a market on upgrade and ownership events', async () => {
+        const { provider, state } = createProvider();
+        const cache = new KuruSdk.MarketParamsCache(provider);
+        await cache.get(orderbookAddress);
+
+        expect(cache.handleLog(log('Trade'))).toBe(false);
+        expect(cache.handleLog(log('Upgraded', token))).toBe(false);
+        expect(cache.handleLog(log('Upgraded'))).toBe(true);
+
+        await cache.get(orderbookAddress);
+        expect(cache.handleLog(log('OwnershipTransferred'))).toBe(true);
+
+        await cache.get(orderbookAddress);
+        expect(state.calls).toBe(3);
+    });
+
+    it('should watch the cached order books', async () => {
+        const { provider, state } = createProvider();
+        const subscriptions: Map<string, (log: any) => void> = new Map();
+        provider.on = (filter: any, listener: (log: any) => void) => subscriptions.set(filter.address, listener);
+        provider.off = (filter: any) => subscriptions.delete(filter.address);
+        const cache = new KuruSdk.MarketParamsCache(provider);
+        await cache.get(orderbookAddress);
+
+        const stop = cache.watch();
+        // Markets cached after watch() are subscribed too
+        await cache.get(token);
+        expect(Array.from(subscriptions.keys())).toEqual([orderbookAddress.toLowerCase(), token]);
+
+        subscriptions.get(orderbookAddress.toLowerCase())!(log('Upgraded'));
+        await cache.get(orderbookAddress);
+        expect(state.calls).toBe(3);
+        stop();
+        expect(subscriptions.size).toBe(0);
+    });
+
+    it('should reload persisted params', async () => {
+        const { provider, state } = createProvider();
+        const storage = createStorage();
+        const cache = new KuruSdk.MarketParamsCache(provider, { storage, saveDelayMs: 60_000 });
+
+        // Changes are saved together, not on every set
+        await cache.get(orderbookAddress);
+        cache.set(token, await cache.get(orderbookAddress));
+        expect(storage.saves).toBe(0);
+        await cache.flush();
+        expect(storage.saves).toBe(1);
+
+        const marketParams = await new KuruSdk.MarketParamsCache(provider, { storage }).get(orderbookAddress);
+        expect(state.calls).toBe(1);
+        expect(marketParams.pricePrecision.toNumber()).toBe(10000);
+        expect(marketParams.takerFeeBps.toNumber()).toBe(30);
+    });
+
+    it('should persist params to a JSON file', async () => {
+        const { provider, state } = createProvider();
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'market-params-'));
+        const storage = KuruSdk.MarketParamsCache.fileStorage(path.join(dir, 'cache.json'));
+
+        try {
+            const cache = new KuruSdk.MarketParamsCache(provider, { storage });
+            await cache.get(orderbookAddress);
+            await cache.flush();
+
+            const marketParams = await new KuruSdk.MarketParamsCache(provider, { storage }).get(orderbookAddress);
+            expect(state.calls).toBe(1);
+            expect(marketParams.sizePrecision.toNumber()).toBe(1000000);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should refetch when the stored params are corrupt', async () => {
+        const { provider, state } = createProvider();
+        const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        const marketParams = await new KuruSdk.MarketParamsCache(provider, {
+            storage: createStorage('{"truncated'),
+        }).get(orderbookAddress);
+
+        expect(state.calls).toBe(1);
+        expect(marketParams.takerFeeBps.toNumber()).toBe(30);
+        expect(errorSpy).toHaveBeenCalled();
+        errorSpy.mockRestore();
+    });
+
+    it('should be accepted in place of market params', async () => {
+        const { provider } = createProvider();
+        const cache = new KuruSdk.MarketParamsCache(provider);
+
+        const marketParams = await KuruSdk.MarketParamsCache.resolve(cache, orderbookAddress);
+        expect(await KuruSdk.MarketParamsCache.resolve(marketParams, orderbookAddress)).toBe(marketParams);
+    });
+});
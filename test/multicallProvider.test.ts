@@ -0,0 +1,184 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+import marginAccountAbi from '../abi/MarginAccount.json';
+import multicallAbi from '../abi/Multicall3.json';
+
+describe('MulticallProvider', () => {
+    const orderbookA = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    const orderbookB = '0x7d43103f26323c075B4D983F7F516b21592e2512';
+    const marginAccount = '0x4B186949F31FCA0aD08497Df9169a6bEbF0e26ef';
+    const vault = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+    const baseToken = '0x0000000000000000000000000000000000000001';
+    const quoteToken = '0x0000000000000000000000000000000000000002';
+
+    const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+    const marginInterface = new ethers.utils.Interface(marginAccountAbi.abi);
+    const multicallInterface = new ethers.utils.Interface(multicallAbi.abi);
+
+    const marketParams = (pricePrecision: number) => [
+        pricePrecision,
+        1000000,
+        baseToken,
+        18,
+        quoteToken,
+        18,
+        10,
+        100,
+        1,
+        30,
+        20,
+    ];
+    const balances: Record<string, number> = { [baseToken]: 5, [quoteToken]: 7 };
+
+    // Answers a single call as the contracts would, or returns undefined if the call reverts
+    const execute = (to: string, data: string): string | undefined => {
+        if (to.toLowerCase() === marginAccount.toLowerCase()) {
+            const { name, args } = marginInterface.parseTransaction({ data });
+            return marginInterface.encodeFunctionResult(name, [balances[args[1]]]);
+        }
+
+        const { name } = orderbookInterface.parseTransaction({ data });
+        if (name === 'getMarketParams') {
+            return orderbookInterface.encodeFunctionResult(name, marketParams(to === orderbookA ? 100 : 10000));
+        }
+        if (name === 'placeAndExecuteMarketSell') {
+            return orderbookInterface.encodeFunctionResult(name, [42]);
+        }
+        return undefined;
+    };
+
+    const createProvider = (hasMulticall: boolean = true) => {
+        const requests: { to: string; blockTag: string; calls: number }[] = [];
+        const inner = new ethers.providers.JsonRpcProvider('http://localhost:8545', { chainId: 1, name: 'test' });
+
+        inner.send = async (method: string, params: any[]) => {
+            if (method === 'eth_chainId') {
+                return '0x1';
+            }
+            if (method !== 'eth_call') {
+                throw new Error(`Unexpected ${method}`);
+            }
+
+            const [{ data }, blockTag] = params;
+            const to = ethers.utils.getAddress(params[0].to);
+            if (to === KuruSdk.MULTICALL3_ADDRESS) {
+                if (!hasMulticall) {
+                    requests.push({ to, blockTag, calls: 0 });
+                    return '0x';
+                }
+
+                const [calls] = multicallInterface.decodeFunctionData('aggregate3', data);
+                requests.push({ to, blockTag, calls: calls.length });
+                const results = calls.map((call: any) => {
+                    const returnData = execute(ethers.utils.getAddress(call.target), call.callData);
+                    return { success: returnData !== undefined, returnData: returnData ?? '0x' };
+                });
+                return multicallInterface.encodeFunctionResult('aggregate3', [results]);
+            }
+
+            requests.push({ to, blockTag, calls: 1 });
+            const result = execute(to, data);
+            if (result === undefined) {
+                throw { code: -32000, message: 'execution reverted', data: '0x' };
+            }
+            return result;
+        };
+
+        return { provider: new KuruSdk.MulticallProvider(inner), inner, requests };
+    };
+
+    afterEach(() => {
+        KuruSdk.setReadBatching(true);
+    });
+
+    it('should collapse concurrent view calls into one multicall', async () => {
+        const { provider, requests } = createProvider();
+
+        const [paramsA, paramsB, liquidity] = await Promise.all([
+            KuruSdk.ParamFetcher.getMarketParams(provider, orderbookA),
+            KuruSdk.ParamFetcher.getMarketParams(provider, orderbookB),
+            KuruSdk.Vault.getVaultLiquidity(vault, baseToken, quoteToken, marginAccount, provider),
+        ]);
+
+        expect(requests).toEqual([{ to: KuruSdk.MULTICALL3_ADDRESS, blockTag: 'latest', calls: 4 }]);
+        expect(paramsA.pricePrecision.toNumber()).toBe(100);
+        expect(paramsB.pricePrecision.toNumber()).toBe(10000);
+        expect(liquidity.token1.balance.toNumber()).toBe(5);
+        expect(liquidity.token2.balance.toNumber()).toBe(7);
+    });
+
+    it('should send simulations and reads at other blocks separately', async () => {
+        const { provider, requests } = createProvider();
+        const orderbook = new ethers.Contract(orderbookA, orderbookAbi.abi, provider);
+
+        const [estimate] = await Promise.all([
+            orderbook.callStatic.placeAndExecuteMarketSell(1, 0, false, false, { from: ethers.constants.AddressZero }),
+            orderbook.getMarketParams({ from: ethers.constants.AddressZero }),
+            orderbook.getMarketParams({ from: ethers.constants.AddressZero, blockTag: 100 }),
+        ]);
+
+        expect(estimate.toNumber()).toBe(42);
+        expect(requests).toHaveLength(3);
+        expect(requests.every((request) => request.to === orderbookA)).toBe(true);
+        expect(requests.map((request) => request.blockTag).sort()).toEqual(['0x64', 'latest', 'latest']);
+    });
+
+    it('should repeat failed calls on their own', async () => {
+        const { provider, requests } = createProvider();
+        const orderbook = new ethers.Contract(orderbookA, orderbookAbi.abi, provider);
+
+        const results = await Promise.allSettled([
+            orderbook.getMarketParams({ from: ethers.constants.AddressZero }),
+            orderbook.getVaultParams({ from: ethers.constants.AddressZero }),
+        ]);
+
+        expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+        expect(requests.map((request) => request.calls)).toEqual([2, 1]);
+    });
+
+    it('should fall back to individual calls without a multicall contract', async () => {
+        const { provider, requests } = createProvider(false);
+
+        const read = () =>
+            Promise.all([
+                KuruSdk.ParamFetcher.getMarketParams(provider, orderbookA),
+                KuruSdk.ParamFetcher.getMarketParams(provider, orderbookB),
+            ]);
+
+        const [paramsA, paramsB] = await read();
+        expect(paramsA.pricePrecision.toNumber()).toBe(100);
+        expect(paramsB.pricePrecision.toNumber()).toBe(10000);
+        expect(requests.map((request) => request.calls)).toEqual([0, 1, 1]);
+
+        // Multicall is not tried again
+        await read();
+        expect(requests.map((request) => request.calls)).toEqual([0, 1, 1, 1, 1]);
+    });
+
+    it('should batch SDK reads on a plain provider or signer', async () => {
+        const { inner, requests } = createProvider();
+        // Well-known development key
+        const signer = new ethers.Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80', inner);
+
+        const [baseBalance, quoteBalance, liquidity] = await Promise.all([
+            KuruSdk.MarginBalance.getBalance(inner, marginAccount, vault, baseToken),
+            KuruSdk.MarginBalance.getBalance(signer, marginAccount, vault, quoteToken),
+            KuruSdk.Vault.getVaultLiquidity(vault, baseToken, quoteToken, marginAccount, inner),
+        ]);
+
+        expect(requests).toEqual([{ to: KuruSdk.MULTICALL3_ADDRESS, blockTag: 'latest', calls: 4 }]);
+        expect(baseBalance.toNumber()).toBe(5);
+        expect(quoteBalance.toNumber()).toBe(7);
+        expect(liquidity.token2.balance.toNumber()).toBe(7);
+
+        // Reads are sent one by one once batching is turned off
+        KuruSdk.setReadBatching(false);
+        await Promise.all([
+            KuruSdk.MarginBalance.getBalance(inner, marginAccount, vault, baseToken),
+            KuruSdk.MarginBalance.getBalance(inner, marginAccount, vault, quoteToken),
+        ]);
+        expect(requests.slice(1).map((request) => request.to)).toEqual([marginAccount, marginAccount]);
+    });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from '@jest/globals';
+import { BigNumber, ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+import { mockMarketParams } from './helpers/fixtures';
+
+describe('OpenOrderTracker', () => {
+    const orderbookAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    const userAddress = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+    const otherAddress = '0x7d43103f26323c075B4D983F7F516b21592e2512';
+    const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
+    const makeLog = (eventName: string, values: any[], blockNumber: number, logIndex: number) => {
+        const { data, topics } = orderbookInterface.encodeEventLog(orderbookInterface.getEvent(eventName), values);
+        return {
+            address: orderbookAddress,
+            data,
+            topics,
+            blockNumber,
+            logIndex,
+            transactionHash: ethers.utils.hexZeroPad(ethers.utils.hexlify(blockNumber), 32),
+        } as ethers.providers.Log;
+    };
+
+    const logs = [
+        makeLog('OrderCreated', [1, userAddress, 1000000, 2450000, true], 100, 0),
+        makeLog('OrderCreated', [2, userAddress, 2000000, 2460000, false], 100, 1),
+        makeLog('OrderCreated', [3, otherAddress, 1000000, 2450000, true], 101, 0),
+        makeLog('OrderCreated', [4, userAddress, 500000, 2440000, true], 102, 0),
+        makeLog(
+            'Trade',
+            [2, userAddress, true, ethers.utils.parseUnits('246', 18), 1500000, otherAddress, otherAddress, 500000],
+            150,
+            0,
+        ),
+        makeLog(
+            'Trade',
+            [1, userAddress, false, ethers.utils.parseUnits('245', 18), 0, otherAddress, otherAddress, 1000000],
+            160,
+            0,
+        ),
+        makeLog('OrdersCanceled', [[4], userAddress], 170, 0),
+        makeLog('OrdersCanceled', [[3], otherAddress], 170, 1),
+    ];
+
+    const getLogsCalls: any[] = [];
+    const mockProvider = {
+        _isProvider: true,
+        getBlockNumber: async () => 200,
+        getLogs: async (filter: any) => {
+            getLogsCalls.push(filter);
+            return logs.filter((log) => log.blockNumber >= filter.fromBlock && log.blockNumber <= filter.toBlock);
+        },
+    } as any;
+
+    it('should rebuild open orders, remaining sizes and fills from logs', async () => {
+        const tracker = new KuruSdk.OpenOrderTracker(mockProvider, orderbookAddress, mockMarketParams, userAddress, {
+            maxBlockRange: 50,
+        });
+
+        const activeOrders = await tracker.sync(100);
+
+        expect(getLogsCalls.map((filter) => [filter.fromBlock, filter.toBlock])).toEqual([
+            [100, 149],
+            [150, 199],
+            [200, 200],
+        ]);
+        expect(activeOrders.orderIds).toEqual([BigNumber.from(2)]);
+        expect(activeOrders.blockNumber).toBe(200);
+
+        const partiallyFilled = tracker.getOrder(2)!;
+        expect(partiallyFilled.size).toBe(2);
+        expect(partiallyFilled.remainingSize).toBe(1.5);
+        expect(partiallyFilled.fills).toEqual([
+            {
+                price: 246,
+                filledSize: 0.5,
+                takerAddress: otherAddress,
+                blockNumber: 150,
+                transactionHash: logs[4].transactionHash,
+            },
+        ]);
+
+        expect(tracker.getOrder(1)!.remainingSize).toBe(0);
+        expect(tracker.getOrder(3)).toBeUndefined();
+        expect(tracker.getOrder(4)!.isCanceled).toBe(true);
+    });
+
+    it('should skip logs it has already applied and follow listener events', () => {
+        const tracker = new KuruSdk.OpenOrderTracker(mockProvider, orderbookAddress, mockMarketParams, userAddress);
+
+        tracker.handleLogs(logs.slice(0, 2));
+        tracker.handleLogs(logs.slice(0, 5));
+        expect(tracker.getOrder(2)!.fills.length).toBe(1);
+
+        const tradeLog = makeLog(
+            'Trade',
+            [2, userAddress, true, ethers.utils.parseUnits('246', 18), 0, otherAddress, otherAddress, 1500000],
+            180,
+            0,
+        );
+        const trade = {
+            orderId: BigNumber.from(2),
+            isBuy: true,
+            price: ethers.utils.parseUnits('246', 18),
+            updatedSize: BigNumber.from(0),
+            takerAddress: otherAddress,
+            filledSize: BigNumber.from(1500000),
+        };
+        tracker.handleTrade(trade, tradeLog);
+        // The same log seen again from getLogs or a repeated listener event is not applied twice
+        tracker.handleLogs([tradeLog]);
+        tracker.handleTrade(trade, tradeLog);
+        tracker.handleOrderCreated(
+            {
+                orderId: BigNumber.from(4),
+                ownerAddress: userAddress,
+                size: BigNumber.from(500000),
+                price: BigNumber.from(2440000),
+                isBuy: true,
+            },
+            logs[3],
+        );
+
+        expect(tracker.getOpenOrders().map((order) => order.orderId.toNumber())).toEqual([1, 4]);
+        expect(tracker.getOrder(2)!.fills).toHaveLength(2);
+        expect(tracker.getOrder(2)!.fills[1]).toEqual({
+            price: 246,
+            filledSize: 1.5,
+            takerAddress: otherAddress,
+            blockNumber: 180,
+            transactionHash: tradeLog.transactionHash,
+        });
+        expect(tracker.getActiveOrders().blockNumber).toBe(180);
+    });
+
+    it('should forget applied logs more than 128 blocks behind the latest one', () => {
+        const tracker = new KuruSdk.OpenOrderTracker(mockProvider, orderbookAddress, mockMarketParams, userAddress);
+
+        tracker.handleLogs(logs);
+        expect(tracker['seenLogs'].size).toBe(logs.length);
+
+        tracker.handleLogs([makeLog('OrdersCanceled', [[2], userAddress], 290, 0)]);
+        expect(Array.from(tracker['seenLogs'].values())).toEqual([170, 170, 290]);
+        expect(tracker.getOpenOrders()).toEqual([]);
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+import { createMarketParams } from './helpers/fixtures';
+
+describe('OrderAmender', () => {
+    const orderbookAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    // Well-known development key
+    const privateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+    const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
+    const marketParams = createMarketParams();
+
+    const createSigner = (remainingSize: number) => {
+        const sent: ethers.providers.TransactionRequest[] = [];
+        const provider = new ethers.providers.JsonRpcProvider('http://localhost:8545', { chainId: 1, name: 'test' });
+        const signer = new ethers.Wallet(privateKey, provider);
+
+        provider.send = async (method: string) => {
+            switch (method) {
+                case 'eth_chainId':
+                    return '0x1';
+                case 'eth_gasPrice':
+                    return '0x3b9aca00';
+                case 'eth_estimateGas':
+                    return '0x186a0';
+                case 'eth_call':
+                    // s_orders: a sell of the remaining size at 2.50
+                    return orderbookInterface.encodeFunctionResult('s_orders', [
+                        signer.address,
+                        remainingSize,
+                        0,
+                        0,
+                        0,
+                        250,
+                        0,
+                        false,
+                    ]);
+            }
+            throw new Error(`Unexpected ${method}`);
+        };
+
+        signer.sendTransaction = async (tx: ethers.providers.TransactionRequest) => {
+            sent.push(tx);
+            const log = orderbookInterface.encodeEventLog(orderbookInterface.getEvent('OrderCreated'), [
+                43,
+                signer.address,
+                remainingSize,
+                240,
+                false,
+            ]);
+            return {
+                wait: async () => ({ logs: [{ ...log, address: orderbookAddress, logIndex: 0 }] }),
+            } as any;
+        };
+
+        return { signer, sent };
+    };
+
+    it('should cancel and replace the order on the same side in one transaction', async () => {
+        const { signer, sent } = createSigner(1500);
+
+        const { orderId } = await KuruSdk.OrderAmender.amend(signer, orderbookAddress, marketParams, 42, {
+            price: '2.4',
+        });
+
+        expect(orderId?.toNumber()).toBe(43);
+        expect(sent).toHaveLength(1);
+
+        const { name, args } = orderbookInterface.parseTransaction({ data: sent[0].data as string });
+        expect(name).toBe('batchUpdate');
+        expect(args[0]).toEqual([]);
+        expect(args[2].map(Number)).toEqual([240]);
+        // The remaining size is kept
+        expect(args[3].map((size: ethers.BigNumber) => size.toNumber())).toEqual([1500]);
+        expect(args[4].map(Number)).toEqual([42]);
+    });
+
+    it('should skip or reject an order that is already filled', async () => {
+        const { signer, sent } = createSigner(0);
+
+        expect(
+            await KuruSdk.OrderAmender.amend(signer, orderbookAddress, marketParams, 42, {
+                size: '1',
+                skipIfFilled: true,
+            }),
+        ).toEqual({});
+        await expect(
+            KuruSdk.OrderAmender.amend(signer, orderbookAddress, marketParams, 42, { size: '1' }),
+        ).rejects.toThrow('already filled or canceled');
+        expect(sent).toHaveLength(0);
+    });
+});
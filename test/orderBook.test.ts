@@ -88,6 +88,41 @@ describe('OrderBook', () => {
         expect(reconciledBook.bids.length).toBeGreaterThan(0);
     });
 
+    it('should keep exact price levels and match trades against them', async () => {
+        const l2Book = await KuruSdk.OrderBook.getL2OrderBook(
+            mockProvider,
+            '0xcontractAddress',
+            mockMarketParams,
+            mockL2BookData,
+            mockVaultParams,
+        );
+
+        const manualAsk = l2Book.precise.manualOrders.asks[0];
+        expect(manualAsk.price.toString()).toBe('245375000000000000000');
+        expect(manualAsk.size.toString()).toBe('505012');
+        expect(KuruSdk.OrderBook.toFloatLevels([manualAsk], mockMarketParams)).toEqual([[245.375, 0.505012]]);
+
+        const tradeEvent: WssTradeEvent = {
+            orderId: 12,
+            makerAddress: '0x7d43103f26323c075B4D983F7F516b21592e2512',
+            isBuy: true,
+            price: '245375000000000000000',
+            updatedSize: '0',
+            takerAddress: '0xecc442E88Cd6B71FCcb256A5Fc838AdeE941a97e',
+            filledSize: '505012',
+            blockNumber: '2692514',
+            transactionHash: '0x01',
+            triggerTime: 100,
+        };
+
+        const reconciledBook = KuruSdk.OrderBook.reconcileTradeEvent(l2Book, mockMarketParams, tradeEvent);
+
+        expect(reconciledBook.manualOrders.asks).toEqual([[245.62, 1]]);
+        expect(reconciledBook.asks.some(([price]) => price === 245.375)).toBe(false);
+        // The input book is left untouched
+        expect(l2Book.manualOrders.asks.length).toBe(2);
+    });
+
     it('should handle empty orderbook', async () => {
         const emptyL2BookData = '0x0000000000000000000000000000000000000000000000000000000000000000';
         const emptyVaultParams = [
@@ -0,0 +1,113 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import { createMarketParams } from './helpers/fixtures';
+
+describe('OrderValidator', () => {
+    const orderbookAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+
+    const marketParams = createMarketParams({
+        tickSize: ethers.BigNumber.from(5),
+        minSize: ethers.BigNumber.from(100),
+    });
+
+    const level = (price: string, size: string) => ({
+        price: ethers.utils.parseUnits(price, 18),
+        size: ethers.utils.parseUnits(size, 3),
+    });
+
+    // Best bid 1.95, best ask 2.05, both sides sorted descending
+    const orderBook = {
+        asks: [],
+        bids: [],
+        blockNumber: 1,
+        vaultParams: {},
+        manualOrders: { asks: [], bids: [] },
+        precise: {
+            asks: [level('2.10', '1'), level('2.05', '1')],
+            bids: [level('1.95', '1'), level('1.90', '1')],
+            manualOrders: { asks: [], bids: [] },
+        },
+    } as any;
+
+    const limit = (price: string, size: string, isBuy: boolean = true, postOnly: boolean = false) => ({
+        price,
+        size,
+        isBuy,
+        postOnly,
+    });
+
+    const codes = (errors: KuruSdk.OrderValidationError[]) => errors.map((error) => error.code);
+
+    it('should check prices and sizes against the market params', () => {
+        expect(KuruSdk.OrderValidator.validateLimit(marketParams, limit('2.05', '0.5'))).toEqual([]);
+        expect(codes(KuruSdk.OrderValidator.validateLimit(marketParams, limit('2.03', '0.5')))).toEqual([
+            'Tick Size Error',
+        ]);
+        expect(codes(KuruSdk.OrderValidator.validateLimit(marketParams, limit('0', '0.05')))).toEqual([
+            'Price Error',
+            'Size Error',
+        ]);
+        expect(codes(KuruSdk.OrderValidator.validateLimit(marketParams, limit('50000000', '1001')))).toEqual([
+            'Price Error',
+            'Size Error',
+        ]);
+        expect(codes(KuruSdk.OrderValidator.validateLimit(marketParams, limit('abc', '1')))).toEqual(['Price Error']);
+    });
+
+    it('should reject post-only orders that cross the book', () => {
+        const validate = (price: string, isBuy: boolean) =>
+            codes(KuruSdk.OrderValidator.validateLimit(marketParams, limit(price, '1', isBuy, true), { orderBook }));
+
+        expect(validate('2.00', true)).toEqual([]);
+        expect(validate('2.05', true)).toEqual(['Post Only Error']);
+        expect(validate('2.00', false)).toEqual([]);
+        expect(validate('1.95', false)).toEqual(['Post Only Error']);
+    });
+
+    it('should check margin balances', () => {
+        const marginBalances = { base: ethers.utils.parseUnits('1', 18), quote: ethers.utils.parseUnits('4', 6) };
+        const validate = (order: any) =>
+            codes(KuruSdk.OrderValidator.validateLimit(marketParams, order, { marginBalances }));
+
+        expect(validate(limit('2.00', '2', true))).toEqual([]);
+        expect(validate(limit('2.05', '2', true))).toEqual(['Insufficient Balance']);
+        expect(validate(limit('2.00', '1.001', false))).toEqual(['Insufficient Balance']);
+
+        const market = { isBuy: true, size: '5', minAmountOut: '0', isMargin: true, fillOrKill: false };
+        expect(codes(KuruSdk.OrderValidator.validateMarket(marketParams, market as any, { marginBalances }))).toEqual([
+            'Insufficient Balance',
+        ]);
+        expect(
+            KuruSdk.OrderValidator.validateMarket(marketParams, { ...market, isMargin: false } as any, {
+                marginBalances,
+            }),
+        ).toEqual([]);
+    });
+
+    it('should report the index of invalid batch orders', () => {
+        const errors = KuruSdk.OrderValidator.validateBatch(
+            marketParams,
+            { limitOrders: [limit('2.00', '1'), limit('2.01', '1', false)], cancelOrders: [], postOnly: true },
+            { orderBook },
+        );
+
+        expect(errors.map(({ code, orderIndex }) => ({ code, orderIndex }))).toEqual([
+            { code: 'Tick Size Error', orderIndex: 1 },
+        ]);
+    });
+
+    it('should reject invalid orders before any call', async () => {
+        const provider = {
+            _isProvider: true,
+            getNetwork: () => Promise.resolve({ chainId: 1 }),
+            call: async () => {
+                throw new Error('Unexpected call');
+            },
+        } as any;
+
+        await expect(
+            KuruSdk.GTC.placeLimit(provider, orderbookAddress, marketParams, limit('2.03', '1')),
+        ).rejects.toMatchObject({ message: 'Tick Size Error' });
+    });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+import marginAccountAbi from '../abi/MarginAccount.json';
+import { createMarketParams } from './helpers/fixtures';
+
+describe('PortfolioLedger', () => {
+    const orderbookAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    const marginAccountAddress = '0x4B186949F31FCA0aD08497Df9169a6bEbF0e26ef';
+    const walletAddress = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+    const otherAddress = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+    const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+    const marginInterface = new ethers.utils.Interface(marginAccountAbi.abi);
+
+    const marketParams = createMarketParams();
+
+    let logIndex = 0;
+    const toLog = (
+        contractInterface: ethers.utils.Interface,
+        address: string,
+        name: string,
+        values: any[],
+    ): ethers.providers.Log => ({
+        ...contractInterface.encodeEventLog(contractInterface.getEvent(name), values),
+        address,
+        blockNumber: 1,
+        blockHash: ethers.constants.HashZero,
+        transactionIndex: 0,
+        removed: false,
+        transactionHash: ethers.constants.HashZero,
+        logIndex: logIndex++,
+    });
+
+    const trade = (maker: string, taker: string, isBuy: boolean, price: string, size: string) =>
+        toLog(orderbookInterface, orderbookAddress, 'Trade', [
+            1,
+            maker,
+            isBuy,
+            ethers.utils.parseUnits(price, 18),
+            0,
+            taker,
+            taker,
+            ethers.utils.parseUnits(size, 3),
+        ]);
+
+    const trades = () => [
+        // Buys 1 at 100 as taker, then 1 at 110 as maker, then sells 1.5 at 120 as taker
+        trade(otherAddress, walletAddress, true, '100', '1'),
+        trade(walletAddress, otherAddress, false, '110', '1'),
+        trade(otherAddress, walletAddress, false, '120', '1.5'),
+        // Someone else's trade
+        trade(otherAddress, otherAddress, true, '500', '10'),
+    ];
+
+    const createLedger = (method: KuruSdk.CostBasisMethod) => {
+        const ledger = new KuruSdk.PortfolioLedger({} as any, walletAddress, { method, marginAccountAddress });
+        ledger.addMarket(orderbookAddress, marketParams);
+        return ledger;
+    };
+
+    it('should realize PnL against the oldest lots with FIFO', () => {
+        const ledger = createLedger('fifo');
+        const logs = trades();
+        ledger.handleLogs(logs);
+        // Logs already applied are skipped
+        ledger.handleLogs(logs);
+
+        const position = ledger.getPosition(orderbookAddress);
+        expect(position.size).toBe(0.5);
+        expect(position.realizedPnl).toBeCloseTo(25, 9);
+        expect(position.averageEntryPrice).toBe(110);
+        expect(position.volume).toBe(3.5);
+        // 30 bps of 100 and 180 as taker, 10 bps of 110 as maker
+        expect(position.feesPaid).toBeCloseTo(0.95, 9);
+
+        ledger.setMarkPrice(orderbookAddress, 130);
+        expect(position.unrealizedPnl).toBeCloseTo(10, 9);
+    });
+
+    it('should realize PnL against the average cost', () => {
+        const ledger = createLedger('average');
+        ledger.handleLogs(trades());
+
+        const position = ledger.getPosition(orderbookAddress);
+        expect(position.size).toBe(0.5);
+        expect(position.realizedPnl).toBeCloseTo(22.5, 9);
+        expect(position.averageEntryPrice).toBe(105);
+    });
+
+    it('should forget applied logs more than 128 blocks behind the latest one', () => {
+        const ledger = createLedger('fifo');
+        ledger.handleLogs(trades());
+        expect(ledger['seenLogs'].size).toBe(4);
+
+        ledger.handleLogs([{ ...trade(otherAddress, walletAddress, true, '100', '1'), blockNumber: 200 }]);
+        expect(Array.from(ledger['seenLogs'].values())).toEqual([200]);
+        expect(ledger.getPosition(orderbookAddress).size).toBe(1.5);
+    });
+
+    it('should apply fills above the safe integer range', () => {
+        const ledger = createLedger('fifo');
+
+        // 10^13 base is 10^16 size units, more than Number.MAX_SAFE_INTEGER
+        ledger.handleLogs([
+            trade(otherAddress, walletAddress, true, '1', '10000000000000'),
+            trade(otherAddress, walletAddress, false, '2', '4000000000000'),
+        ]);
+
+        const position = ledger.getPosition(orderbookAddress);
+        expect(position.size).toBe(6e12);
+        expect(position.realizedPnl).toBeCloseTo(4e12, 0);
+    });
+
+    it('should track the margin transfers of the wallet', () => {
+        const ledger = createLedger('fifo');
+        const amount = (value: string) => ethers.utils.parseUnits(value, 6);
+
+        ledger.handleLogs([
+            toLog(marginInterface, marginAccountAddress, 'Deposit', [
+                walletAddress,
+                marketParams.quoteAssetAddress,
+                amount('100'),
+            ]),
+            toLog(marginInterface, marginAccountAddress, 'Withdrawal', [
+                walletAddress,
+                marketParams.quoteAssetAddress,
+                amount('30'),
+            ]),
+            toLog(marginInterface, marginAccountAddress, 'Deposit', [
+                otherAddress,
+                marketParams.quoteAssetAddress,
+                amount('5'),
+            ]),
+        ]);
+
+        expect(ledger.getTransfers()).toHaveLength(2);
+        expect(ethers.utils.formatUnits(ledger.getNetDeposits(marketParams.quoteAssetAddress), 6)).toBe('70.0');
+    });
+});
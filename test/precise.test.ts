@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import { createMarketParams } from './helpers/fixtures';
+
+describe('Precise conversion', () => {
+    const marketParams = createMarketParams({ tickSize: ethers.BigNumber.from(5) });
+
+    const parse = (value: string | number, decimals: number, rounding?: KuruSdk.RoundingMode) =>
+        KuruSdk.parseDecimal(value, decimals, rounding).toString();
+
+    it('should convert decimals exactly', () => {
+        expect(parse('1.5', 2)).toBe('150');
+        expect(parse('.5', 2)).toBe('50');
+        expect(parse('123456789012345678901234567890', 18)).toBe('123456789012345678901234567890' + '0'.repeat(18));
+        expect(parse(1e-7, 9)).toBe('100');
+        expect(parse('2.5e3', 0)).toBe('2500');
+        expect(parse(1e21, 0)).toBe('1' + '0'.repeat(21));
+        expect(() => parse('1.2.3', 2)).toThrow('Invalid decimal value');
+        expect(() => parse('', 2)).toThrow('Invalid decimal value');
+    });
+
+    it('should round in every mode', () => {
+        expect(parse('1.234', 2, 'floor')).toBe('123');
+        expect(parse('1.234', 2, 'ceil')).toBe('124');
+        expect(parse('1.234', 2, 'nearest')).toBe('123');
+        expect(parse('1.235', 2, 'nearest')).toBe('124');
+        expect(parse('1.2300', 2, 'ceil')).toBe('123');
+        expect(parse('-1.234', 2, 'floor')).toBe('-124');
+        expect(parse('-1.234', 2, 'ceil')).toBe('-123');
+        expect(parse('0.0001', 2, 'ceil')).toBe('1');
+    });
+
+    it('should align prices to the tick relative to the spread', () => {
+        const price = (isBuy: boolean, rounding: KuruSdk.PriceRoundingMode) =>
+            KuruSdk.toPricePrecision('2.013', marketParams, isBuy, rounding).toString();
+
+        expect(price(true, 'floor')).toBe('201');
+        expect(price(true, 'towardSpread')).toBe('205');
+        expect(price(true, 'awayFromSpread')).toBe('200');
+        expect(price(false, 'towardSpread')).toBe('200');
+        expect(price(false, 'awayFromSpread')).toBe('205');
+        expect(KuruSdk.toPricePrecision('2.05', marketParams, true, 'towardSpread').toString()).toBe('205');
+    });
+
+    it('should convert an order the same way in every order path', () => {
+        const order = { price: '2.019', size: '1.2345', isBuy: true, postOnly: false };
+        const batch = { limitOrders: [order], cancelOrders: [], postOnly: false };
+
+        // Both paths truncate, so the order is off tick whichever path places it
+        expect(KuruSdk.OrderValidator.validateLimit(marketParams, order).map((error) => error.code)).toEqual([
+            'Tick Size Error',
+        ]);
+        expect(KuruSdk.OrderValidator.validateBatch(marketParams, batch).map((error) => error.code)).toEqual([
+            'Tick Size Error',
+        ]);
+        expect(
+            KuruSdk.OrderValidator.validateBatch(marketParams, {
+                ...batch,
+                limitOrders: [{ ...order, priceRounding: 'awayFromSpread' }],
+            }),
+        ).toEqual([]);
+    });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+import { createMarketParams } from './helpers/fixtures';
+
+describe('QuoteEngine', () => {
+    const orderbookAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    // Well-known development key
+    const privateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+    const otherAddress = '0x7d43103f26323c075B4D983F7F516b21592e2512';
+
+    const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
+    const marketParams = createMarketParams({ tickSize: ethers.BigNumber.from(5) });
+
+    const config = { levels: 2, spacingTicks: 2, offsetTicks: 1, sizePerLevel: '1.5' };
+
+    const createPriceFeed = (price: number) => {
+        const feed = { price, getPrice: async () => feed.price };
+        return feed;
+    };
+
+    // Sends nothing, and answers every batchUpdate with the events the order book would emit for it.
+    // Each batch and each fill by another trader is mined in a block of its own.
+    const createSigner = () => {
+        const batches: ethers.utils.Result[] = [];
+        const chainLogs: ethers.providers.Log[] = [];
+        const provider = new ethers.providers.JsonRpcProvider('http://localhost:8545', { chainId: 1, name: 'test' });
+        const signer = new ethers.Wallet(privateKey, provider);
+        let nextOrderId = 1;
+        let blockNumber = 0;
+
+        provider.send = async (method: string, params: any[]) => {
+            switch (method) {
+                case 'eth_chainId':
+                    return '0x1';
+                case 'eth_gasPrice':
+                    return '0x3b9aca00';
+                case 'eth_estimateGas':
+                    return '0x186a0';
+                case 'eth_blockNumber':
+                    return ethers.utils.hexValue(blockNumber);
+                case 'eth_getLogs': {
+                    const [{ fromBlock, toBlock }] = params;
+                    return chainLogs
+                        .filter((log) => log.blockNumber >= Number(fromBlock) && log.blockNumber <= Number(toBlock))
+                        .map((log) => ({
+                            ...log,
+                            blockNumber: ethers.utils.hexValue(log.blockNumber),
+                            logIndex: ethers.utils.hexValue(log.logIndex),
+                            blockHash: ethers.constants.HashZero,
+                            transactionIndex: '0x0',
+                            removed: false,
+                        }));
+                }
+            }
+            throw new Error(`Unexpected ${method}`);
+        };
+
+        const mine = (events: [string, any[]][]) => {
+            blockNumber++;
+            const transactionHash = ethers.utils.hexZeroPad(ethers.utils.hexlify(blockNumber), 32);
+            const logs = events.map(([name, values], logIndex) => ({
+                ...orderbookInterface.encodeEventLog(orderbookInterface.getEvent(name), values),
+                address: orderbookAddress,
+                blockNumber,
+                transactionHash,
+                logIndex,
+            })) as ethers.providers.Log[];
+            chainLogs.push(...logs);
+            return logs;
+        };
+
+        // Another trader takes the whole remaining size of an order
+        const fill = (orderId: number, price: number, size: number, isBuy: boolean) =>
+            mine([
+                [
+                    'Trade',
+                    [
+                        orderId,
+                        signer.address,
+                        !isBuy,
+                        ethers.utils.parseUnits(price.toString(), 18),
+                        0,
+                        otherAddress,
+                        otherAddress,
+                        size,
+                    ],
+                ],
+            ]);
+
+        signer.sendTransaction = async (tx: ethers.providers.TransactionRequest) => {
+            const { args } = orderbookInterface.parseTransaction({ data: tx.data as string });
+            batches.push(args);
+
+            const events: [string, any[]][] = [];
+            if (args[4].length > 0) {
+                events.push(['OrdersCanceled', [args[4], signer.address]]);
+            }
+            args[0].forEach((price: number, i: number) =>
+                events.push(['OrderCreated', [nextOrderId++, signer.address, args[1][i], price, true]]),
+            );
+            args[2].forEach((price: number, i: number) =>
+                events.push(['OrderCreated', [nextOrderId++, signer.address, args[3][i], price, false]]),
+            );
+
+            const logs = mine(events);
+            return { wait: async () => ({ logs }) } as any;
+        };
+
+        return { signer, batches, fill };
+    };
+
+    const prices = (levels: KuruSdk.QuoteLevel[]) => levels.map((level) => level.price.toNumber());
+
+    it('should build a tick-aligned ladder skewed by inventory', () => {
+        const skewed = { ...config, skewTicksPerUnit: 2, targetInventory: 1 };
+
+        expect(prices(KuruSdk.QuoteEngine.buildLadder(marketParams, config, 2.01))).toEqual([195, 185, 210, 220]);
+        // Two units of base above the target move the ladder four ticks down
+        expect(prices(KuruSdk.QuoteEngine.buildLadder(marketParams, skewed, 2.01, 3))).toEqual([175, 165, 190, 200]);
+    });
+
+    it('should only cancel and place the levels that moved', async () => {
+        const { signer, batches } = createSigner();
+        const priceFeed = createPriceFeed(2.01);
+        const engine = new KuruSdk.QuoteEngine(signer, orderbookAddress, marketParams, priceFeed, config);
+
+        await engine.update();
+        expect(batches[0][0].map(Number)).toEqual([195, 185]);
+        expect(batches[0][2].map(Number)).toEqual([210, 220]);
+        expect(batches[0][4]).toEqual([]);
+        expect(batches[0][5]).toBe(true);
+
+        // Nothing changed, so nothing is sent
+        expect(await engine.update()).toBeUndefined();
+        expect(batches).toHaveLength(1);
+
+        // Moving up two ticks keeps the orders that are still on the ladder
+        priceFeed.price = 2.11;
+        await engine.update();
+        expect(batches[1][0].map(Number)).toEqual([205]);
+        expect(batches[1][2].map(Number)).toEqual([230]);
+        expect(batches[1][4].map(Number)).toEqual([2, 3]);
+
+        const resting = await engine.getRestingOrders();
+        expect(resting.map((order) => order.price).sort()).toEqual([1.95, 2.05, 2.2, 2.3]);
+
+        await engine.cancelAll();
+        expect(batches[2][4]).toHaveLength(4);
+        expect(await engine.getRestingOrders()).toEqual([]);
+    });
+
+    it('should requote orders filled by other traders between updates', async () => {
+        const { signer, batches, fill } = createSigner();
+        const priceFeed = createPriceFeed(2.01);
+        const engine = new KuruSdk.QuoteEngine(signer, orderbookAddress, marketParams, priceFeed, config);
+
+        await engine.update();
+        // The best bid and the best ask are taken before the next update
+        fill(1, 1.95, 1500, true);
+        fill(3, 2.1, 1500, false);
+
+        await engine.update();
+        expect(batches[1][0].map(Number)).toEqual([195]);
+        expect(batches[1][2].map(Number)).toEqual([210]);
+        // Filled orders are gone, so canceling them would revert the batch
+        expect(batches[1][4]).toEqual([]);
+
+        priceFeed.price = 2.11;
+        fill(5, 1.95, 1500, true);
+        await engine.update();
+        expect(batches[2][4].map(Number)).toEqual([2, 6]);
+    });
+
+    it('should pick up orders resting before the engine started from fromBlock', async () => {
+        const { signer, batches } = createSigner();
+        const priceFeed = createPriceFeed(2.01);
+        await new KuruSdk.QuoteEngine(signer, orderbookAddress, marketParams, priceFeed, config).update();
+
+        const restarted = new KuruSdk.QuoteEngine(signer, orderbookAddress, marketParams, priceFeed, config, {
+            fromBlock: 1,
+        });
+        expect(await restarted.update()).toBeUndefined();
+        expect(await restarted.getRestingOrders()).toHaveLength(4);
+        expect(batches).toHaveLength(1);
+    });
+
+    it('should queue one update with the latest inventory while another is in flight', async () => {
+        const { signer, batches } = createSigner();
+        const skewed = { ...config, skewTicksPerUnit: 2, targetInventory: 1 };
+        const engine = new KuruSdk.QuoteEngine(signer, orderbookAddress, marketParams, createPriceFeed(2.01), skewed);
+
+        const first = engine.update(1);
+        const second = engine.update(5);
+        const third = engine.update(3);
+        expect(second).toBe(third);
+
+        await Promise.all([first, second]);
+        expect(batches).toHaveLength(2);
+        expect(batches[0][0].map(Number)).toEqual([195, 185]);
+        // Two units of base above the target move the ladder four ticks down
+        expect(batches[1][0].map(Number)).toEqual([175, 165]);
+        expect(batches[1][2].map(Number)).toEqual([190, 200]);
+    });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from '@jest/globals';
+import { BigNumber, ContractReceipt, ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+import { mockMarketParams } from './helpers/fixtures';
+
+describe('ReceiptDecoder', () => {
+    const orderbookAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    const userAddress = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+    const makerAddress = '0x7d43103f26323c075B4D983F7F516b21592e2512';
+    const orderbookInterface = new ethers.utils.Interface(orderbookAbi.abi);
+
+    const makeLog = (eventName: string, values: any[], logIndex: number, address = orderbookAddress) => {
+        const { data, topics } = orderbookInterface.encodeEventLog(orderbookInterface.getEvent(eventName), values);
+        return { address, data, topics, logIndex } as ethers.providers.Log;
+    };
+
+    const makeReceipt = (logs: ethers.providers.Log[]) => ({ logs, transactionHash: '0x01' }) as ContractReceipt;
+
+    it('should decode and scale order book events', () => {
+        const receipt = makeReceipt([
+            makeLog('OrderCreated', [7, userAddress, 1500000, 2451300, true], 0),
+            makeLog(
+                'Trade',
+                [3, makerAddress, true, ethers.utils.parseUnits('245.2', 18), 0, userAddress, userAddress, 500000],
+                1,
+            ),
+            makeLog('OrdersCanceled', [[1, 2], userAddress], 2),
+        ]);
+
+        const decoded = KuruSdk.ReceiptDecoder.decode(receipt, mockMarketParams, orderbookAddress);
+
+        expect(decoded.events.map((event) => event.name)).toEqual(['OrderCreated', 'Trade', 'OrdersCanceled']);
+        expect(decoded.ordersCreated[0].orderId.toNumber()).toBe(7);
+        expect(decoded.ordersCreated[0].price).toBe(245.13);
+        expect(decoded.ordersCreated[0].size).toBe(1.5);
+        expect(decoded.trades[0].price).toBe(245.2);
+        expect(decoded.trades[0].filledSize).toBe(0.5);
+        expect(decoded.ordersCanceled[0].orderIds.map((id) => id.toNumber())).toEqual([1, 2]);
+    });
+
+    it('should ignore logs from other contracts', () => {
+        const receipt = makeReceipt([
+            makeLog('OrderCreated', [7, userAddress, 1500000, 2451300, true], 0, makerAddress),
+        ]);
+
+        const decoded = KuruSdk.ReceiptDecoder.decode(receipt, mockMarketParams, orderbookAddress);
+
+        expect(decoded.events.length).toBe(0);
+    });
+
+    it('should summarize fills, average price and fees for the taker', () => {
+        const receipt = makeReceipt([
+            makeLog(
+                'Trade',
+                [3, makerAddress, false, ethers.utils.parseUnits('250', 18), 0, userAddress, userAddress, 1000000],
+                0,
+            ),
+            makeLog(
+                'Trade',
+                [4, makerAddress, false, ethers.utils.parseUnits('240', 18), 0, userAddress, userAddress, 1000000],
+                1,
+            ),
+            makeLog('FlipOrderCreated', [9, 0, userAddress, 2000000, 2400000, 2500000, true], 2),
+            makeLog('OrderCreated', [8, makerAddress, 1000000, 2451300, true], 3),
+        ]);
+
+        const result = KuruSdk.ReceiptDecoder.summarize(receipt, mockMarketParams, userAddress);
+
+        expect(result.orderIds).toEqual([BigNumber.from(9)]);
+        expect(result.filledSize).toBe(2);
+        expect(result.averagePrice).toBe(245);
+        // 30 bps of the quote received (250 + 240)
+        expect(result.feesPaid).toBeCloseTo(1.47, 10);
+    });
+
+    it('should collect cancelled order IDs without market params', () => {
+        const receipt = makeReceipt([
+            makeLog('OrdersCanceled', [[1, 2], userAddress], 0),
+            makeLog('FlipOrdersCanceled', [[5], userAddress], 1),
+        ]);
+
+        expect(KuruSdk.ReceiptDecoder.getCanceledOrderIds(receipt).map((id) => id.toNumber())).toEqual([1, 2, 5]);
+    });
+
+    it('should return the canceled order IDs from cancelOrders', async () => {
+        // Well-known development key
+        const signer = new ethers.Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+        signer.sendTransaction = async (tx: ethers.providers.TransactionRequest) => {
+            const [orderIds] = orderbookInterface.decodeFunctionData('batchCancelOrders', tx.data as string);
+            const logs = [makeLog('OrdersCanceled', [orderIds, userAddress], 0)];
+            return { wait: async () => makeReceipt(logs) } as any;
+        };
+
+        const receipt = await KuruSdk.OrderCanceler.cancelOrders(
+            signer,
+            orderbookAddress,
+            [BigNumber.from(3), BigNumber.from(4)],
+            { gasLimit: BigNumber.from(100000), gasPrice: BigNumber.from(1) },
+        );
+
+        expect(receipt.transactionHash).toBe('0x01');
+        expect(receipt.canceledOrderIds.map((id) => id.toNumber())).toEqual([3, 4]);
+    });
+});
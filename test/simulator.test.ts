@@ -0,0 +1,123 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import { OrderBookData } from '../src/types';
+import { mockL2BookData, mockVaultParams, mockMarketParams } from './helpers/fixtures';
+
+describe('MarketSimulator', () => {
+    const mockProvider = {
+        getNetwork: () => Promise.resolve({ chainId: 1 }),
+        _isProvider: true,
+    } as any;
+
+    const getBook = (): Promise<OrderBookData> =>
+        KuruSdk.OrderBook.getL2OrderBook(
+            mockProvider,
+            '0xcontractAddress',
+            mockMarketParams,
+            mockL2BookData,
+            mockVaultParams,
+        );
+
+    it('should walk the AMM bid ladder for a market sell', async () => {
+        const orderBook = await getBook();
+
+        const result = KuruSdk.MarketSimulator.simulateMarketSell(orderBook, mockMarketParams, 0.5);
+
+        expect(result.fills).toEqual([
+            { price: 245.1299404550743, size: 0.295235, isAmm: true },
+            { price: 244.88505539967463, size: 0.204765, isAmm: true },
+        ]);
+        expect(result.filledSize).toBe(0.5);
+        expect(result.isFullyFilled).toBe(true);
+        // 30 bps of the quote received
+        expect(result.feePaid).toBeCloseTo(result.averagePrice * 0.5 * 0.003, 12);
+        expect(result.output).toBeCloseTo(result.averagePrice * 0.5 - result.feePaid, 12);
+
+        // The first AMM level is consumed and the vault moves to the next one
+        expect(result.orderBook.bids[0]).toEqual([244.88505539967463, 0.290718]);
+        expect(orderBook.bids[0]).toEqual([245.1299404550743, 0.295235]);
+    });
+
+    it('should match manual asks before the AMM at a better price for a market buy', async () => {
+        const orderBook = await getBook();
+
+        const result = KuruSdk.MarketSimulator.simulateMarketBuy(orderBook, mockMarketParams, 200);
+
+        expect(result.fills).toEqual([
+            { price: 245.375, size: 0.505012, isAmm: false },
+            { price: 245.37507039552938, size: 0.310066, isAmm: true },
+        ]);
+        expect(result.filledSize).toBe(0.815078);
+        expect(result.input).toBeLessThanOrEqual(200);
+        expect(result.feePaid).toBe(0.002445);
+        expect(result.output).toBe(0.812633);
+
+        const bestAsk = result.orderBook.asks[result.orderBook.asks.length - 1];
+        expect(bestAsk).toEqual([245.37507039552938, 0.184921]);
+        expect(result.orderBook.manualOrders.asks).toEqual([[245.62, 1]]);
+    });
+
+    it('should report a partial fill when the book is exhausted', async () => {
+        const orderBook = await getBook();
+        const manualOnly = {
+            ...orderBook,
+            vaultParams: { ...orderBook.vaultParams, kuruAmmVault: ethers.constants.AddressZero },
+        };
+
+        const result = KuruSdk.MarketSimulator.simulateMarketSell(manualOnly, mockMarketParams, 5);
+
+        expect(result.filledSize).toBe(2);
+        expect(result.isFullyFilled).toBe(false);
+        expect(result.orderBook.manualOrders.bids).toEqual([]);
+    });
+
+    it('should stop matching at the limit price', async () => {
+        const orderBook = await getBook();
+
+        const result = KuruSdk.MarketSimulator.simulateMarketSell(orderBook, mockMarketParams, 0.5, '245');
+
+        expect(result.fills).toEqual([{ price: 245.1299404550743, size: 0.295235, isAmm: true }]);
+        expect(result.isFullyFilled).toBe(false);
+    });
+
+    it('should cut a price-limited IOC order to the size fillable up to the limit', async () => {
+        const orderBook = await getBook();
+
+        const { order, unfilledSize } = KuruSdk.IOC.resolvePriceLimitedOrder(orderBook, mockMarketParams, {
+            approveTokens: false,
+            isBuy: false,
+            size: '0.5',
+            limitPrice: '245',
+            slippageTolerance: 0,
+            isMargin: false,
+            fillOrKill: false,
+        });
+
+        expect(order.size).toBe('0.295235');
+        expect(unfilledSize).toBe('0.204765');
+        const { output } = KuruSdk.MarketSimulator.simulateMarketSell(orderBook, mockMarketParams, 0.295235);
+        expect(Number(order.minAmountOut)).toBeCloseTo(output, 12);
+    });
+
+    it('should keep the minAmountOut of a price-limited IOC order at or below the exact output', async () => {
+        const orderBook = await getBook();
+        // The quote that selling 0.295235 base into the 245.13 AMM bid returns, in 18 decimals
+        const exactOutput = ethers.utils.parseUnits('72.153825156343097997', 18);
+        const resolve = (slippageTolerance: number) =>
+            KuruSdk.IOC.resolvePriceLimitedOrder(orderBook, mockMarketParams, {
+                approveTokens: false,
+                isBuy: false,
+                size: '0.5',
+                limitPrice: '245',
+                slippageTolerance,
+                isMargin: false,
+                fillOrKill: false,
+            }).order;
+
+        expect(ethers.utils.parseUnits(resolve(0).minAmountOut, 18).lte(exactOutput)).toBe(true);
+        expect(ethers.utils.parseUnits(resolve(1).minAmountOut, 18).toString()).toBe(
+            exactOutput.mul(9900).div(10000).toString(),
+        );
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+import orderbookAbi from '../abi/OrderBook.json';
+import marginAccountAbi from '../abi/MarginAccount.json';
+import activeVaultAbi from '../abi/ActiveVault.json';
+import { mockMarketParams } from './helpers/fixtures';
+
+describe('Snapshot', () => {
+    const orderbookAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    const marginAccountAddress = '0x4B186949F31FCA0aD08497Df9169a6bEbF0e26ef';
+    const vaultAddress = '0x7d43103f26323c075B4D983F7F516b21592e2512';
+    const userAddress = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+    const token = '0x0000000000000000000000000000000000000001';
+
+    const interfaces: Record<string, ethers.utils.Interface> = {
+        [orderbookAddress]: new ethers.utils.Interface(orderbookAbi.abi),
+        [marginAccountAddress]: new ethers.utils.Interface(marginAccountAbi.abi),
+        [vaultAddress]: new ethers.utils.Interface(activeVaultAbi.abi),
+    };
+
+    const createProvider = (latestBlock: number) => {
+        const blockTags: any[] = [];
+        const provider = {
+            _isProvider: true,
+            getNetwork: () => Promise.resolve({ chainId: 1 }),
+            getBlockNumber: async () => latestBlock,
+            getBlock: async (blockTag: string) => ({ number: blockTag === 'finalized' ? latestBlock - 10 : -1 }),
+            call: async (tx: any, blockTag: any) => {
+                blockTags.push(blockTag);
+                const contractInterface = interfaces[ethers.utils.getAddress(tx.to)];
+                const { name } = contractInterface.parseTransaction({ data: tx.data });
+
+                switch (name) {
+                    case 'getMarketParams':
+                        return contractInterface.encodeFunctionResult(name, [
+                            10000,
+                            1000000,
+                            token,
+                            18,
+                            token,
+                            18,
+                            10,
+                            100,
+                            1,
+                            30,
+                            20,
+                        ]);
+                    case 'getL2Book':
+                        // The L2 book starts with the block it was read at
+                        return contractInterface.encodeFunctionResult(name, [
+                            ethers.utils.hexZeroPad(ethers.utils.hexlify(blockTag), 32),
+                        ]);
+                    case 'getVaultParams':
+                        return contractInterface.encodeFunctionResult(name, [token, 0, 0, 0, 0, 0, 0, 0]);
+                    case 'getBalance':
+                        return contractInterface.encodeFunctionResult(name, [blockTag]);
+                    case 'calculateNotionalValue':
+                        return contractInterface.encodeFunctionResult(name, [1, 2]);
+                }
+                throw new Error(`Unexpected call to ${name}`);
+            },
+        } as any;
+
+        return { provider, blockTags };
+    };
+
+    it('should run every read at the pinned block', async () => {
+        const { provider, blockTags } = createProvider(500);
+        const snapshot = await KuruSdk.Snapshot.at(provider);
+        expect(snapshot.blockNumber).toBe(500);
+
+        const [marketParams, balance, notional, orderBook] = await snapshot.readAll([
+            (blockTag) => KuruSdk.ParamFetcher.getMarketParams(provider, orderbookAddress, blockTag),
+            (blockTag) =>
+                KuruSdk.MarginBalance.getBalance(provider, marginAccountAddress, userAddress, token, blockTag),
+            (blockTag) => KuruSdk.ActiveVault.getNotionalValues(vaultAddress, provider, blockTag),
+            (blockTag) =>
+                KuruSdk.OrderBook.getL2OrderBook(
+                    provider,
+                    orderbookAddress,
+                    mockMarketParams,
+                    undefined,
+                    undefined,
+                    blockTag,
+                ),
+        ]);
+
+        expect(marketParams.takerFeeBps.toNumber()).toBe(30);
+        expect(balance.toNumber()).toBe(500);
+        expect(notional.quoteNotional.toNumber()).toBe(2);
+        expect(orderBook.blockNumber).toBe(500);
+        expect(blockTags).toHaveLength(5);
+        expect(blockTags.every((blockTag) => Number(blockTag) === 500)).toBe(true);
+    });
+
+    it('should resolve block tags once', async () => {
+        const { provider } = createProvider(500);
+
+        expect((await KuruSdk.Snapshot.at(provider, 'finalized')).blockNumber).toBe(490);
+        expect((await KuruSdk.Snapshot.at(provider, '0x10')).blockNumber).toBe(16);
+        expect((await KuruSdk.Snapshot.at(provider, 42)).blockNumber).toBe(42);
+    });
+});
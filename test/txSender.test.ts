@@ -0,0 +1,128 @@
+import { describe, it, expect } from '@jest/globals';
+import { ethers } from 'ethers';
+import * as KuruSdk from '../src';
+
+describe('TxSender', () => {
+    // Well-known development key
+    const privateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+    const to = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+
+    // Records the nonce of every send. The node rejects the first send when it is given a stale nonce.
+    const createSigner = ({ pendingCount = 5, rejectFirst = false } = {}) => {
+        const nonces: number[] = [];
+        const sent: ethers.providers.TransactionRequest[] = [];
+        const provider = new ethers.providers.JsonRpcProvider('http://localhost:8545', { chainId: 1, name: 'test' });
+        const signer = new ethers.Wallet(privateKey, provider);
+        let countRequests = 0;
+        let shouldReject = rejectFirst;
+
+        provider.send = async (method: string) => {
+            switch (method) {
+                case 'eth_chainId':
+                    return '0x1';
+                case 'eth_gasPrice':
+                    return '0x3b9aca00';
+                case 'eth_getTransactionByHash':
+                case 'eth_getTransactionReceipt':
+                    return null;
+                case 'eth_getTransactionCount':
+                    // The first count is stale when the first send is rejected
+                    return ethers.utils.hexlify(pendingCount + (rejectFirst && countRequests++ > 0 ? 2 : 0));
+            }
+            throw new Error(`Unexpected ${method}`);
+        };
+
+        signer.sendTransaction = async (tx: ethers.providers.TransactionRequest) => {
+            if (shouldReject) {
+                shouldReject = false;
+                throw new Error('nonce too low');
+            }
+            nonces.push(Number(tx.nonce));
+            sent.push(tx);
+            const hash = ethers.utils.hexZeroPad(ethers.utils.hexlify(sent.length), 32);
+            return { ...tx, hash, from: signer.address, nonce: Number(tx.nonce), wait: async () => ({}) } as any;
+        };
+
+        return { signer, provider, nonces, sent };
+    };
+
+    it('should give concurrent sends consecutive nonces', async () => {
+        const { signer, nonces } = createSigner();
+        const txSender = new KuruSdk.TxSender(signer);
+
+        await Promise.all([
+            txSender.sendTransaction({ to }),
+            txSender.sendTransactions([{ to }, { to }]),
+            txSender.sendTransaction({ to }),
+        ]);
+        // A caller nonce is kept and does not move the local nonce back
+        await txSender.sendTransaction({ to, nonce: 3 });
+        await txSender.sendTransaction({ to });
+
+        expect(nonces).toEqual([5, 6, 7, 8, 3, 9]);
+    });
+
+    it('should resync and retry when the local nonce is stale', async () => {
+        const { signer, nonces } = createSigner({ rejectFirst: true });
+        const txSender = new KuruSdk.TxSender(signer);
+
+        await txSender.sendTransaction({ to });
+        await txSender.sendTransaction({ to });
+
+        expect(nonces).toEqual([7, 8]);
+    });
+
+    it('should route SDK sends through the txSender', async () => {
+        const { signer, nonces } = createSigner();
+        const txSender = new KuruSdk.TxSender(signer);
+
+        await KuruSdk.sendTransactionRequest(signer, { to }, { txSender });
+
+        expect(nonces).toEqual([5]);
+    });
+
+    it('should speed up a legacy transaction above the current gas price', async () => {
+        const { signer, sent } = createSigner();
+        const txSender = new KuruSdk.TxSender(signer);
+
+        const gasPrice = ethers.utils.parseUnits('0.5', 'gwei');
+        const gasLimit = ethers.BigNumber.from(100000);
+        const original = await txSender.sendTransaction({ to, data: '0x1234', gasPrice, gasLimit });
+        const replacement = await txSender.speedUp(original.hash, 20);
+
+        expect(replacement.nonce).toBe(original.nonce);
+        expect(sent[1].to).toBe(to);
+        expect(sent[1].data).toBe('0x1234');
+        // The node asks 1 gwei, which is above what the original pays
+        expect(sent[1].gasPrice!.toString()).toBe(ethers.utils.parseUnits('1.2', 'gwei').toString());
+    });
+
+    it('should cancel an EIP-1559 transaction with bumped fees', async () => {
+        const { signer, provider, sent } = createSigner();
+        const txSender = new KuruSdk.TxSender(signer, { feeBumpPercent: 15 });
+        provider.getFeeData = async () => ({
+            lastBaseFeePerGas: null,
+            gasPrice: null,
+            maxFeePerGas: ethers.utils.parseUnits('1', 'gwei'),
+            maxPriorityFeePerGas: ethers.utils.parseUnits('1', 'gwei'),
+        });
+
+        const original = await txSender.sendTransaction({
+            to,
+            data: '0x1234',
+            gasLimit: ethers.BigNumber.from(100000),
+            maxFeePerGas: ethers.utils.parseUnits('2', 'gwei'),
+            maxPriorityFeePerGas: ethers.utils.parseUnits('0.5', 'gwei'),
+        });
+        const replacement = await txSender.cancelPending(original.hash);
+
+        expect(replacement.nonce).toBe(original.nonce);
+        expect(sent[1].to).toBe(signer.address);
+        expect(sent[1].data).toBe('0x');
+        expect(sent[1].gasPrice).toBeUndefined();
+        expect(sent[1].maxFeePerGas!.toString()).toBe(ethers.utils.parseUnits('2.3', 'gwei').toString());
+        expect(sent[1].maxPriorityFeePerGas!.toString()).toBe(ethers.utils.parseUnits('1.15', 'gwei').toString());
+        // The original is no longer pending once replaced
+        await expect(txSender.speedUp(original.hash)).rejects.toThrow('is not pending');
+    });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { Server, Socket } from 'socket.io';
+import * as KuruSdk from '../src';
+
+describe('KuruWsClient', () => {
+    const marketAddress = '0x9865F96Cdf1A158c6D835a833Cd668C17a58A083';
+    const otherMarketAddress = '0x0000000000000000000000000000000000000001';
+    const userAddress = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+
+    let server: Server | undefined;
+    let client: KuruSdk.KuruWsClient | undefined;
+
+    afterEach(() => {
+        client?.disconnect();
+        server?.close();
+        client = undefined;
+        server = undefined;
+    });
+
+    const startServer = async () => {
+        const httpServer = createServer();
+        const io = new Server(httpServer);
+        const connections: Socket[] = [];
+        io.on('connection', (socket) => connections.push(socket));
+
+        await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+        server = io;
+
+        return { url: `http://localhost:${(httpServer.address() as AddressInfo).port}`, connections };
+    };
+
+    const waitFor = async (condition: () => boolean) => {
+        for (let i = 0; i < 200 && !condition(); i++) {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        expect(condition()).toBe(true);
+    };
+
+    it('should subscribe to a market and normalize its events', async () => {
+        const { url, connections } = await startServer();
+        client = new KuruSdk.KuruWsClient(url, marketAddress);
+
+        const orders: KuruSdk.WssOrderEvent[] = [];
+        const trades: KuruSdk.WssTradeEvent[] = [];
+        const cancels: KuruSdk.WssCanceledOrderEvent[] = [];
+        client.onOrderCreated((event) => orders.push(event));
+        client.onTrade((event) => trades.push(event));
+        client.onOrdersCanceled((event) => cancels.push(event));
+
+        await client.connect();
+        expect(connections[0].handshake.query.marketAddress).toBe(marketAddress);
+
+        connections[0].emit('OrderCreated', {
+            orderId: '7',
+            owner: userAddress,
+            size: '1500',
+            price: 24500,
+            isBuy: true,
+            blockNumber: '0x64',
+            transactionHash: '0x01',
+            triggerTime: '1700000000',
+            marketAddress,
+        });
+        connections[0].emit('Trade', {
+            orderId: 7,
+            makerAddress: userAddress,
+            isBuy: true,
+            price: '245000000000000000000',
+            updatedSize: '500',
+            takerAddress: userAddress,
+            filledSize: '1000',
+            blockNumber: '0x65',
+            transactionHash: '0x02',
+            triggerTime: 1700000001,
+            marketAddress: otherMarketAddress,
+        });
+        connections[0].emit('Trade', {
+            orderId: 7,
+            makerAddress: userAddress,
+            isBuy: true,
+            price: '245000000000000000000',
+            updatedSize: '500',
+            takerAddress: userAddress,
+            filledSize: '1000',
+            blockNumber: 101,
+            transactionHash: '0x03',
+            triggerTime: 1700000001,
+            marketAddress,
+        });
+        connections[0].emit('OrdersCanceled', {
+            orderIds: ['7'],
+            makerAddress: userAddress,
+            canceledOrdersData: [],
+        });
+
+        await waitFor(() => cancels.length === 1);
+
+        expect(orders).toHaveLength(1);
+        expect(orders[0].orderId).toBe(7);
+        expect(orders[0].size.toString()).toBe('1500');
+        expect(orders[0].price.toString()).toBe('24500');
+        expect(orders[0].blockNumber.toNumber()).toBe(100);
+        expect(orders[0].triggerTime).toBe(1700000000);
+
+        // The trade for the other market is dropped
+        expect(trades).toHaveLength(1);
+        expect(trades[0].blockNumber).toBe('101');
+        expect(trades[0].transactionHash).toBe('0x03');
+
+        expect(cancels[0].orderIds).toEqual([7]);
+    });
+
+    it('should reconnect and resubscribe after the server drops the connection', async () => {
+        const { url, connections } = await startServer();
+        client = new KuruSdk.KuruWsClient(url, marketAddress, { reconnectionDelayMs: 10, reconnectionDelayMaxMs: 10 });
+
+        const orderIds: number[] = [];
+        let reconnects = 0;
+        client.onOrderCreated((event) => orderIds.push(event.orderId));
+        client.onReconnect(() => reconnects++);
+
+        await client.connect();
+        connections[0].disconnect(true);
+
+        await waitFor(() => connections.length === 2 && client!.isConnected());
+        expect(reconnects).toBe(1);
+        expect(connections[1].handshake.query.marketAddress).toBe(marketAddress);
+
+        connections[1].emit('OrderCreated', {
+            orderId: 8,
+            owner: userAddress,
+            size: '1',
+            price: '1',
+            isBuy: false,
+            blockNumber: 102,
+            transactionHash: '0x04',
+            triggerTime: 1700000002,
+            marketAddress,
+        });
+
+        await waitFor(() => orderIds.length === 1);
+        expect(orderIds).toEqual([8]);
+    });
+});